@@ -1,20 +1,59 @@
 import dotenv from "dotenv";
 import { runWithLinkedInSession } from "./src/reuse-session";
 import { searchJobsAndWriteTxt } from "./src/jobs-search";
+import { createDiagnostics } from "./src/diagnostics";
+import { resolveSearch } from "./src/saved-searches";
+import { createRunNotifier } from "./src/webhooks";
 
 dotenv.config();
 
+/**
+ * Helper: values of `--name value` / `--name=value` (repeatable)
+ */
+function argValues(argv: string[], name: string): string[] {
+  const values: string[] = [];
+  argv.forEach((arg, i) => {
+    if (arg === name) values.push(argv[i + 1] ?? "");
+    else if (arg.startsWith(`${name}=`)) values.push(arg.slice(name.length + 1));
+  });
+  return values;
+}
+
+// `--format csv,html` -> zusätzliche Exportformate, `--search <id>` -> gespeicherte Suche
+const formats = argValues(process.argv.slice(2), "--format")
+  .flatMap((f) => f.split(","))
+  .filter(Boolean);
+const searchId = argValues(process.argv.slice(2), "--search")[0];
+const diagnostics = createDiagnostics(`local-${new Date().toISOString()}`);
+
 async function main() {
   console.log("♻️ Reusing saved LinkedIn session...");
-  const result = await runWithLinkedInSession((page) => searchJobsAndWriteTxt(page));
+  const { profile, session: selector } = await resolveSearch({ searchId });
+  if (searchId) console.log(`🔎 Saved search: ${searchId} (${profile.name})`);
+  const notifier = createRunNotifier(profile.name);
+  const result = await runWithLinkedInSession(
+    (page, session) => {
+      console.log(`🔐 Session: ${session.name} (${session.label})`);
+      const onJobMatched = notifier.onJobMatched;
+      return searchJobsAndWriteTxt(page, profile, { diagnostics, sessionKey: session.name, formats, onJobMatched });
+    },
+    { diagnostics, session: selector }
+  );
 
-  console.log(`✅ Jobs fetched: ${result.jobs.length}`);
+  console.log(`✅ Jobs fetched: ${result.jobs.length} (${result.completion}: ${result.reason})`);
   console.log(`📄 TXT written: ${result.txtPath}`);
   console.log(`📄 JSON written: ${result.jsonPath}`);
+  for (const file of result.exports.filter((e) => e.format !== "txt" && e.format !== "json")) {
+    console.log(`📄 ${file.format.toUpperCase()} written: ${file.path}`);
+  }
+  const deliveries = await notifier.finish(result);
+  for (const d of deliveries) console.log(`🔔 Webhook ${d.webhook} (${d.event}): ${d.state}`);
+  if (diagnostics.artifacts.length) console.log(`🩺 Diagnostics: ${diagnostics.dir}`);
 }
 
 main().catch((err: any) => {
   console.error("❌ Failed during session reuse / job search.");
   console.error(err?.message ?? err);
+  if (diagnostics.artifacts.length) console.error(`🩺 Diagnostics: ${diagnostics.dir}`);
   process.exit(1);
 });
@@ -0,0 +1,98 @@
+import fs from "fs";
+import path from "path";
+import { chromium, Page } from "playwright";
+import {
+  listSelectorProfiles,
+  resolveSelector,
+  SelectorFieldName,
+  SelectorPage,
+  SelectorProfile,
+} from "./src/selectors";
+
+// Prüft alle Selector-Profile gegen gespeicherte HTML-Snapshots (ohne LinkedIn aufzurufen).
+// Dateiname bestimmt die Seitenart: search-*.html = Suchergebnisse, job-*.html = Job-Detailseite.
+const SNAPSHOT_DIR = process.env.SNAPSHOT_DIR || "snapshots";
+
+type FieldReport = {
+  field: SelectorFieldName;
+  required: boolean;
+  index: number; // -1 = nicht gefunden
+  selector: string;
+};
+
+function snapshotPage(file: string): SelectorPage {
+  const base = path.basename(file);
+  if (base.startsWith("search-")) return "search";
+  if (base.startsWith("job-")) return "job";
+  return "any";
+}
+
+async function checkSnapshot(page: Page, profile: SelectorProfile, kind: SelectorPage): Promise<FieldReport[]> {
+  const reports: FieldReport[] = [];
+  for (const [name, field] of Object.entries(profile.fields)) {
+    if (field.page !== "any" && kind !== "any" && field.page !== kind) continue;
+    const resolved = await resolveSelector(page, field);
+    reports.push({
+      field: name as SelectorFieldName,
+      required: Boolean(field.required) && kind !== "any",
+      index: resolved?.index ?? -1,
+      selector: resolved?.selector ?? "",
+    });
+  }
+  return reports;
+}
+
+function formatReport(r: FieldReport): string {
+  const name = r.field.padEnd(22);
+  if (r.index === -1) return `  ${r.required ? "❌" : "· "} ${name} not found${r.required ? "" : " (optional)"}`;
+  if (r.index === 0) return `  ✅ ${name} #1 ${r.selector}`;
+  return `  ⚠️ ${name} #${r.index + 1} ${r.selector} (fallback)`;
+}
+
+(async () => {
+  const files = fs.existsSync(SNAPSHOT_DIR)
+    ? fs
+        .readdirSync(SNAPSHOT_DIR)
+        .filter((f) => f.endsWith(".html"))
+        .sort()
+        .map((f) => path.join(SNAPSHOT_DIR, f))
+    : [];
+
+  if (files.length === 0) {
+    console.error(`❌ No HTML snapshots found in ${SNAPSHOT_DIR}/`);
+    process.exit(1);
+  }
+
+  const profiles = listSelectorProfiles();
+  const browser = await chromium.launch({ headless: true });
+  let missingRequired = 0;
+
+  try {
+    const page = await browser.newPage();
+    // Snapshots offline laden: keine Requests an LinkedIn (Bilder, Skripte, ...)
+    await page.route("**/*", (route) => route.abort());
+
+    for (const file of files) {
+      await page.setContent(fs.readFileSync(file, "utf8"), { waitUntil: "domcontentloaded" });
+      const kind = snapshotPage(file);
+
+      for (const profile of profiles) {
+        console.log(`\n📄 ${path.basename(file)} (${kind}) · profile ${profile.name} v${profile.version}`);
+        const reports = await checkSnapshot(page, profile, kind);
+        for (const r of reports) console.log(formatReport(r));
+        missingRequired += reports.filter((r) => r.required && r.index === -1).length;
+      }
+    }
+  } finally {
+    await browser.close().catch(() => {});
+  }
+
+  if (missingRequired > 0) {
+    console.error(`\n❌ ${missingRequired} required field(s) not resolved.`);
+    process.exit(1);
+  }
+  console.log("\n✅ All required fields resolved.");
+})().catch((e) => {
+  console.error("❌ Selector check failed:", e);
+  process.exit(1);
+});
@@ -1,9 +1,38 @@
 // FILE: server.ts
 
 import express from "express";
+import { randomUUID } from "crypto";
 import dotenv from "dotenv";
-import { chromium } from "playwright";
-import { fetchLinkedInJobsAiHr } from "./src/jobs-ai-hr";
+import { fetchLinkedInJobsAiHr, FetchOptions, FetchResult } from "./src/jobs-ai-hr";
+import { SearchProfile } from "./src/search-profile";
+import { cancelRun, getRun, RunWorkOptions, startRun } from "./src/runs";
+import { runWithLinkedInSession, validateSession } from "./src/reuse-session";
+import { browserPoolStats, closeBrowserPool } from "./src/browser-pool";
+import { listJobsFirstSeenSince, recordJobs } from "./src/job-store";
+import { createDiagnostics } from "./src/diagnostics";
+import { exportFileName, exporterFromInput } from "./src/exporters";
+import { JOB_SORTS, JobSort, sortJobs } from "./src/scoring";
+import { errorResponse, InvalidInputError, LoginNotFoundError, RunNotFoundError } from "./src/errors";
+import {
+  createSavedSearch,
+  deleteSavedSearch,
+  getSavedSearch,
+  listSavedSearches,
+  replaceSavedSearch,
+  resolveSearch,
+} from "./src/saved-searches";
+import { PacingConfig, pacingFromInput } from "./src/pacing";
+import { getSession, listSessions } from "./src/sessions";
+import { closeLogins, credentialsFromInput, getLogin, startLogin, verifyLogin } from "./src/login-flow";
+import { createRunNotifier, listWebhookDeliveries, listWebhooks } from "./src/webhooks";
+import {
+  isScheduleRunning,
+  listScheduledRuns,
+  listSchedules,
+  scheduleTimeZone,
+  startScheduler,
+  stopScheduler,
+} from "./src/scheduler";
 
 dotenv.config();
 
@@ -11,17 +40,81 @@ const app = express();
 app.use(express.json());
 
 const PORT = Number(process.env.PORT || 3000);
-const HEADLESS = (process.env.HEADLESS ?? "true").toLowerCase() !== "false";
 
-const STORAGE_STATE_PATH = "session/linkedin-session.json";
-const FEED_URL = "https://www.linkedin.com/feed/";
+/**
+ * Runs a job fetch for `profile` in the shared browser pool (waiting in the FIFO
+ * queue if needed) and records the jobs in the job store. Aborting
+ * `options.signal` leaves the queue or closes the pooled context right away.
+ * `options.session` picks the session (name or "auto"); the result says which one ran.
+ * Webhooks (src/webhooks.ts) are fired in the background and never delay the response.
+ */
+async function fetchJobsWithStoredSession(
+  profile: SearchProfile,
+  options: Partial<RunWorkOptions> & Pick<FetchOptions, "pacing"> & { session?: string } = {}
+): Promise<FetchResult & { session: string }> {
+  const { session, ...fetchOptions } = options;
+  const notifier = createRunNotifier(profile.name);
+  const result = await runWithLinkedInSession(
+    async (page, used) => {
+      console.log(`✅ Authenticated (session ${used.name}). Fetching jobs...`);
+      // Rate-Limit-Fenster gehört dem Account, nicht dem Run
+      const fetched = await fetchLinkedInJobsAiHr(page, profile, {
+        ...fetchOptions,
+        sessionKey: used.name,
+        onJobMatched: notifier.onJobMatched,
+      });
+      return { ...fetched, session: used.name };
+    },
+    {
+      pool: true,
+      session,
+      signal: options.signal,
+      onQueuePosition: options.onQueuePosition,
+      diagnostics: options.diagnostics,
+    }
+  );
+
+  const recorded = { ...result, jobs: await recordJobs(result.jobs, profile.name) };
+  void notifier.finish(recorded);
+  return recorded;
+}
+
+/** Reads `?limit=` (default 50); throws INVALID_LIMIT unless it is a positive integer. */
+function limitFromQuery(req: express.Request): number {
+  const limit = Number(req.query.limit ?? 50);
+  if (!Number.isInteger(limit) || limit < 1) {
+    const message = `limit must be a positive integer (got "${req.query.limit}")`;
+    throw new InvalidInputError("INVALID_LIMIT", message, { field: "limit" });
+  }
+  return limit;
+}
+
+/** Sends the error envelope from src/errors.ts; `extra` is merged in (e.g. `diagnostics`). */
+function sendError(res: express.Response, err: unknown, extra: Record<string, unknown> = {}) {
+  const { status, body } = errorResponse(err);
+  return res.status(status).json({ ...body, ...extra });
+}
 
 app.get("/health", (_req, res) => {
-  res.json({ ok: true, message: "LinkedIn Job API running" });
+  res.json({ ok: true, message: "LinkedIn Job API running", pool: browserPoolStats() });
 });
 
 /**
- * GET /api/v1/jobs
+ * GET  /api/v1/jobs?keywords=...&location=...&workplaceTypes=remote,hybrid&datePosted=week&maxResults=20
+ * POST /api/v1/jobs  { "keywords": "...", "match": "title:recruit* AND NOT company:Acme", ... }
+ *
+ * Without parameters the default "AI" + "HR" profile is used. The JSON body may carry
+ * `pacing` overrides for this run (see src/pacing.ts), e.g. { "pacing": { "maxPageViewsPerMinute": 10 } }.
+ * `session` picks a named session or "auto" (rotate through healthy sessions); `meta.session` is the one used.
+ * `sort=score|date` ranks the jobs (default: order of the search results), `minScore` drops low scores and
+ * `scoring` (JSON body) overrides the weights of src/scoring.ts; each job has `score` and `scoreBreakdown`.
+ * `searchId` runs a saved search (src/saved-searches.ts) instead of the profile parameters; `meta.searchId`.
+ * `format=csv|ndjson|markdown|html|txt` (or the Accept header, e.g. `text/csv`) returns the jobs in that
+ * format instead (src/exporters.ts); `meta` is then only in the X-Completion, X-Job-Count and X-Session headers.
+ * Partial results (hard timeout, verification wall mid-run) are returned with
+ * status 200; `meta.completion` says why the run ended:
+ * complete | no_results | timed_out | blocked | rate_limited | stagnant | max_results
+ * (`meta.pageState` = { state, url, evidence } of the page that ended the run, if any)
  * Returns:
  * {
  *   "jobs": [
@@ -29,77 +122,452 @@ app.get("/health", (_req, res) => {
  *       "jobTitle": "...",
  *       "description": "...",
  *       "link": "...",
- *       "contact": "...",
+ *       "contact": "Jane Doe (Talent Lead) <https://www.linkedin.com/in/...>; jobs@acme.com",
+ *       "contacts": [{ "name", "headline"?, "profileUrl"?, "email"?, "source": "hiring_team|description" }],
  *       "company": "...",
- *       "postingDate": "YYYY-MM-DD"
+ *       "postingDate": "YYYY-MM-DD",
+ *       "postingDateSource": "exact|relative|unknown", "reposted": false,
+ *       "jobId": "...", "location": "...", "workplaceType": "remote|hybrid|onsite|",
+ *       "employmentType": "full-time|...", "seniorityLevel": "mid-senior|...",
+ *       "applicantCount": 87, "easyApply": true,
+ *       "salary": { "min", "max", "currency", "period", "text" } | null,
+ *       "matches": [{ "term": "...", "field": "title", "negated": false }],
+ *       "score": 7.5, "scoreBreakdown": [{ "type": "term", "term", "field", "weight", "points" },
+ *         { "type": "recency", "ageDays", "points" }],
+ *       "status": "new" | "seen"
  *     }
- *   ]
+ *   ],
+ *   "meta": { ... },
+ *   "diagnostics": [{ "kind": "screenshot|html|trace", "path": "...", "url": "...", "step": "search-page-1" }]
  * }
+ * Errors use the envelope from src/errors.ts, status by code (400/401/423/429/500/503/504):
+ * { "ok": false, "error": "AUTH_REQUIRED", "message": "...", "retryable": false, "details"?: {...},
+ *   "diagnostics": [...] }
+ * `diagnostics` lists the failure artifacts of this request (also on error responses).
  */
-app.get("/api/v1/jobs", async (_req, res) => {
+const handleJobs: express.RequestHandler = async (req, res) => {
   const startedAt = Date.now();
+  const diagnostics = createDiagnostics(randomUUID());
 
   try {
-    console.log("🚀 GET /api/v1/jobs -> starting Playwright job fetch...");
-
-    const browser = await chromium.launch({
-      headless: HEADLESS,
-      args: ["--disable-dev-shm-usage"],
-    });
+    const input = { ...req.query, ...(req.body ?? {}) };
+    const { profile, session, searchId } = await resolveSearch(input);
+    const pacing = pacingFromInput(input);
+    const exporter = exporterFromInput(input, req.get("accept"));
+    console.log(`🚀 ${req.method} /api/v1/jobs (${profile.name}) -> starting Playwright job fetch...`);
 
-    const context = await browser.newContext({
-      storageState: STORAGE_STATE_PATH,
-      viewport: { width: 1280, height: 800 },
+    let queuePosition = 0;
+    let queuedMs = 0;
+    const result = await fetchJobsWithStoredSession(profile, {
+      diagnostics,
+      pacing,
+      session,
+      onQueuePosition: (position) => {
+        if (position > queuePosition) queuePosition = position;
+        if (position === 0) queuedMs = Date.now() - startedAt;
+      },
     });
+    const { jobs, completion, reason, pageState, pacing: pacingStats } = result;
 
-    const page = await context.newPage();
-    page.setDefaultTimeout(60_000);
-
-    // Verify logged-in session
-    console.log("🔐 Checking authentication...");
-    await page.goto(FEED_URL, { waitUntil: "domcontentloaded" });
-
-    if (page.url().includes("/login") || page.url().includes("/checkpoint") || page.url().includes("/challenge")) {
-      throw new Error("AUTH_REQUIRED: Session expired. Run npm run login again.");
+    if (exporter.format !== "json") {
+      const context = { profile: profile.name, generatedAt: new Date().toISOString() };
+      return res
+        .type(exporter.contentType)
+        .set({
+          "Content-Disposition": `inline; filename="${exportFileName(exporter, context)}"`,
+          "X-Completion": completion,
+          "X-Job-Count": String(jobs.length),
+          "X-Session": result.session,
+        })
+        .send(exporter.render(jobs, context));
     }
 
-    console.log("✅ Authenticated. Fetching jobs...");
-    const jobs = await fetchLinkedInJobsAiHr(page);
-
-    await context.close();
-    await browser.close();
-
     return res.json({
       jobs,
       meta: {
+        profile,
+        searchId,
+        session: result.session,
+        completion,
+        reason,
+        pageState,
         count: jobs.length,
+        newCount: jobs.filter((j) => j.status === "new").length,
         tookMs: Date.now() - startedAt,
-        headless: HEADLESS,
+        queuePosition,
+        queuedMs,
+        headless: browserPoolStats().headless,
+        pacing: pacingStats,
       },
+      diagnostics: diagnostics.artifacts,
     });
   } catch (err: any) {
-    const msg = String(err?.message ?? err);
-    console.error("❌ /api/v1/jobs error:", msg);
+    console.error("❌ /api/v1/jobs error:", String(err?.message ?? err));
+    return sendError(res, err, { diagnostics: diagnostics.artifacts });
+  }
+};
 
-    if (msg.includes("AUTH_REQUIRED")) {
-      return res.status(401).json({
-        error: "AUTH_REQUIRED",
-        message: "Session expired or invalid. Re-run npm run login to refresh session.",
-      });
-    }
+/**
+ * GET /api/v1/jobs/new?since=2024-01-31T00:00:00Z&sort=score
+ * Jobs from the persistent store that were first seen at or after `since`
+ * (default: last 24 hours), newest first; `sort=score|date` ranks them like /api/v1/jobs.
+ */
+app.get("/api/v1/jobs/new", async (req, res) => {
+  const sinceRaw = typeof req.query.since === "string" ? req.query.since : "";
+  const since = sinceRaw ? new Date(sinceRaw) : new Date(Date.now() - 24 * 60 * 60_000);
+
+  if (Number.isNaN(since.getTime())) {
+    const message = `since must be an ISO date/timestamp (got "${sinceRaw}")`;
+    return sendError(res, new InvalidInputError("INVALID_SINCE", message));
+  }
+
+  const sort = req.query.sort ?? "page";
+  if (!JOB_SORTS.includes(sort as JobSort)) {
+    const message = `sort must be one of ${JOB_SORTS.join(", ")} (got "${sort}")`;
+    return sendError(res, new InvalidInputError("INVALID_SORT", message, { field: "sort" }));
+  }
 
-    return res.status(500).json({
-      error: "INTERNAL_ERROR",
-      message: msg,
+  try {
+    const stored = await listJobsFirstSeenSince(since);
+    const jobs = stored.map((s) => ({
+      ...s.job,
+      status: "new" as const,
+      firstSeenAt: s.firstSeenAt,
+      lastSeenAt: s.lastSeenAt,
+      profiles: s.profiles,
+    }));
+    return res.json({
+      jobs: sortJobs(jobs, sort as JobSort),
+      meta: {
+        count: stored.length,
+        since: since.toISOString(),
+      },
     });
+  } catch (err: any) {
+    console.error("❌ /api/v1/jobs/new error:", String(err?.message ?? err));
+    return sendError(res, err);
   }
 });
 
-app.listen(PORT, () => {
-  console.log("========================================");
-  console.log("✅ LinkedIn Jobs REST API running");
-  console.log(`🌍 URL: http://localhost:${PORT}`);
-  console.log("➡️  GET  /health");
-  console.log("➡️  GET  /api/v1/jobs");
-  console.log("========================================");
+app.get("/api/v1/jobs", handleJobs);
+app.post("/api/v1/jobs", handleJobs);
+
+/**
+ * POST /api/v1/runs  (same parameters as /api/v1/jobs incl. `searchId`, query string or JSON body)
+ * Starts a job fetch in the background and returns immediately:
+ * { "id": "...", "state": "queued" | "running", "queuePosition": 0, ... }  (202)
+ */
+app.post("/api/v1/runs", async (req, res) => {
+  let profile: SearchProfile;
+  let pacing: Partial<PacingConfig>;
+  let session: string | undefined;
+  try {
+    const input = { ...req.query, ...(req.body ?? {}) };
+    ({ profile, session } = await resolveSearch(input));
+    pacing = pacingFromInput(input);
+  } catch (err: any) {
+    return sendError(res, err);
+  }
+
+  const run = startRun(profile, (p, options) => fetchJobsWithStoredSession(p, { ...options, pacing, session }));
+  console.log(`🚀 POST /api/v1/runs (${profile.name}) -> run ${run.id} started`);
+
+  return res.status(202).location(`/api/v1/runs/${run.id}`).json(run);
 });
+
+/**
+ * GET /api/v1/runs/:id
+ * { "id", "state": "queued|running|succeeded|failed|cancelled", "queuePosition",
+ *   "progress": { "page", "maxPages", "round", "maxRounds", "seen", "pending", "matched",
+ *     "pacing": { "pageViews", "retries", "throttleWaits", "throttledMs", "blockPauses", "delayedMs" } },
+ *   "jobs": [...],
+ *   "session"?, "completion"?, "reason"?, "pageState"?, "error"?, "errorCode"?, "retryable"? }
+ */
+app.get("/api/v1/runs/:id", (req, res) => {
+  const run = getRun(req.params.id);
+  if (!run) {
+    return sendError(res, new RunNotFoundError(req.params.id));
+  }
+  return res.json(run);
+});
+
+/**
+ * DELETE /api/v1/runs/:id
+ * Cancels a queued or running fetch (closes its browser context) and returns the final run record.
+ */
+app.delete("/api/v1/runs/:id", async (req, res) => {
+  const run = await cancelRun(req.params.id);
+  if (!run) {
+    return sendError(res, new RunNotFoundError(req.params.id));
+  }
+  return res.json(run);
+});
+
+/**
+ * GET /api/v1/searches
+ * { "searches": [{ "id", "profile": { "name", "keywords", "location"?, ..., "matchExpression" },
+ *   "session"?, "createdAt", "updatedAt" }] }
+ */
+app.get("/api/v1/searches", async (_req, res) => {
+  try {
+    return res.json({ searches: await listSavedSearches() });
+  } catch (err: any) {
+    return sendError(res, err);
+  }
+});
+
+/**
+ * POST /api/v1/searches  { "name": "...", "id"?, "session"?, <profile parameters like /api/v1/jobs> }
+ * Saves a search -> 201 with the saved search; an existing `id` is 409 SEARCH_CONFLICT.
+ */
+app.post("/api/v1/searches", async (req, res) => {
+  try {
+    const search = await createSavedSearch(req.body ?? {});
+    return res.status(201).location(`/api/v1/searches/${search.id}`).json(search);
+  } catch (err: any) {
+    return sendError(res, err);
+  }
+});
+
+/** GET /api/v1/searches/:id -> the saved search (404 SEARCH_NOT_FOUND). */
+app.get("/api/v1/searches/:id", async (req, res) => {
+  try {
+    return res.json(await getSavedSearch(req.params.id));
+  } catch (err: any) {
+    return sendError(res, err);
+  }
+});
+
+/** PUT /api/v1/searches/:id  (same body as POST) -> replaces the definition. */
+app.put("/api/v1/searches/:id", async (req, res) => {
+  try {
+    return res.json(await replaceSavedSearch(req.params.id, req.body ?? {}));
+  } catch (err: any) {
+    return sendError(res, err);
+  }
+});
+
+/** DELETE /api/v1/searches/:id -> the deleted search. */
+app.delete("/api/v1/searches/:id", async (req, res) => {
+  try {
+    return res.json(await deleteSavedSearch(req.params.id));
+  } catch (err: any) {
+    return sendError(res, err);
+  }
+});
+
+/**
+ * POST /api/v1/searches/:id/run  { "session"?, "pacing"?, "format"? }
+ * Runs the saved search like GET /api/v1/jobs?searchId=:id (same response).
+ */
+app.post("/api/v1/searches/:id/run", (req, res, next) => {
+  req.body = { ...(req.body ?? {}), searchId: req.params.id };
+  return handleJobs(req, res, next);
+});
+
+/**
+ * GET /api/v1/sessions
+ * { "sessions": [{ "name", "label", "createdAt", "lastValidatedAt"?, "lastUsedAt"?,
+ *   "lastFailure"?: { "at", "code", "message" }, "location", "updatedAt",
+ *   "status": "unknown|healthy|failing", "healthy" }] }
+ */
+app.get("/api/v1/sessions", async (_req, res) => {
+  try {
+    return res.json({ sessions: await listSessions() });
+  } catch (err: any) {
+    return sendError(res, err);
+  }
+});
+
+/**
+ * POST /api/v1/sessions/:name/validate
+ * Runs the feed check of this session in the browser pool and stores the result.
+ * 200 { "valid": true, "session": {...} }; a failed check answers with the error envelope
+ * (e.g. 401 AUTH_REQUIRED) plus the updated `session` and `diagnostics`.
+ */
+app.post("/api/v1/sessions/:name/validate", async (req, res) => {
+  const diagnostics = createDiagnostics(randomUUID());
+  try {
+    const session = await validateSession(req.params.name, { pool: true, diagnostics });
+    return res.json({ valid: true, session, diagnostics: diagnostics.artifacts });
+  } catch (err: any) {
+    console.error(`❌ session ${req.params.name} validation failed:`, String(err?.message ?? err));
+    const session = await getSession(req.params.name).catch(() => undefined);
+    return sendError(res, err, { session, diagnostics: diagnostics.artifacts });
+  }
+});
+
+/**
+ * POST /api/v1/sessions/:name/login  { "email"?, "password"?, "label"? }
+ * Logs in with a fresh browser (credentials default to LINKEDIN_EMAIL/LINKEDIN_PASSWORD) and saves
+ * the storageState of session `name`. Answers once the login settled:
+ * 200 { "state": "succeeded", "session": {...} }, or 202 { "state": "awaiting_verification",
+ * "verification": { "url", "expiresAt", "attemptsLeft" } } when LinkedIn sent an email/SMS PIN
+ * -> POST /api/v1/sessions/:name/verify. Failures use the error envelope plus `login`.
+ */
+app.post("/api/v1/sessions/:name/login", async (req, res) => {
+  try {
+    const credentials = credentialsFromInput(req.body ?? {});
+    const login = await startLogin(req.params.name, credentials);
+    if (login.state === "awaiting_verification") return res.status(202).json(login);
+    return res.json({ ...login, session: await getSession(req.params.name) });
+  } catch (err: any) {
+    return sendError(res, err, { login: getLogin(req.params.name) });
+  }
+});
+
+/**
+ * POST /api/v1/sessions/:name/verify  { "code": "123456" }
+ * Enters the PIN of a login in "awaiting_verification". 200 like a successful login;
+ * a wrong code answers 400 VERIFICATION_FAILED (`details.attemptsLeft`), the login stays pending.
+ */
+app.post("/api/v1/sessions/:name/verify", async (req, res) => {
+  try {
+    const code = req.body?.code;
+    if (typeof code !== "string" && typeof code !== "number") {
+      throw new InvalidInputError("INVALID_VERIFICATION_CODE", "code is required", { field: "code" });
+    }
+    const login = await verifyLogin(req.params.name, String(code));
+    if (login.state === "awaiting_verification") return res.status(202).json(login);
+    return res.json({ ...login, session: await getSession(req.params.name) });
+  } catch (err: any) {
+    return sendError(res, err, { login: getLogin(req.params.name) });
+  }
+});
+
+/** GET /api/v1/sessions/:name/login -> state of the current (or last) login of this session. */
+app.get("/api/v1/sessions/:name/login", (req, res) => {
+  const login = getLogin(req.params.name);
+  if (!login) return sendError(res, new LoginNotFoundError(req.params.name));
+  return res.json(login);
+});
+
+/**
+ * GET /api/v1/webhooks
+ * Configured webhooks from WEBHOOKS_PATH, without URL paths and secrets:
+ * { "webhooks": [{ "name", "url", "template", "events", "signed", "onlyNew", "profiles" }] }
+ */
+app.get("/api/v1/webhooks", (_req, res) => {
+  try {
+    const webhooks = listWebhooks().map(({ name, url, template, events, secretEnv, onlyNew, profiles }) => ({
+      name,
+      url: new URL(url).origin,
+      template,
+      events,
+      signed: Boolean(secretEnv),
+      onlyNew,
+      profiles,
+    }));
+    return res.json({ webhooks });
+  } catch (err: any) {
+    return sendError(res, err);
+  }
+});
+
+/**
+ * GET /api/v1/webhooks/deliveries?limit=50
+ * Delivery log, newest first: { "deliveries": [{ "id", "webhook", "event", "state": "delivered|failed",
+ *   "attempts": [{ "at", "status"?, "error"?, "durationMs" }], ... }] }
+ */
+app.get("/api/v1/webhooks/deliveries", async (req, res) => {
+  try {
+    return res.json({ deliveries: await listWebhookDeliveries(limitFromQuery(req)) });
+  } catch (err: any) {
+    return sendError(res, err);
+  }
+});
+
+/**
+ * GET /api/v1/schedules
+ * Schedules from SCHEDULES_PATH: { "timeZone", "schedules": [{ "name", "cron", "nextRunAt", "running",
+ *   "enabled", "quietHours", "session", "formats", "profiles": [<search profile>], "searchIds" }] }
+ * `cron`/`nextRunAt` are null for schedules that only run via the Azure timer function.
+ */
+app.get("/api/v1/schedules", (_req, res) => {
+  try {
+    const now = new Date();
+    const schedules = listSchedules().map((s) => ({
+      name: s.name,
+      cron: s.cron?.expression ?? null,
+      nextRunAt: (s.enabled && s.cron?.next(now)?.toISOString()) || null,
+      running: isScheduleRunning(s.name),
+      enabled: s.enabled,
+      quietHours: s.quietHours?.text ?? null,
+      session: s.session,
+      formats: s.formats,
+      profiles: s.profiles,
+      searchIds: s.searchIds,
+    }));
+    return res.json({ timeZone: scheduleTimeZone(), schedules });
+  } catch (err: any) {
+    return sendError(res, err);
+  }
+});
+
+/**
+ * GET /api/v1/schedules/runs?limit=50&schedule=<name>
+ * Run log of scheduled runs, newest first: { "runs": [{ "id", "schedule", "trigger": "scheduler|timer",
+ *   "state": "succeeded|failed|skipped", "skipReason"?: "overlap|quiet_hours|disabled", "startedAt", "finishedAt",
+ *   "profiles": [{ "profile", "session", "completion", "reason", "count", "newCount", "files", "error"? }] }] }
+ */
+app.get("/api/v1/schedules/runs", async (req, res) => {
+  try {
+    const schedule = typeof req.query.schedule === "string" ? req.query.schedule : undefined;
+    return res.json({ runs: await listScheduledRuns(limitFromQuery(req), schedule) });
+  } catch (err: any) {
+    return sendError(res, err);
+  }
+});
+
+// Nur als eigenes Skript lauschen; Tests importieren `app` und starten ihn selbst
+if (require.main === module) {
+  const server = app.listen(PORT, () => {
+    console.log("========================================");
+    console.log("✅ LinkedIn Jobs REST API running");
+    console.log(`🌍 URL: http://localhost:${PORT}`);
+    console.log("➡️  GET  /health");
+    console.log("➡️  GET  /api/v1/jobs");
+    console.log("➡️  POST /api/v1/jobs");
+    console.log("➡️  GET  /api/v1/jobs/new?since=");
+    console.log("➡️  POST /api/v1/runs");
+    console.log("➡️  GET  /api/v1/runs/:id");
+    console.log("➡️  DELETE /api/v1/runs/:id");
+    console.log("➡️  GET|POST /api/v1/searches");
+    console.log("➡️  GET|PUT|DELETE /api/v1/searches/:id");
+    console.log("➡️  POST /api/v1/searches/:id/run");
+    console.log("➡️  GET  /api/v1/sessions");
+    console.log("➡️  POST /api/v1/sessions/:name/validate");
+    console.log("➡️  POST /api/v1/sessions/:name/login");
+    console.log("➡️  POST /api/v1/sessions/:name/verify");
+    console.log("➡️  GET  /api/v1/webhooks");
+    console.log("➡️  GET  /api/v1/webhooks/deliveries");
+    console.log("➡️  GET  /api/v1/schedules");
+    console.log("➡️  GET  /api/v1/schedules/runs");
+    try {
+      console.log(`🔔 Webhooks: ${listWebhooks().map((w) => w.name).join(", ") || "none"}`);
+    } catch (err: any) {
+      console.warn(`⚠️ Webhooks disabled: ${err?.message ?? err}`);
+    }
+    try {
+      const watched = startScheduler();
+      console.log(`⏰ Schedules (${scheduleTimeZone()}): ${watched.map((s) => s.name).join(", ") || "none"}`);
+    } catch (err: any) {
+      console.warn(`⚠️ Scheduler disabled: ${err?.message ?? err}`);
+    }
+    console.log("========================================");
+  });
+
+  const shutdown = async (signal: string) => {
+    console.log(`👋 ${signal} received, closing browser pool...`);
+    server.close();
+    stopScheduler();
+    await closeLogins();
+    await closeBrowserPool();
+    process.exit(0);
+  };
+
+  process.on("SIGINT", () => void shutdown("SIGINT"));
+  process.on("SIGTERM", () => void shutdown("SIGTERM"));
+}
+
+export { app };
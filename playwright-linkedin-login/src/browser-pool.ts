@@ -0,0 +1,213 @@
+// FILE: src/browser-pool.ts
+//
+// Ein langlebiger Chromium für den Server-Prozess + Pool von Contexts aus der gespeicherten Session.
+// Parallele Runs werden über eine FIFO-Queue auf BROWSER_CONCURRENCY begrenzt, damit nicht mehrere
+// Runs gleichzeitig mit derselben Session auf LinkedIn losgehen.
+
+import { Browser, BrowserContext, chromium } from "playwright";
+import { PoolClosedError, RunCancelledError } from "./errors";
+import { StorageState } from "./session-store";
+
+const CONCURRENCY = Math.max(1, Number(process.env.BROWSER_CONCURRENCY || 1));
+const VIEWPORT = { width: 1280, height: 800 };
+
+export type PoolOptions = {
+  signal?: AbortSignal;
+  // 0 = läuft, 1 = als nächstes dran, ...
+  onQueuePosition?: (position: number) => void;
+};
+
+// Woher ein Context seinen storageState bekommt (Session aus src/sessions.ts)
+export type StorageStateSource = {
+  key: string;
+  // ändert sich bei neuem Login/Write-back -> ältere idle Contexts dieser Session werden verworfen
+  version: () => Promise<string>;
+  load: () => Promise<StorageState>;
+};
+
+type Waiter = {
+  start: () => void;
+  fail: (e: Error) => void;
+  onQueuePosition?: (position: number) => void;
+};
+
+type IdleContext = {
+  context: BrowserContext;
+  key: string;
+  version: string;
+};
+
+let browserPromise: Promise<Browser> | null = null;
+let active = 0;
+const queue: Waiter[] = [];
+const idleContexts: IdleContext[] = [];
+// Contexts, in denen der Run evtl. noch navigiert -> beim Release schließen statt wiederverwenden
+const discardedContexts = new WeakSet<BrowserContext>();
+
+// wie früher im Server: alles außer "false" ist headless, auf Servern ohne Display startet sonst nichts
+function isHeadless(): boolean {
+  return (process.env.HEADLESS ?? "true").toLowerCase() !== "false";
+}
+
+async function getBrowser(): Promise<Browser> {
+  if (!browserPromise) {
+    console.log("🧭 Launching shared Chromium...");
+    browserPromise = chromium
+      .launch({ headless: isHeadless(), args: ["--disable-dev-shm-usage"] })
+      .then((browser) => {
+        browser.on("disconnected", () => {
+          console.warn("⚠️ Shared Chromium disconnected; will relaunch on next use.");
+          browserPromise = null;
+          idleContexts.length = 0;
+        });
+        return browser;
+      })
+      .catch((e) => {
+        browserPromise = null;
+        throw e;
+      });
+  }
+  return browserPromise;
+}
+
+function notifyQueuePositions() {
+  queue.forEach((w, i) => w.onQueuePosition?.(i + 1));
+}
+
+function acquireSlot(options: PoolOptions): Promise<void> {
+  if (options.signal?.aborted) return Promise.reject(new RunCancelledError());
+
+  if (active < CONCURRENCY) {
+    active++;
+    options.onQueuePosition?.(0);
+    return Promise.resolve();
+  }
+
+  return new Promise<void>((resolve, reject) => {
+    const waiter: Waiter = {
+      start: () => {
+        options.signal?.removeEventListener("abort", onAbort);
+        options.onQueuePosition?.(0);
+        resolve();
+      },
+      fail: reject,
+      onQueuePosition: options.onQueuePosition,
+    };
+
+    const onAbort = () => {
+      const i = queue.indexOf(waiter);
+      if (i !== -1) {
+        queue.splice(i, 1);
+        notifyQueuePositions();
+      }
+      reject(new RunCancelledError());
+    };
+    options.signal?.addEventListener("abort", onAbort, { once: true });
+
+    queue.push(waiter);
+    notifyQueuePositions();
+  });
+}
+
+function releaseSlot() {
+  const next = queue.shift();
+  if (next) {
+    // Slot wird direkt weitergereicht, `active` bleibt gleich
+    notifyQueuePositions();
+    next.start();
+  } else {
+    active--;
+  }
+}
+
+async function acquireContext(source: StorageStateSource): Promise<BrowserContext> {
+  const version = await source.version();
+
+  // Idle Contexts aus einem älteren storageState (z. B. nach erneutem Login) verwerfen
+  for (let i = idleContexts.length - 1; i >= 0; i--) {
+    const idle = idleContexts[i];
+    if (idle.key === source.key && idle.version !== version) {
+      idleContexts.splice(i, 1);
+      await idle.context.close().catch(() => {});
+    }
+  }
+
+  const i = idleContexts.findIndex((c) => c.key === source.key);
+  if (i !== -1) return idleContexts.splice(i, 1)[0].context;
+
+  const [browser, storageState] = await Promise.all([getBrowser(), source.load()]);
+  return browser.newContext({ storageState, viewport: VIEWPORT });
+}
+
+async function releaseContext(context: BrowserContext, source: StorageStateSource, reusable: boolean) {
+  if (reusable && !discardedContexts.has(context) && idleContexts.length < CONCURRENCY) {
+    try {
+      await Promise.all(context.pages().map((p) => p.close()));
+      // Version nach dem Run: ein Write-back der Cookies macht den Context nicht "veraltet"
+      idleContexts.push({ context, key: source.key, version: await source.version() });
+      return;
+    } catch {
+      // Context kaputt -> unten schließen
+    }
+  }
+  await context.close().catch(() => {});
+}
+
+/**
+ * Runs `work` with a pooled browser context loaded from `source`.
+ * Waits in the FIFO queue while BROWSER_CONCURRENCY runs are active. The context
+ * is always released (or closed after an abort/error or `discardContext`), no matter how `work` ends.
+ */
+export async function withPooledContext<T>(
+  source: StorageStateSource,
+  work: (context: BrowserContext) => Promise<T>,
+  options: PoolOptions = {}
+): Promise<T> {
+  await acquireSlot(options);
+
+  let context: BrowserContext | null = null;
+  let failed = false;
+  const onAbort = () => {
+    // Abbruch: Context schließen, damit laufende Navigationen sofort abbrechen
+    context?.close().catch(() => {});
+  };
+
+  try {
+    context = await acquireContext(source);
+    options.signal?.addEventListener("abort", onAbort, { once: true });
+    if (options.signal?.aborted) throw new RunCancelledError();
+
+    return await work(context);
+  } catch (e) {
+    failed = true;
+    throw e;
+  } finally {
+    options.signal?.removeEventListener("abort", onAbort);
+    if (context) await releaseContext(context, source, !failed && !options.signal?.aborted);
+    releaseSlot();
+  }
+}
+
+/** Makes the pool close `context` on release instead of reusing it, e.g. when pages of the run may still be busy. */
+export function discardContext(context: BrowserContext) {
+  discardedContexts.add(context);
+}
+
+export function browserPoolStats() {
+  return {
+    headless: isHeadless(),
+    concurrency: CONCURRENCY,
+    active,
+    queued: queue.length,
+    idleContexts: idleContexts.length,
+  };
+}
+
+export async function closeBrowserPool() {
+  for (const w of queue.splice(0)) w.fail(new PoolClosedError());
+  for (const idle of idleContexts.splice(0)) await idle.context.close().catch(() => {});
+
+  const pending = browserPromise;
+  browserPromise = null;
+  if (pending) await (await pending.catch(() => null))?.close().catch(() => {});
+}
@@ -0,0 +1,172 @@
+// FILE: src/cron.ts
+//
+// Cron-Ausdrücke für den Scheduler im Express-Server (src/scheduler.ts):
+//   "<Minute> <Stunde> <Tag> <Monat> <Wochentag>", z. B. "0 7 * * 1-5" = werktags 7:00
+// Erlaubt sind *, Listen (1,15), Bereiche (1-5), Schritte (*/15, 8-18/2) und Namen (MON, JAN).
+// Sechs Felder wie bei Azure (NCRONTAB, Sekunden vorne) werden akzeptiert, die Sekunden ignoriert.
+// Ausgewertet wird in einer festen Zeitzone (SCHEDULE_TIMEZONE), nicht in der des Servers.
+
+import { ConfigurationError } from "./errors";
+
+export type CronSchedule = {
+  expression: string;
+  matches(date: Date): boolean;
+  /** First full minute after `after` that matches, null if none within a year. */
+  next(after: Date): Date | null;
+};
+
+// "22:00-06:00" in der Zeitzone des Schedules; Ende exklusiv, über Mitternacht erlaubt
+export type QuietHours = {
+  start: number; // Minuten seit Mitternacht
+  end: number;
+  text: string;
+};
+
+type ZonedParts = {
+  minute: number;
+  hour: number;
+  day: number;
+  month: number;
+  weekday: number; // 0 = Sonntag
+};
+
+type Field = { min: number; max: number; names?: string[] };
+
+const FIELDS: Field[] = [
+  { min: 0, max: 59 },
+  { min: 0, max: 23 },
+  { min: 1, max: 31 },
+  { min: 1, max: 12, names: ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"] },
+  { min: 0, max: 7, names: ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"] },
+];
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const MINUTE_MS = 60_000;
+const MAX_LOOKAHEAD_MS = 366 * 24 * 60 * MINUTE_MS;
+
+function invalidCron(expression: string, message: string) {
+  return new ConfigurationError("INVALID_SCHEDULE", `cron "${expression}": ${message}`, { cron: expression });
+}
+
+function parseValue(raw: string, field: Field, expression: string): number {
+  const named = field.names?.indexOf(raw.toUpperCase()) ?? -1;
+  const value = named !== -1 ? named + field.min : Number(raw);
+  if (!Number.isInteger(value) || value < field.min || value > field.max) {
+    throw invalidCron(expression, `"${raw}" is outside ${field.min}-${field.max}`);
+  }
+  return value;
+}
+
+function parseField(raw: string, field: Field, expression: string): Set<number> | null {
+  if (raw === "*" || raw === "?") return null; // null = jeder Wert
+  const values = new Set<number>();
+
+  for (const part of raw.split(",")) {
+    const [range, stepRaw] = part.split("/");
+    const step = stepRaw === undefined ? 1 : Number(stepRaw);
+    if (!Number.isInteger(step) || step < 1) throw invalidCron(expression, `invalid step in "${part}"`);
+
+    let [from, to] = [field.min, field.max];
+    if (range !== "*") {
+      const [a, b] = range.split("-");
+      from = parseValue(a, field, expression);
+      to = b === undefined ? (stepRaw === undefined ? from : field.max) : parseValue(b, field, expression);
+    }
+    if (from > to) throw invalidCron(expression, `invalid range "${part}"`);
+    for (let v = from; v <= to; v += step) values.add(v);
+  }
+  return values;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function zonedParts(date: Date, timeZone: string): ZonedParts {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      weekday: "short",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  const parts = Object.fromEntries(formatter.formatToParts(date).map((p) => [p.type, p.value]));
+  return {
+    minute: Number(parts.minute),
+    hour: Number(parts.hour),
+    day: Number(parts.day),
+    month: Number(parts.month),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+  };
+}
+
+/** Throws INVALID_SCHEDULE for unknown time zones. */
+export function assertTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+  } catch {
+    throw new ConfigurationError("INVALID_SCHEDULE", `unknown time zone "${timeZone}"`, { timeZone });
+  }
+}
+
+/** Parses a 5-field cron expression (or 6 fields with leading seconds); throws INVALID_SCHEDULE. */
+export function parseCron(expression: string, timeZone: string): CronSchedule {
+  assertTimeZone(timeZone);
+  let raw = expression.trim().split(/\s+/);
+  if (raw.length === 6) raw = raw.slice(1);
+  if (raw.length !== 5) throw invalidCron(expression, "expected 5 fields (minute hour day month weekday)");
+
+  const [minutes, hours, days, months, weekdaysRaw] = raw.map((r, i) => parseField(r, FIELDS[i], expression));
+  // 7 = Sonntag wie 0
+  const weekdays = weekdaysRaw && new Set(Array.from(weekdaysRaw, (d) => d % 7));
+
+  const dayMatches = (p: ZonedParts) => {
+    const dom = !days || days.has(p.day);
+    const dow = !weekdays || weekdays.has(p.weekday);
+    // klassisches cron: sind Tag und Wochentag beide eingeschränkt, reicht einer von beiden
+    return days && weekdays ? dom || dow : dom && dow;
+  };
+  const hourMatches = (p: ZonedParts) =>
+    (!months || months.has(p.month)) && dayMatches(p) && (!hours || hours.has(p.hour));
+
+  return {
+    expression,
+    matches(date) {
+      const p = zonedParts(date, timeZone);
+      return hourMatches(p) && (!minutes || minutes.has(p.minute));
+    },
+    next(after) {
+      let t = Math.floor(after.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS;
+      const limit = after.getTime() + MAX_LOOKAHEAD_MS;
+      while (t <= limit) {
+        const p = zonedParts(new Date(t), timeZone);
+        // ganze Stunden überspringen, in denen Monat/Tag/Stunde nicht passen
+        if (!hourMatches(p)) t += (60 - p.minute) * MINUTE_MS;
+        else if (minutes && !minutes.has(p.minute)) t += MINUTE_MS;
+        else return new Date(t);
+      }
+      return null;
+    },
+  };
+}
+
+/** Parses "22:00-06:00"; empty input means no quiet hours. */
+export function parseQuietHours(text: string | undefined): QuietHours | null {
+  if (!text?.trim()) return null;
+  const m = text.trim().match(/^(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})$/);
+  const toMinutes = (h: string, min: string) => Number(h) * 60 + Number(min);
+  if (!m || Number(m[1]) > 23 || Number(m[3]) > 23 || Number(m[2]) > 59 || Number(m[4]) > 59) {
+    throw new ConfigurationError("INVALID_SCHEDULE", `quiet hours must look like "22:00-06:00" (got "${text}")`);
+  }
+  return { start: toMinutes(m[1], m[2]), end: toMinutes(m[3], m[4]), text: text.trim() };
+}
+
+export function isQuietTime(date: Date, quiet: QuietHours | null, timeZone: string): boolean {
+  if (!quiet) return false;
+  const p = zonedParts(date, timeZone);
+  const now = p.hour * 60 + p.minute;
+  return quiet.start <= quiet.end ? now >= quiet.start && now < quiet.end : now >= quiet.start || now < quiet.end;
+}
@@ -0,0 +1,156 @@
+// FILE: src/diagnostics.ts
+//
+// Diagnose-Bundle pro Run: bei Fehlern (Block, Navigations-Timeout, Job-Fehler, Session-Check)
+// Screenshot + DOM-Snapshot, optional ein Playwright-Trace. Alles landet unter
+// DIAGNOSTICS_DIR/<runId>/ und wird in der API-Antwort als `diagnostics` verlinkt.
+
+import fs from "fs";
+import path from "path";
+import { BrowserContext, Page } from "playwright";
+
+export type DiagnosticKind = "screenshot" | "html" | "trace";
+
+export type DiagnosticArtifact = {
+  kind: DiagnosticKind;
+  path: string;
+  url: string; // Seite zum Zeitpunkt des Fehlers ("" beim Trace)
+  step: string; // z. B. "session-check", "search-page-2", "job-4100000001"
+};
+
+// off = kein Trace, on-failure = nur behalten, wenn etwas schiefging, always = immer behalten
+export type TraceMode = "off" | "on-failure" | "always";
+
+export type Diagnostics = {
+  runId: string;
+  dir: string;
+  artifacts: DiagnosticArtifact[]; // wird laufend ergänzt (Run-Status zeigt den aktuellen Stand)
+  capture(page: Page, step: string): Promise<void>;
+  startTrace(context: BrowserContext): Promise<void>;
+  stopTrace(context: BrowserContext, failed: boolean): Promise<void>;
+};
+
+const DIAGNOSTICS_ENABLED = (process.env.DIAGNOSTICS ?? "true").toLowerCase() === "true";
+const DIAGNOSTICS_DIR = process.env.DIAGNOSTICS_DIR || path.join(process.env.OUTPUT_DIR || "output", "diagnostics");
+const TRACE_MODE = parseTraceMode(process.env.DIAGNOSTICS_TRACE);
+// Aufbewahrung: ältere Run-Verzeichnisse bzw. alles über dem Limit wird beim nächsten Run gelöscht
+const RETENTION_DAYS = Number(process.env.DIAGNOSTICS_RETENTION_DAYS || 7);
+const MAX_RUNS = Number(process.env.DIAGNOSTICS_MAX_RUNS || 50);
+const CAPTURE_TIMEOUT_MS = 10_000;
+// z. B. bei einer Serie von Job-Timeouts nicht hunderte Screenshots schreiben
+const MAX_CAPTURES_PER_RUN = 20;
+
+function parseTraceMode(value: string | undefined): TraceMode {
+  const v = (value ?? "").toLowerCase();
+  if (v === "always" || v === "true") return "always";
+  if (v === "on-failure") return "on-failure";
+  return "off";
+}
+
+function safeName(s: string) {
+  return s.replace(/[^a-zA-Z0-9_-]+/g, "-").slice(0, 80);
+}
+
+async function pruneDiagnostics() {
+  const entries = await fs.promises.readdir(DIAGNOSTICS_DIR, { withFileTypes: true }).catch(() => []);
+  const dirs = await Promise.all(
+    entries
+      .filter((e) => e.isDirectory())
+      .map(async (e) => {
+        const dir = path.join(DIAGNOSTICS_DIR, e.name);
+        const stat = await fs.promises.stat(dir).catch(() => null);
+        return { dir, mtimeMs: stat?.mtimeMs ?? 0 };
+      })
+  );
+
+  dirs.sort((a, b) => b.mtimeMs - a.mtimeMs); // neueste zuerst
+  const cutoff = Date.now() - RETENTION_DAYS * 24 * 60 * 60_000;
+  for (const [i, d] of dirs.entries()) {
+    if (i >= MAX_RUNS || d.mtimeMs < cutoff) {
+      await fs.promises.rm(d.dir, { recursive: true, force: true }).catch(() => {});
+    }
+  }
+}
+
+/**
+ * Creates the diagnostics recorder for one run. Capturing is best-effort: it never
+ * throws, so a broken page cannot turn a partial result into an error.
+ * The run directory is created lazily on the first artifact.
+ */
+export function createDiagnostics(runId: string): Diagnostics {
+  const dir = path.join(DIAGNOSTICS_DIR, safeName(runId));
+  const artifacts: DiagnosticArtifact[] = [];
+  let seq = 0;
+  let captures = 0;
+  let tracing = false;
+
+  if (DIAGNOSTICS_ENABLED) {
+    pruneDiagnostics().catch((e) => console.warn(`⚠️ Diagnostics cleanup failed: ${String(e?.message ?? e)}`));
+  }
+
+  const nextBase = (step: string) => path.join(dir, `${String(++seq).padStart(2, "0")}-${safeName(step)}`);
+
+  return {
+    runId,
+    dir,
+    artifacts,
+
+    async capture(page, step) {
+      if (!DIAGNOSTICS_ENABLED || page.isClosed()) return;
+      if (++captures > MAX_CAPTURES_PER_RUN) return;
+
+      try {
+        await fs.promises.mkdir(dir, { recursive: true });
+        const base = nextBase(step);
+        const url = page.url();
+
+        const screenshotPath = `${base}.png`;
+        const shot = await page
+          .screenshot({ path: screenshotPath, fullPage: true, timeout: CAPTURE_TIMEOUT_MS })
+          .then(() => true)
+          .catch(() => false);
+        if (shot) artifacts.push({ kind: "screenshot", path: screenshotPath, url, step });
+
+        const html = await page.content().catch(() => null);
+        if (html !== null) {
+          const htmlPath = `${base}.html`;
+          await fs.promises.writeFile(htmlPath, html, "utf8");
+          artifacts.push({ kind: "html", path: htmlPath, url, step });
+        }
+
+        console.warn(`🩺 Diagnostics captured (${step}): ${base}.*`);
+      } catch (e: any) {
+        console.warn(`⚠️ Diagnostics capture failed (${step}): ${String(e?.message ?? e)}`);
+      }
+    },
+
+    async startTrace(context) {
+      if (!DIAGNOSTICS_ENABLED || TRACE_MODE === "off") return;
+      tracing = await context.tracing
+        .start({ screenshots: true, snapshots: true })
+        .then(() => true)
+        .catch((e) => {
+          console.warn(`⚠️ Could not start trace: ${String(e?.message ?? e)}`);
+          return false;
+        });
+    },
+
+    async stopTrace(context, failed) {
+      if (!tracing) return;
+      tracing = false;
+
+      const keep = TRACE_MODE === "always" || failed || artifacts.length > 0;
+      if (!keep) {
+        await context.tracing.stop().catch(() => {});
+        return;
+      }
+
+      await fs.promises.mkdir(dir, { recursive: true }).catch(() => {});
+      const tracePath = `${nextBase("trace")}.zip`;
+      const saved = await context.tracing
+        .stop({ path: tracePath })
+        .then(() => true)
+        .catch(() => false);
+      if (saved) artifacts.push({ kind: "trace", path: tracePath, url: "", step: "run" });
+    },
+  };
+}
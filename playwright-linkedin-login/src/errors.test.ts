@@ -0,0 +1,44 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { AuthRequiredError, errorResponse, NavigationTimeoutError } from "./errors";
+import { searchProfileFromInput } from "./search-profile";
+
+describe("errorResponse", () => {
+  it("maps typed errors to their status and envelope", () => {
+    const { status, body } = errorResponse(new AuthRequiredError("LinkedIn login form detected."));
+    assert.equal(status, 401);
+    assert.equal(body.ok, false);
+    assert.equal(body.error, "AUTH_REQUIRED");
+    assert.equal(body.message, "AUTH_REQUIRED: LinkedIn login form detected.");
+    assert.equal(body.retryable, false);
+    assert.match(String(body.details?.hint), /npm run login/);
+  });
+
+  it("marks navigation timeouts as retryable 504", () => {
+    const { status, body } = errorResponse(new NavigationTimeoutError("search", "https://example.test/", 15_000));
+    assert.equal(status, 504);
+    assert.equal(body.error, "NAV_TIMEOUT");
+    assert.equal(body.retryable, true);
+    assert.deepEqual(body.details, { step: "search", url: "https://example.test/", timeoutMs: 15_000 });
+  });
+
+  it("keeps the field and position of invalid match expressions", () => {
+    let thrown: unknown;
+    try {
+      searchProfileFromInput({ match: "title:(recruit" });
+    } catch (e) {
+      thrown = e;
+    }
+    const { status, body } = errorResponse(thrown);
+    assert.equal(status, 400);
+    assert.equal(body.error, "INVALID_PROFILE");
+    assert.equal(body.details?.field, "match");
+    assert.equal(typeof body.details?.position, "number");
+  });
+
+  it("treats unknown errors as a non-retryable 500", () => {
+    const { status, body } = errorResponse(new Error("boom"));
+    assert.equal(status, 500);
+    assert.deepEqual(body, { ok: false, error: "INTERNAL_ERROR", message: "INTERNAL_ERROR: boom", retryable: false });
+  });
+});
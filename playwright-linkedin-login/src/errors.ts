@@ -0,0 +1,239 @@
+// FILE: src/errors.ts
+//
+// Fehlerklassen mit Code, HTTP-Status, `retryable` und Details + ein Mapper auf das
+// JSON-Fehlerformat, das Express und Azure Functions gleichermaßen zurückgeben:
+//
+//   { "ok": false, "error": "AUTH_REQUIRED", "message": "AUTH_REQUIRED: ...", "retryable": false, "details": {...} }
+//
+// | Code                       | Status | retryable |
+// |----------------------------|--------|-----------|
+// | INVALID_PROFILE / INVALID_*| 400    | nein      |
+// | VERIFICATION_FAILED        | 400    | nein      |
+// | AUTH_REQUIRED              | 401    | nein      |
+// | SESSION_MISSING            | 401    | nein      |
+// | LOGIN_FAILED               | 401    | nein      |
+// | RUN_NOT_FOUND              | 404    | nein      |
+// | SESSION_NOT_FOUND          | 404    | nein      |
+// | LOGIN_NOT_FOUND            | 404    | nein      |
+// | SEARCH_NOT_FOUND           | 404    | nein      |
+// | RUN_CANCELLED              | 409    | nein      |
+// | LOGIN_CONFLICT             | 409    | nein      |
+// | SEARCH_CONFLICT            | 409    | nein      |
+// | BLOCKED / CAPTCHA_REQUIRED | 423    | nein      |
+// | RATE_LIMITED               | 429    | ja        |
+// | INTERNAL_ERROR / config    | 500    | nein      |
+// | UNKNOWN_PAGE_STATE         | 502    | ja        |
+// | POOL_CLOSED                | 503    | ja        |
+// | NO_HEALTHY_SESSION         | 503    | nein      |
+// | NAV_TIMEOUT                | 504    | ja        |
+
+export type ErrorDetails = Record<string, unknown>;
+
+export type ErrorEnvelope = {
+  ok: false;
+  error: string; // Code, z. B. "AUTH_REQUIRED"
+  message: string;
+  retryable: boolean;
+  details?: ErrorDetails;
+};
+
+type AppErrorOptions = {
+  retryable?: boolean;
+  details?: ErrorDetails;
+  cause?: unknown;
+};
+
+export class AppError extends Error {
+  readonly code: string;
+  readonly status: number;
+  readonly retryable: boolean;
+  readonly details: ErrorDetails;
+
+  constructor(code: string, status: number, message: string, options: AppErrorOptions = {}) {
+    // Code bleibt Präfix der Message, damit Logs und Run-Status (error: string) lesbar bleiben
+    super(`${code}: ${message}`, options.cause === undefined ? undefined : { cause: options.cause });
+    this.name = new.target.name;
+    this.code = code;
+    this.status = status;
+    this.retryable = options.retryable ?? false;
+    this.details = options.details ?? {};
+  }
+}
+
+export class InvalidInputError extends AppError {
+  constructor(code: string, message: string, details?: ErrorDetails) {
+    super(code, 400, message, { details });
+  }
+}
+
+export class InvalidProfileError extends InvalidInputError {
+  constructor(message: string, details?: ErrorDetails) {
+    super("INVALID_PROFILE", message, details);
+  }
+}
+
+export class InvalidMatchExpressionError extends InvalidInputError {
+  constructor(message: string, position: number) {
+    super("INVALID_MATCH_EXPRESSION", `${message} at position ${position}`, { position });
+  }
+}
+
+export class AuthRequiredError extends AppError {
+  constructor(message: string, details?: ErrorDetails) {
+    super("AUTH_REQUIRED", 401, message, {
+      details: { hint: "Session expired or invalid. Re-run npm run login to refresh session.", ...details },
+    });
+  }
+}
+
+export class SessionMissingError extends AppError {
+  constructor(sessionPath: string) {
+    super("SESSION_MISSING", 401, `Session file not found at ${sessionPath}. Run npm run login first.`, {
+      details: { sessionPath },
+    });
+  }
+}
+
+/** Wrong PIN on the verification page; the login stays in awaiting_verification while attempts are left. */
+export class VerificationFailedError extends AppError {
+  constructor(attemptsLeft: number) {
+    super("VERIFICATION_FAILED", 400, "LinkedIn did not accept the verification code.", {
+      details: { attemptsLeft },
+    });
+  }
+}
+
+export class LoginFailedError extends AppError {
+  constructor(message: string, details?: ErrorDetails) {
+    super("LOGIN_FAILED", 401, message, { details });
+  }
+}
+
+export class LoginNotFoundError extends AppError {
+  constructor(session: string) {
+    super("LOGIN_NOT_FOUND", 404, `No login for session ${session}. Start one with POST .../login.`, {
+      details: { session },
+    });
+  }
+}
+
+/** Login is in the wrong state for the request (e.g. verify without a pending PIN, second start while running). */
+export class LoginConflictError extends AppError {
+  constructor(session: string, state: string, message: string) {
+    super("LOGIN_CONFLICT", 409, message, { details: { session, state } });
+  }
+}
+
+export class SessionNotFoundError extends AppError {
+  constructor(name: string) {
+    super("SESSION_NOT_FOUND", 404, `Unknown session ${name}. Run SESSION_NAME=${name} npm run login first.`, {
+      details: { session: name },
+    });
+  }
+}
+
+export class RunNotFoundError extends AppError {
+  constructor(runId: string) {
+    super("RUN_NOT_FOUND", 404, `Unknown run ${runId}`, { details: { runId } });
+  }
+}
+
+export class SearchNotFoundError extends AppError {
+  constructor(id: string) {
+    super("SEARCH_NOT_FOUND", 404, `Unknown saved search ${id}`, { details: { searchId: id } });
+  }
+}
+
+export class SearchConflictError extends AppError {
+  constructor(id: string) {
+    super("SEARCH_CONFLICT", 409, `Saved search ${id} already exists. Use PUT to replace it.`, {
+      details: { searchId: id },
+    });
+  }
+}
+
+export class RunCancelledError extends AppError {
+  constructor() {
+    super("RUN_CANCELLED", 409, "job fetch was cancelled.");
+  }
+}
+
+/** Verification wall / anti-bot page instead of job results. Needs a human (HEADLESS=false, new login). */
+export class BlockedError extends AppError {
+  constructor(message: string, details?: ErrorDetails) {
+    super("BLOCKED", 423, message, { details });
+  }
+}
+
+export class CaptchaRequiredError extends AppError {
+  constructor(message: string, details?: ErrorDetails) {
+    super("CAPTCHA_REQUIRED", 423, message, { details });
+  }
+}
+
+export class RateLimitedError extends AppError {
+  constructor(message: string, details?: ErrorDetails) {
+    super("RATE_LIMITED", 429, message, { retryable: true, details });
+  }
+}
+
+/** LinkedIn answered with a page we could not classify (neither results nor a known wall). */
+export class UnknownPageStateError extends AppError {
+  constructor(message: string, details?: ErrorDetails) {
+    super("UNKNOWN_PAGE_STATE", 502, message, { retryable: true, details });
+  }
+}
+
+export class PoolClosedError extends AppError {
+  constructor() {
+    super("POOL_CLOSED", 503, "browser pool is shutting down.", { retryable: true });
+  }
+}
+
+/** session "auto": every session failed its last check, someone has to log in again. */
+export class NoHealthySessionError extends AppError {
+  constructor(sessions: string[]) {
+    super("NO_HEALTHY_SESSION", 503, "no healthy session left to rotate to. Re-run npm run login.", {
+      details: { sessions },
+    });
+  }
+}
+
+export class NavigationTimeoutError extends AppError {
+  constructor(step: string, url: string, timeoutMs: number) {
+    super("NAV_TIMEOUT", 504, `${step}: ${timeoutMs}ms (${url})`, {
+      retryable: true,
+      details: { step, url, timeoutMs },
+    });
+  }
+}
+
+export class ConfigurationError extends AppError {
+  constructor(code: string, message: string, details?: ErrorDetails) {
+    super(code, 500, message, { details });
+  }
+}
+
+/** Wraps anything thrown into an AppError; Playwright timeouts count as retryable 504. */
+export function toAppError(e: unknown): AppError {
+  if (e instanceof AppError) return e;
+
+  const message = String((e as any)?.message ?? e);
+  if ((e as any)?.name === "TimeoutError") {
+    return new AppError("NAV_TIMEOUT", 504, message, { retryable: true, cause: e });
+  }
+  return new AppError("INTERNAL_ERROR", 500, message, { cause: e });
+}
+
+/** Status code + JSON envelope for any error; used by server.ts and the Azure Functions. */
+export function errorResponse(e: unknown): { status: number; body: ErrorEnvelope } {
+  const err = toAppError(e);
+  const body: ErrorEnvelope = {
+    ok: false,
+    error: err.code,
+    message: err.message,
+    retryable: err.retryable,
+  };
+  if (Object.keys(err.details).length) body.details = err.details;
+  return { status: err.status, body };
+}
@@ -0,0 +1,84 @@
+import "./testing/env";
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { AppError } from "./errors";
+import { CSV_COLUMNS, exporterFromAccept, exporterFromInput, getExporter } from "./exporters";
+import { ApiJob } from "./jobs-ai-hr";
+
+function job(overrides: Partial<ApiJob> = {}): ApiJob {
+  return {
+    jobId: "4100000001",
+    jobTitle: "AI Recruiter",
+    description: "Wir suchen:\n- Erfahrung mit \"AI\" Tools",
+    link: "https://www.linkedin.com/jobs/view/4100000001/",
+    contact: "Jane Doe",
+    contacts: [],
+    company: "Acme GmbH",
+    postingDate: "2026-10-01",
+    postingDateSource: "exact",
+    reposted: false,
+    location: "München, Bayern",
+    workplaceType: "hybrid",
+    employmentType: "full-time",
+    seniorityLevel: "mid-senior",
+    applicantCount: 87,
+    easyApply: true,
+    salary: null,
+    matches: [],
+    score: 0,
+    scoreBreakdown: [],
+    resultPage: 1,
+    status: "new",
+    ...overrides,
+  };
+}
+
+const context = { profile: "ai-hr", generatedAt: "2026-10-19T08:00:00.000Z" };
+
+describe("exporters", () => {
+  it("CSV: fixed header order, RFC 4180 quoting, formulas neutralized", () => {
+    const csv = getExporter("csv").render([job(), job({ jobId: "2", jobTitle: "=HYPERLINK(\"x\")" })], context);
+    const lines = csv.replace(/^\uFEFF/, "").split("\r\n");
+
+    assert.ok(csv.startsWith("\uFEFF"));
+    assert.equal(lines[0], CSV_COLUMNS.map(([name]) => name).join(","));
+    assert.match(lines[1], /^4100000001,AI Recruiter,Acme GmbH,"München, Bayern",hybrid,/);
+    assert.ok(csv.includes(',"Wir suchen:\n- Erfahrung mit ""AI"" Tools"'));
+    assert.ok(csv.includes(`,"'=HYPERLINK(""x"")",`));
+  });
+
+  it("NDJSON: one parseable job per line", () => {
+    const lines = getExporter("ndjson").render([job(), job({ jobId: "2" })], context).trimEnd().split("\n");
+    assert.deepEqual(lines.map((l) => JSON.parse(l).jobId), ["4100000001", "2"]);
+  });
+
+  it("Markdown: escapes pipes and line breaks in cells", () => {
+    const md = getExporter("md").render([job({ company: "A|B" })], context);
+    assert.match(md, /^# LinkedIn Jobs – ai-hr/);
+    assert.match(md, /\| \[AI Recruiter\]\(https:\/\/www\.linkedin\.com\/jobs\/view\/4100000001\/\) \| A\\\|B \|/);
+    assert.match(md, /\*\*new\*\* \|\n$/);
+  });
+
+  it("HTML: self-contained report grouped by company, content escaped", () => {
+    const html = getExporter("html").render(
+      [job({ company: "Zeta" }), job({ jobId: "2", company: "Acme <script>" }), job({ jobId: "3", company: "Zeta" })],
+      context
+    );
+    assert.ok(html.indexOf("<h2>Acme &#60;script&#62; (1)</h2>") < html.indexOf("<h2>Zeta (2)</h2>"));
+    assert.doesNotMatch(html, /<script>|<link |src="http/);
+    assert.match(html, /3 jobs \(3 new\) at 2 companies/);
+  });
+
+  it("selects the format from format= first, then the Accept header", () => {
+    assert.equal(exporterFromInput({ format: "CSV" }, "text/html").format, "csv");
+    assert.equal(exporterFromInput({}, "text/markdown;q=0.5, text/csv").format, "csv");
+    assert.equal(exporterFromAccept("text/html,application/xhtml+xml,*/*;q=0.8").format, "html");
+    assert.equal(exporterFromAccept("*/*").format, "json");
+    assert.equal(exporterFromAccept("image/png").format, "json");
+    assert.equal(exporterFromAccept(undefined).format, "json");
+    assert.throws(
+      () => exporterFromInput({ format: "xlsx" }),
+      (e) => e instanceof AppError && e.code === "INVALID_FORMAT" && e.status === 400
+    );
+  });
+});
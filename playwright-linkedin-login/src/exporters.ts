@@ -0,0 +1,299 @@
+// FILE: src/exporters.ts
+//
+// Exportformate für Job-Listen. Jedes Format ist ein Exporter im Registry (registerExporter), gewählt über
+// `format=` oder den Accept-Header (/api/v1/jobs, runJobsSearch) bzw. `--format` im lokalen Skript:
+//   json      = Jobs als JSON-Array (wie bisher die .json-Datei)
+//   txt       = Klartext-Dump (wie bisher die .txt-Datei)
+//   csv       = feste Spaltenreihenfolge (CSV_COLUMNS), RFC 4180 Quoting, UTF-8 mit BOM für Excel
+//   ndjson    = ein Job pro Zeile
+//   markdown  = Tabelle
+//   html      = eigenständiger Report ohne externe Ressourcen, nach Firma gruppiert
+
+import { ApiJob } from "./jobs-ai-hr";
+import { formatSalary } from "./job-metadata";
+import { InvalidInputError } from "./errors";
+
+export type ExportContext = {
+  profile: string; // Name des Suchprofils, für Überschriften und Dateinamen
+  generatedAt: string; // ISO timestamp
+};
+
+export type Exporter = {
+  format: string;
+  contentType: string; // inkl. charset
+  extension: string;
+  // Medientypen im Accept-Header, die dieses Format auswählen
+  mediaTypes: string[];
+  render(jobs: ApiJob[], context: ExportContext): string;
+};
+
+const DEFAULT_FORMAT = "json";
+const FORMAT_ALIASES: Record<string, string> = { md: "markdown", jsonl: "ndjson", text: "txt" };
+
+const exporters = new Map<string, Exporter>();
+
+/** Adds (or replaces) the exporter for `exporter.format`. */
+export function registerExporter(exporter: Exporter) {
+  exporters.set(exporter.format, exporter);
+}
+
+/** Registered format names, in registration order. */
+export function exportFormats(): string[] {
+  return Array.from(exporters.keys());
+}
+
+/** Throws INVALID_FORMAT for unknown formats; accepts the aliases md, jsonl and text. */
+export function getExporter(format: string): Exporter {
+  const name = format.trim().toLowerCase();
+  const exporter = exporters.get(FORMAT_ALIASES[name] ?? name);
+  if (!exporter) {
+    const message = `format must be one of ${exportFormats().join(", ")} (got "${format}")`;
+    throw new InvalidInputError("INVALID_FORMAT", message, { field: "format" });
+  }
+  return exporter;
+}
+
+/**
+ * Picks the exporter for the best media type in an Accept header (by q, then order).
+ * A wildcard, a missing header or only unknown types give JSON.
+ */
+export function exporterFromAccept(accept: string | undefined | null): Exporter {
+  const ranges = (accept ?? "")
+    .split(",")
+    .map((part, index) => {
+      const [type, ...params] = part.split(";").map((s) => s.trim().toLowerCase());
+      const q = Number(params.find((p) => p.startsWith("q="))?.slice(2) ?? 1);
+      return { type, q: Number.isNaN(q) ? 0 : q, index };
+    })
+    .filter((r) => r.type && r.q > 0)
+    .sort((a, b) => b.q - a.q || a.index - b.index);
+
+  for (const { type } of ranges) {
+    if (type === "*/*") break;
+    const match = Array.from(exporters.values()).find((e) => e.mediaTypes.includes(type));
+    if (match) return match;
+  }
+  return getExporter(DEFAULT_FORMAT);
+}
+
+/** `input.format` wins over the Accept header. */
+export function exporterFromInput(input: Record<string, unknown> | undefined | null, accept?: string | null): Exporter {
+  const raw = input?.format;
+  if (raw === undefined || raw === null || raw === "") return exporterFromAccept(accept);
+  if (typeof raw !== "string") {
+    throw new InvalidInputError("INVALID_FORMAT", "format must be a string", { field: "format" });
+  }
+  return getExporter(raw);
+}
+
+/** File name for an export, e.g. `linkedin-jobs-ai-hr-2026-10-19.csv`. */
+export function exportFileName(exporter: Exporter, context: ExportContext): string {
+  const profile = context.profile.replace(/[^a-zA-Z0-9_-]+/g, "-");
+  return `linkedin-jobs-${profile}-${context.generatedAt.slice(0, 10)}.${exporter.extension}`;
+}
+
+/**
+ * Helpers
+ */
+function postingDateText(job: ApiJob) {
+  return `${job.postingDate || ""} (${job.postingDateSource}${job.reposted ? ", reposted" : ""})`;
+}
+
+function asTxt(jobs: ApiJob[]): string {
+  return jobs
+    .map((job, index) => {
+      return [
+        `#${index + 1}`,
+        `Title: ${job.jobTitle}`,
+        `Job ID: ${job.jobId}`,
+        `Company: ${job.company}`,
+        `Location: ${job.location}`,
+        `Workplace: ${job.workplaceType}`,
+        `Employment: ${job.employmentType}`,
+        `Seniority: ${job.seniorityLevel}`,
+        `Applicants: ${job.applicantCount ?? ""}`,
+        `Easy Apply: ${job.easyApply ? "yes" : "no"}`,
+        `Salary: ${formatSalary(job.salary)}`,
+        `Status: ${job.status ?? ""}`,
+        `Score: ${job.score}`,
+        `Link: ${job.link}`,
+        `Contact: ${job.contact}`,
+        `Posting Date: ${postingDateText(job)}`,
+        `Description: ${job.description}`,
+      ].join("\n");
+    })
+    .join("\n\n---\n\n");
+}
+
+// Spaltenreihenfolge ist Teil des Formats: Tabellen der Recruiter verweisen auf die Spalten
+export const CSV_COLUMNS: Array<[header: string, value: (job: ApiJob) => string | number | boolean | null]> = [
+  ["jobId", (j) => j.jobId],
+  ["title", (j) => j.jobTitle],
+  ["company", (j) => j.company],
+  ["location", (j) => j.location],
+  ["workplaceType", (j) => j.workplaceType],
+  ["employmentType", (j) => j.employmentType],
+  ["seniorityLevel", (j) => j.seniorityLevel],
+  ["postingDate", (j) => j.postingDate],
+  ["postingDateSource", (j) => j.postingDateSource],
+  ["reposted", (j) => j.reposted],
+  ["applicantCount", (j) => j.applicantCount],
+  ["easyApply", (j) => j.easyApply],
+  ["salary", (j) => formatSalary(j.salary)],
+  ["status", (j) => j.status ?? ""],
+  ["contact", (j) => j.contact],
+  ["link", (j) => j.link],
+  ["description", (j) => j.description],
+  // neue Spalten nur hinten anhängen
+  ["score", (j) => j.score],
+];
+
+function csvField(value: string | number | boolean | null): string {
+  let text = value === null ? "" : String(value);
+  // Formeln ("=HYPERLINK(...)") würde die Tabellenkalkulation ausführen; "-" nicht, das sind Aufzählungen
+  if (/^[=+@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function asCsv(jobs: ApiJob[]): string {
+  const header = CSV_COLUMNS.map(([name]) => name);
+  const rows = [header, ...jobs.map((job) => CSV_COLUMNS.map(([, value]) => value(job)))];
+  // BOM: sonst zeigt Excel Umlaute (München) falsch an
+  return "\uFEFF" + rows.map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+function markdownCell(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\s*\r?\n\s*/g, " ").trim();
+}
+
+function asMarkdown(jobs: ApiJob[], context: ExportContext): string {
+  const lines = [
+    `# LinkedIn Jobs – ${markdownCell(context.profile)}`,
+    "",
+    `${jobs.length} jobs, generated ${context.generatedAt}`,
+    "",
+    "| Title | Company | Location | Workplace | Posted | Salary | Score | Status |",
+    "|---|---|---|---|---|---|---|---|",
+  ];
+  for (const job of jobs) {
+    const title = `[${markdownCell(job.jobTitle).replace(/[[\]]/g, "\\$&")}](${job.link})`;
+    const salary = formatSalary(job.salary);
+    const cells = [job.company, job.location, job.workplaceType, job.postingDate, salary, String(job.score)];
+    const status = job.status === "new" ? "**new**" : job.status ?? "";
+    lines.push(`| ${[title, ...cells.map(markdownCell), status].join(" | ")} |`);
+  }
+  return lines.join("\n") + "\n";
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+const HTML_STYLE = `
+  body { font-family: system-ui, sans-serif; margin: 2rem auto; max-width: 960px; color: #1d2226; }
+  h1 { font-size: 1.5rem; } h2 { font-size: 1.15rem; margin-top: 2rem; border-bottom: 1px solid #ddd; }
+  .job { margin: 0.75rem 0 1rem; } .job a { font-weight: 600; color: #0a66c2; text-decoration: none; }
+  .facts { color: #555; font-size: 0.9rem; } .new { background: #e6f4ea; color: #137333; padding: 0 0.4rem;
+  border-radius: 0.5rem; font-size: 0.8rem; } details { font-size: 0.9rem; white-space: pre-wrap; }`;
+
+function htmlJob(job: ApiJob): string {
+  const facts = [
+    job.location,
+    job.workplaceType,
+    job.employmentType,
+    job.seniorityLevel,
+    job.postingDate && `posted ${job.postingDate}${job.reposted ? " (reposted)" : ""}`,
+    job.applicantCount !== null && `${job.applicantCount} applicants`,
+    formatSalary(job.salary),
+    job.easyApply && "Easy Apply",
+    `score ${job.score}`,
+  ].filter((f): f is string => Boolean(f));
+
+  return [
+    `<div class="job">`,
+    `  <a href="${escapeHtml(job.link)}">${escapeHtml(job.jobTitle)}</a>`,
+    job.status === "new" ? ` <span class="new">new</span>` : "",
+    `  <div class="facts">${escapeHtml(facts.join(" · "))}</div>`,
+    job.contact ? `  <div class="facts">Contact: ${escapeHtml(job.contact)}</div>` : "",
+    job.description ? `  <details><summary>Description</summary>${escapeHtml(job.description)}</details>` : "",
+    `</div>`,
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+function asHtml(jobs: ApiJob[], context: ExportContext): string {
+  const byCompany = new Map<string, ApiJob[]>();
+  for (const job of jobs) {
+    const company = job.company || "Unknown company";
+    byCompany.set(company, [...(byCompany.get(company) ?? []), job]);
+  }
+  const companies = Array.from(byCompany.keys()).sort((a, b) => a.localeCompare(b));
+
+  const sections = companies.map((company) => {
+    const companyJobs = byCompany
+      .get(company)!
+      .sort((a, b) => b.postingDate.localeCompare(a.postingDate) || a.jobTitle.localeCompare(b.jobTitle));
+    return `<h2>${escapeHtml(company)} (${companyJobs.length})</h2>\n${companyJobs.map(htmlJob).join("\n")}`;
+  });
+
+  const title = `LinkedIn Jobs – ${escapeHtml(context.profile)}`;
+  const newCount = jobs.filter((j) => j.status === "new").length;
+  return [
+    "<!DOCTYPE html>",
+    `<html lang="en"><head><meta charset="utf-8"><title>${title}</title><style>${HTML_STYLE}</style></head><body>`,
+    `<h1>${title}</h1>`,
+    `<p>${jobs.length} jobs (${newCount} new) at ${companies.length} companies, generated ${context.generatedAt}</p>`,
+    ...sections,
+    "</body></html>",
+    "",
+  ].join("\n");
+}
+
+registerExporter({
+  format: "json",
+  contentType: "application/json; charset=utf-8",
+  extension: "json",
+  mediaTypes: ["application/json"],
+  render: (jobs) => JSON.stringify(jobs, null, 2),
+});
+
+registerExporter({
+  format: "txt",
+  contentType: "text/plain; charset=utf-8",
+  extension: "txt",
+  mediaTypes: ["text/plain"],
+  render: asTxt,
+});
+
+registerExporter({
+  format: "csv",
+  contentType: "text/csv; charset=utf-8",
+  extension: "csv",
+  mediaTypes: ["text/csv"],
+  render: asCsv,
+});
+
+registerExporter({
+  format: "ndjson",
+  contentType: "application/x-ndjson; charset=utf-8",
+  extension: "ndjson",
+  mediaTypes: ["application/x-ndjson", "application/ndjson", "application/jsonl"],
+  render: (jobs) => jobs.map((job) => JSON.stringify(job) + "\n").join(""),
+});
+
+registerExporter({
+  format: "markdown",
+  contentType: "text/markdown; charset=utf-8",
+  extension: "md",
+  mediaTypes: ["text/markdown"],
+  render: asMarkdown,
+});
+
+registerExporter({
+  format: "html",
+  contentType: "text/html; charset=utf-8",
+  extension: "html",
+  mediaTypes: ["text/html"],
+  render: asHtml,
+});
@@ -0,0 +1,110 @@
+import "../testing/env";
+import assert from "node:assert/strict";
+import fs from "fs";
+import { after, before, describe, it } from "node:test";
+import { HttpRequest, InvocationContext } from "@azure/functions";
+import { runJobsAiHr } from "./runJobsAiHr";
+import { runJobsSearch } from "./runJobsSearch";
+import { FixtureServer, startFixtureServer } from "../testing/fixture-server";
+import { createSavedSearch } from "../saved-searches";
+
+// Nur die Teile von HttpRequest/InvocationContext, die die Handler nutzen (siehe src/types/azure-functions.d.ts)
+function request(
+  method: "GET" | "POST",
+  query: Record<string, string>,
+  body?: unknown,
+  headers: Record<string, string> = {}
+): HttpRequest {
+  const req = {
+    method,
+    url: "http://localhost/api/test",
+    query: new URLSearchParams(query),
+    headers: new Headers(headers),
+    json: async () => body,
+  };
+  return req as unknown as HttpRequest;
+}
+
+const context = { invocationId: "test-invocation", log: () => {} } as unknown as InvocationContext;
+
+describe("Azure Functions handlers against the fixture server", () => {
+  let fixtures: FixtureServer;
+
+  before(async () => {
+    fixtures = await startFixtureServer();
+    process.env.LINKEDIN_BASE_URL = fixtures.baseUrl;
+  });
+
+  after(async () => {
+    await fixtures?.close();
+  });
+
+  it("runJobsAiHr returns the matched jobs", async () => {
+    fixtures.scenario = "default";
+    const res = await runJobsAiHr(request("GET", { maxPages: "1" }), context);
+    const body = res.jsonBody as any;
+    assert.equal(res.status, 200);
+    assert.equal(body.ok, true);
+    assert.equal(body.completion, "complete");
+    assert.equal(body.count, body.jobs.length);
+    assert.ok(body.count > 0);
+  });
+
+  it("runJobsSearch reads the profile from the POST body and writes the output files", async () => {
+    fixtures.scenario = "default";
+    const res = await runJobsSearch(
+      request("POST", {}, { name: "fixture", maxPages: 1, maxResults: 3 }),
+      context
+    );
+    const body = res.jsonBody as any;
+    assert.equal(res.status, 200);
+    assert.equal(body.profile, "fixture");
+    assert.equal(body.count, 3);
+    assert.ok(fs.existsSync(body.txtPath));
+    assert.ok(fs.existsSync(body.jsonPath));
+  });
+
+  it("runJobsSearch returns CSV when the Accept header asks for it", async () => {
+    fixtures.scenario = "default";
+    const req = request("GET", { maxPages: "1", maxResults: "2" }, undefined, { accept: "text/csv" });
+    const res = await runJobsSearch(req, context);
+    assert.equal(res.status, 200);
+    const headers = new Headers(res.headers);
+    assert.match(headers.get("content-type") ?? "", /^text\/csv/);
+    assert.equal(headers.get("x-job-count"), "2");
+    assert.equal(String(res.body).trim().split("\r\n").length, 3);
+  });
+
+  it("maps a checkpoint on the feed to 401", async () => {
+    fixtures.scenario = "checkpoint";
+    const res = await runJobsAiHr(request("GET", {}), context);
+    const body = res.jsonBody as any;
+    assert.equal(res.status, 401);
+    assert.equal(body.ok, false);
+    assert.equal(body.error, "AUTH_REQUIRED");
+    assert.equal(body.retryable, false);
+    assert.ok(body.diagnostics.some((a: any) => a.kind === "screenshot" && a.step === "session-check"));
+  });
+
+  it("runJobsAiHr runs a saved search by searchId", async () => {
+    fixtures.scenario = "default";
+    await createSavedSearch({ id: "functions-test", name: "saved", maxPages: 1, maxResults: 2 });
+    const res = await runJobsAiHr(request("GET", { searchId: "functions-test" }), context);
+    const body = res.jsonBody as any;
+    assert.equal(res.status, 200);
+    assert.equal(body.searchId, "functions-test");
+    assert.equal(body.profile, "saved");
+    assert.equal(body.count, 2);
+  });
+
+  it("answers 404 for an unknown searchId", async () => {
+    const res = await runJobsSearch(request("GET", { searchId: "missing" }), context);
+    assert.equal(res.status, 404);
+    assert.equal((res.jsonBody as any).error, "SEARCH_NOT_FOUND");
+  });
+
+  it("rejects an invalid profile with 400", async () => {
+    const res = await runJobsSearch(request("GET", { datePosted: "yesterday" }), context);
+    assert.equal(res.status, 400);
+  });
+});
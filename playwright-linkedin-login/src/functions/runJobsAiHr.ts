@@ -1,33 +1,61 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
 import { runWithLinkedInSession } from "../reuse-session";
+import { createDiagnostics } from "../diagnostics";
+import { errorResponse } from "../errors";
+import { pacingFromInput } from "../pacing";
+import { readAzureRequestInput } from "../http-input";
+import { resolveSearch } from "../saved-searches";
 import { fetchLinkedInJobsAiHr } from "../jobs-ai-hr";
+import { recordJobs } from "../job-store";
+import { createRunNotifier } from "../webhooks";
 
-export async function runJobsAiHr(_request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+export async function runJobsAiHr(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
   const startedAt = Date.now();
+  const diagnostics = createDiagnostics(context.invocationId);
   context.log("runJobsAiHr trigger started");
 
   try {
-    const jobs = await runWithLinkedInSession((page) => fetchLinkedInJobsAiHr(page));
+    const input = await readAzureRequestInput(request);
+    // searchId = gespeicherte Suche (src/saved-searches.ts), sonst die Profil-Parameter
+    const { profile, session, searchId } = await resolveSearch(input);
+    const pacing = pacingFromInput(input);
+    const notifier = createRunNotifier(profile.name);
+    const onJobMatched = notifier.onJobMatched;
+    const result = await runWithLinkedInSession(
+      async (page, used) => ({
+        ...(await fetchLinkedInJobsAiHr(page, profile, { diagnostics, pacing, sessionKey: used.name, onJobMatched })),
+        session: used.name,
+      }),
+      { diagnostics, session }
+    );
+    const { jobs: fetched, completion, reason, pageState, pacing: pacingStats } = result;
+    const jobs = await recordJobs(fetched, profile.name);
+    // abwarten: nach der Antwort kann die Function-Instanz eingefroren werden
+    await notifier.finish({ jobs, completion, reason, session: result.session });
 
     return {
       status: 200,
       jsonBody: {
         ok: true,
+        profile: profile.name,
+        searchId,
+        session: result.session,
+        completion,
+        reason,
+        pageState,
         count: jobs.length,
+        newCount: jobs.filter((j) => j.status === "new").length,
         tookMs: Date.now() - startedAt,
+        pacing: pacingStats,
+        diagnostics: diagnostics.artifacts,
         jobs,
       },
     };
-  } catch (error: any) {
-    const message = String(error?.message ?? error);
-    const status = message.includes("AUTH_REQUIRED") || message.includes("SESSION_MISSING") ? 401 : 500;
-
+  } catch (error: unknown) {
+    const { status, body } = errorResponse(error);
     return {
       status,
-      jsonBody: {
-        ok: false,
-        error: message,
-      },
+      jsonBody: { ...body, diagnostics: diagnostics.artifacts },
     };
   }
 }
@@ -1,34 +1,84 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
 import { runWithLinkedInSession } from "../reuse-session";
+import { createDiagnostics } from "../diagnostics";
+import { errorResponse } from "../errors";
+import { pacingFromInput } from "../pacing";
+import { readAzureRequestInput } from "../http-input";
+import { resolveSearch } from "../saved-searches";
 import { searchJobsAndWriteTxt } from "../jobs-search";
+import { exportFileName, exporterFromInput } from "../exporters";
+import { createRunNotifier } from "../webhooks";
 
-export async function runJobsSearch(_request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+export async function runJobsSearch(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
   const startedAt = Date.now();
+  const diagnostics = createDiagnostics(context.invocationId);
   context.log("runJobsSearch trigger started");
 
   try {
-    const result = await runWithLinkedInSession((page) => searchJobsAndWriteTxt(page));
+    const input = await readAzureRequestInput(request);
+    // searchId = gespeicherte Suche (src/saved-searches.ts), sonst die Profil-Parameter
+    const { profile, session, searchId } = await resolveSearch(input);
+    const pacing = pacingFromInput(input);
+    // format= bzw. Accept: die Datei wird zusätzlich geschrieben und statt der Zusammenfassung zurückgegeben
+    const exporter = exporterFromInput(input, request.headers.get("accept"));
+    const formats = [exporter.format];
+    const notifier = createRunNotifier(profile.name);
+    const onJobMatched = notifier.onJobMatched;
+    const result = await runWithLinkedInSession(
+      async (page, used) => ({
+        ...(await searchJobsAndWriteTxt(page, profile, {
+          diagnostics,
+          pacing,
+          sessionKey: used.name,
+          formats,
+          onJobMatched,
+        })),
+        session: used.name,
+      }),
+      { diagnostics, session }
+    );
+    // abwarten: nach der Antwort kann die Function-Instanz eingefroren werden
+    await notifier.finish(result);
+
+    if (exporter.format !== "json") {
+      const exportContext = { profile: profile.name, generatedAt: new Date().toISOString() };
+      return {
+        status: 200,
+        headers: {
+          "Content-Type": exporter.contentType,
+          "Content-Disposition": `inline; filename="${exportFileName(exporter, exportContext)}"`,
+          "X-Completion": result.completion,
+          "X-Job-Count": String(result.jobs.length),
+          "X-Session": result.session,
+        },
+        body: exporter.render(result.jobs, exportContext),
+      };
+    }
 
     return {
       status: 200,
       jsonBody: {
         ok: true,
+        profile: profile.name,
+        searchId,
+        session: result.session,
+        completion: result.completion,
+        reason: result.reason,
+        pageState: result.pageState,
         count: result.jobs.length,
         txtPath: result.txtPath,
         jsonPath: result.jsonPath,
+        exports: result.exports,
         tookMs: Date.now() - startedAt,
+        pacing: result.pacing,
+        diagnostics: diagnostics.artifacts,
       },
     };
-  } catch (error: any) {
-    const message = String(error?.message ?? error);
-    const status = message.includes("AUTH_REQUIRED") || message.includes("SESSION_MISSING") ? 401 : 500;
-
+  } catch (error: unknown) {
+    const { status, body } = errorResponse(error);
     return {
       status,
-      jsonBody: {
-        ok: false,
-        error: message,
-      },
+      jsonBody: { ...body, diagnostics: diagnostics.artifacts },
     };
   }
 }
@@ -0,0 +1,57 @@
+import { app, InvocationContext, Timer } from "@azure/functions";
+import { isScheduleDue, listSchedules, runSchedule, ScheduledRunRecord } from "../scheduler";
+
+// NCRONTAB mit Sekunden vorne, Default werktags 7:00 (Zeitzone: WEBSITE_TIME_ZONE der Function App).
+// Muss mindestens so oft ticken wie der feinste `cron` der Schedules, sonst fallen Starts zusammen.
+const TIMER_SCHEDULE = process.env.JOBS_TIMER_SCHEDULE || "0 0 7 * * 1-5";
+
+// verpasste Starts (Function App war aus) höchstens so weit zurück nachholen
+const MAX_CATCH_UP_MS = 7 * 24 * 60 * 60_000;
+
+// letzter Tick laut Azure; fehlt er (erster Lauf, manueller Aufruf) oder ist unplausibel, zählt nur die letzte Minute
+function previousTick(timer: Timer, now: Date): Date {
+  const last = Date.parse(timer.scheduleStatus?.last ?? "");
+  const age = now.getTime() - last;
+  return age > 0 && age <= MAX_CATCH_UP_MS ? new Date(last) : new Date(now.getTime() - 60_000);
+}
+
+/**
+ * Timer trigger: runs the schedules from SCHEDULES_PATH whose `cron` had an occurrence since the
+ * previous tick, one after another (schedules without `cron` on every tick; only those named in
+ * TIMER_SCHEDULES, comma-separated, if set). Outcomes go to the schedule run log; results to
+ * OUTPUT_DIR and the job store like runJobsSearch.
+ */
+export async function runScheduledSearches(timer: Timer, context: InvocationContext): Promise<void> {
+  context.log(`runScheduledSearches trigger started${timer.isPastDue ? " (past due)" : ""}`);
+
+  const names = (process.env.TIMER_SCHEDULES ?? "")
+    .split(",")
+    .map((n) => n.trim())
+    .filter(Boolean);
+
+  // INVALID_SCHEDULE wird geworfen -> die Ausführung erscheint in Azure als fehlgeschlagen
+  const schedules = listSchedules().filter((s) => !names.length || names.includes(s.name));
+  if (!schedules.length) {
+    context.log("runScheduledSearches: no schedules configured (SCHEDULES_PATH / TIMER_SCHEDULES)");
+    return;
+  }
+
+  const now = new Date();
+  const since = previousTick(timer, now);
+  const due = schedules.filter((s) => isScheduleDue(s, since, now));
+  if (!due.length) {
+    context.log(`runScheduledSearches: no schedule due since ${since.toISOString()}`);
+    return;
+  }
+
+  const records: ScheduledRunRecord[] = [];
+  for (const schedule of due) {
+    records.push(await runSchedule(schedule, { trigger: "timer" }));
+  }
+  context.log(`runScheduledSearches finished: ${records.map((r) => `${r.schedule}=${r.state}`).join(", ")}`);
+}
+
+app.timer("runScheduledSearches", {
+  schedule: TIMER_SCHEDULE,
+  handler: runScheduledSearches,
+});
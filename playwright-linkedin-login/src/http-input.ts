@@ -0,0 +1,24 @@
+import { HttpRequest } from "@azure/functions";
+
+/**
+ * Merges query string and (for POST) JSON body of an Azure Functions request
+ * into one plain object. Body fields win over query parameters; repeated query
+ * parameters become arrays.
+ */
+export async function readAzureRequestInput(request: HttpRequest): Promise<Record<string, unknown>> {
+  const input: Record<string, unknown> = {};
+
+  for (const key of new Set(request.query.keys())) {
+    const values = request.query.getAll(key);
+    input[key] = values.length > 1 ? values : values[0];
+  }
+
+  if (request.method === "POST") {
+    const body = await request.json().catch(() => null);
+    if (body && typeof body === "object" && !Array.isArray(body)) {
+      Object.assign(input, body);
+    }
+  }
+
+  return input;
+}
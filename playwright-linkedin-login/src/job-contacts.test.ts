@@ -0,0 +1,84 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  contactsFromDescription,
+  extractEmails,
+  extractRecruiterNames,
+  formatContacts,
+  mergeContacts,
+} from "./job-contacts";
+
+describe("job contacts", () => {
+  it("extracts e-mail addresses once, lower-cased and without trailing dots", () => {
+    const cases: [string, string[]][] = [
+      ["Bewerbung an Jobs@Acme.de.", ["jobs@acme.de"]],
+      ["jane.doe+hr@acme.co.uk oder jobs@acme.de, nochmal jobs@acme.de", ["jane.doe+hr@acme.co.uk", "jobs@acme.de"]],
+      ["kein Kontakt @ hier", []],
+      ["", []],
+    ];
+    for (const [text, expected] of cases) {
+      assert.deepEqual(extractEmails(text), expected, text);
+    }
+  });
+
+  it("extracts recruiter names after contact labels", () => {
+    const cases: [string, string[]][] = [
+      ["Contact: Jane Doe", ["Jane Doe"]],
+      ["Ansprechpartnerin: Frau Anna Müller, Tel. 030 123", ["Frau Anna Müller"]],
+      ["Your recruiter - John Smith will reach out.", ["John Smith"]],
+      ["Kontaktperson – Dr. Hans-Peter Schmidt", ["Dr. Hans-Peter Schmidt"]],
+      ["Contact: Jean Claude Van Damme", ["Jean Claude Van Damme"]],
+      ["Contact: Jane Doe Recruiting Team", ["Jane Doe"]],
+      ["Recruiter: Jane Doe. Contact: Jane Doe", ["Jane Doe"]],
+      ["Kontakt: Seán O'Brien", ["Seán O'Brien"]],
+    ];
+    for (const [text, expected] of cases) {
+      assert.deepEqual(extractRecruiterNames(text), expected, text);
+    }
+  });
+
+  it("does not turn teams, offices or departments into names", () => {
+    const cases = [
+      "Recruiter – Berlin Office",
+      "Contact: our HR team",
+      "Contact: Our HR Team",
+      "Kontakt: Unser Recruiting Team",
+      "Ansprechpartner: Personalabteilung Acme GmbH",
+      "Recruiter: Talent Acquisition",
+      "Contact: Hiring Manager",
+      "Contact: Jane", // nur ein Wort
+      "Contact: JANE DOE",
+      "We are looking for a Recruiter - Full Time",
+    ];
+    for (const text of cases) {
+      assert.deepEqual(extractRecruiterNames(text), [], text);
+    }
+  });
+
+  it("builds, merges and formats contacts", () => {
+    const fromDescription = contactsFromDescription("Contact: Jane Doe – jane.doe@acme.com oder jobs@acme.com");
+    assert.deepEqual(fromDescription, [
+      { name: "Jane Doe", source: "description" },
+      { name: "", email: "jane.doe@acme.com", source: "description" },
+      { name: "", email: "jobs@acme.com", source: "description" },
+    ]);
+
+    const hiringTeam = [
+      {
+        name: "Jane Doe",
+        headline: "Talent Lead",
+        profileUrl: "https://www.linkedin.com/in/jane-doe/",
+        source: "hiring_team" as const,
+      },
+    ];
+    const merged = mergeContacts(hiringTeam, fromDescription, [{ name: "", source: "description" }]);
+    assert.equal(merged.length, 4); // Name und Profil-URL sind verschiedene Keys, leere Kontakte fallen weg
+
+    const john = { name: "John Smith", email: "john@acme.com", source: "description" as const };
+    assert.equal(
+      formatContacts([hiringTeam[0], john, fromDescription[2]]),
+      "Jane Doe (Talent Lead) <https://www.linkedin.com/in/jane-doe/>; John Smith <john@acme.com>; jobs@acme.com"
+    );
+    assert.equal(formatContacts([]), "");
+  });
+});
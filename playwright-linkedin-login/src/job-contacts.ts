@@ -0,0 +1,139 @@
+// FILE: src/job-contacts.ts
+//
+// Kontakte zu einem Job: Hiring-Team / Job-Poster aus der Detailseite plus
+// E-Mail-Adressen und Ansprechpartner aus dem Beschreibungstext.
+
+export type JobContactSource = "hiring_team" | "description";
+
+export type JobContact = {
+  name: string; // leer, wenn nur eine E-Mail bekannt ist
+  headline?: string;
+  profileUrl?: string;
+  email?: string;
+  source: JobContactSource;
+};
+
+const EMAIL_REGEX = /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/gi;
+
+// "Contact: Jane Doe", "Ansprechpartnerin: Frau Anna Müller", "Your recruiter - John Smith"
+// Label case-insensitive, Name danach case-sensitive (Großbuchstaben am Wortanfang)
+const RECRUITER_LABEL_REGEX = new RegExp(
+  "(?:contact(?: person)?|your recruiter|recruiter|ihre? ansprechpartner(?:in)?|ansprechpartner(?:in)?|kontakt(?:person)?)" +
+    "\\s*[:\\-–]\\s*",
+  "giu"
+);
+
+// Anrede/Titel (optional), dann 1-4 Wörter mit Großbuchstabe + Kleinbuchstabe ("HR" ist kein Namensteil)
+const NAME_TITLES = "(?:Frau|Herr|Mr\\.?|Ms\\.?|Mrs\\.?|Dr\\.?)\\s+";
+const NAME_WORD = "[A-ZÄÖÜ][\\p{Ll}'][\\p{L}'-]*";
+const PERSON_NAME_REGEX = new RegExp(
+  `^((?:${NAME_TITLES})*)(${NAME_WORD}(?:\\s+${NAME_WORD}){0,3})(?![\\p{L}'-])`,
+  "u"
+);
+
+// groß geschriebene Wörter nach einem Label, die keine Namen sind
+// ("Recruiter – Berlin Office", "Contact: Our HR Team", "Recruiter - Full Time")
+const NON_NAME_WORDS = new Set([
+  "our",
+  "unser",
+  "unsere",
+  "unserem",
+  "the",
+  "die",
+  "der",
+  "das",
+  "team",
+  "office",
+  "department",
+  "abteilung",
+  "hr",
+  "human",
+  "resources",
+  "recruiting",
+  "recruitment",
+  "talent",
+  "acquisition",
+  "people",
+  "personal",
+  "personalabteilung",
+  "hiring",
+  "manager",
+  "careers",
+  "karriere",
+  "jobs",
+  "bewerbung",
+  "bewerbungen",
+  "gmbh",
+  "ag",
+  "group",
+  "gruppe",
+  "company",
+  "full",
+  "part",
+  "time",
+  "remote",
+]);
+
+export function extractEmails(text: string): string[] {
+  const found = (text.match(EMAIL_REGEX) ?? []).map((e) => e.replace(/\.+$/, "").toLowerCase());
+  return Array.from(new Set(found));
+}
+
+// Name am Anfang von `text`: 2-4 Namenswörter (ohne Anrede), abgeschnitten vor dem ersten Nicht-Namen-Wort
+function personName(text: string): string | null {
+  const m = text.match(PERSON_NAME_REGEX);
+  if (!m) return null;
+  const words = m[2].split(/\s+/);
+  const stop = words.findIndex((w) => NON_NAME_WORDS.has(w.toLowerCase()));
+  const nameWords = stop === -1 ? words : words.slice(0, stop);
+  if (nameWords.length < 2) return null;
+  return `${m[1]}${nameWords.join(" ")}`.replace(/\s+/g, " ").trim();
+}
+
+/** Names after labels like "Contact:" or "Ansprechpartnerin:"; text that does not look like a person is skipped. */
+export function extractRecruiterNames(text: string): string[] {
+  const names: string[] = [];
+  for (const m of text.matchAll(RECRUITER_LABEL_REGEX)) {
+    const start = (m.index ?? 0) + m[0].length;
+    const name = personName(text.slice(start, start + 80));
+    if (name && !names.includes(name)) names.push(name);
+  }
+  return names;
+}
+
+/** Contacts mentioned in the description text (e-mail addresses and named recruiters). */
+export function contactsFromDescription(description: string): JobContact[] {
+  return [
+    ...extractRecruiterNames(description).map((name): JobContact => ({ name, source: "description" })),
+    ...extractEmails(description).map((email): JobContact => ({ name: "", email, source: "description" })),
+  ];
+}
+
+function contactKey(c: JobContact) {
+  return (c.profileUrl || c.email || c.name).toLowerCase();
+}
+
+export function mergeContacts(...lists: JobContact[][]): JobContact[] {
+  const byKey = new Map<string, JobContact>();
+  for (const c of lists.flat()) {
+    const key = contactKey(c);
+    if (!key) continue;
+    // Hiring-Team Einträge haben Vorrang (mehr Infos) -> erste Fundstelle gewinnt
+    if (!byKey.has(key)) byKey.set(key, c);
+  }
+  return Array.from(byKey.values());
+}
+
+/** Readable one-line summary for `ApiJob.contact`, e.g. `Jane Doe (Talent Lead) <https://...>; jobs@acme.com`. */
+export function formatContacts(contacts: JobContact[]): string {
+  return contacts
+    .map((c) => {
+      const parts = [c.name || c.email || ""];
+      if (c.headline) parts.push(`(${c.headline})`);
+      if (c.name && c.email) parts.push(`<${c.email}>`);
+      if (c.profileUrl) parts.push(`<${c.profileUrl}>`);
+      return parts.join(" ");
+    })
+    .filter(Boolean)
+    .join("; ");
+}
@@ -0,0 +1,119 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  annualSalary,
+  formatSalary,
+  JobMetadata,
+  jobFilterRejection,
+  parseApplicantCount,
+  parseJobMetadata,
+  parseSalary,
+  Salary,
+} from "./job-metadata";
+import { DEFAULT_SEARCH_PROFILE } from "./search-profile";
+
+const META: JobMetadata = {
+  location: "Berlin, Germany",
+  workplaceType: "hybrid",
+  employmentType: "full-time",
+  seniorityLevel: "mid-senior",
+  applicantCount: 87,
+  easyApply: false,
+  salary: parseSalary("€60,000/yr - €75,000/yr"),
+};
+
+describe("job metadata", () => {
+  it("parses applicant counts (EN/DE)", () => {
+    const cases: [string, number | null][] = [
+      ["87 applicants", 87],
+      ["Over 200 applicants", 200],
+      ["Be among the first 25 applicants", 25],
+      ["1,234 applicants", 1234],
+      ["Mehr als 100 Bewerber:innen", 100],
+      ["12 Bewerbungen", 12],
+      ["35 people clicked apply", 35],
+      ["Berlin · vor 2 Wochen", null],
+      ["", null],
+    ];
+    for (const [text, expected] of cases) {
+      assert.equal(parseApplicantCount(text), expected, text);
+    }
+  });
+
+  it("parses salary ranges, currencies and periods", () => {
+    const cases: [string, Pick<Salary, "min" | "max" | "currency" | "period"> | null][] = [
+      ["$100K/yr - $120K/yr", { min: 100_000, max: 120_000, currency: "USD", period: "year" }],
+      ["60.000 € - 75.000 € pro Jahr", { min: 60_000, max: 75_000, currency: "EUR", period: "year" }],
+      ["50.000 bis 60.000 EUR", { min: 50_000, max: 60_000, currency: "EUR", period: "" }],
+      ["CHF 8,500 monthly", { min: 8_500, max: 8_500, currency: "CHF", period: "month" }],
+      ["€45,50/hr", { min: 45.5, max: 45.5, currency: "EUR", period: "hour" }],
+      ["£1.2M a year", { min: 1_200_000, max: 1_200_000, currency: "GBP", period: "year" }],
+      ["Full-time", null],
+      ["200 applicants", null], // Zahl ohne Währung/Zeitraum ist kein Gehalt
+      ["", null],
+    ];
+    for (const [text, expected] of cases) {
+      const salary = parseSalary(text);
+      const parsed = salary && { min: salary.min, max: salary.max, currency: salary.currency, period: salary.period };
+      assert.deepEqual(parsed, expected, text);
+    }
+  });
+
+  it("annualizes and formats salaries", () => {
+    const monthly = parseSalary("4.000 € - 5.000 € monatlich");
+    assert.equal(annualSalary(monthly, "min"), 48_000);
+    assert.equal(annualSalary(monthly, "max"), 60_000);
+    assert.equal(annualSalary(parseSalary("50.000 EUR"), "max"), 50_000); // ohne Zeitraum unverändert
+    assert.equal(annualSalary(null, "max"), null);
+
+    assert.equal(formatSalary(monthly), "4000-5000 EUR/month");
+    assert.equal(formatSalary(parseSalary("$45/hr")), "45 USD/hour");
+    assert.equal(formatSalary(null), "");
+  });
+
+  it("normalizes the raw top card and criteria", () => {
+    const meta = parseJobMetadata({
+      location: "",
+      insights: ["  Remote ", "Vollzeit", "$100K/yr - $120K/yr"],
+      primaryDescription: "Berlin, Germany · vor 2 Wochen · Über 100 Bewerber",
+      criteria: { Karrierestufe: "Mit Berufserfahrung", Beschäftigungsverhältnis: "Teilzeit" },
+      applyButtonText: "Einfach bewerben",
+      salaryText: "",
+    });
+    assert.deepEqual(
+      { ...meta, salary: meta.salary?.min },
+      {
+        location: "Berlin, Germany",
+        workplaceType: "remote",
+        employmentType: "part-time", // Job-Kriterien vor Insights
+        seniorityLevel: "mid-senior",
+        applicantCount: 100,
+        easyApply: true,
+        salary: 100_000,
+      }
+    );
+  });
+
+  it("filters on metadata and never on unknown values", () => {
+    const profile = DEFAULT_SEARCH_PROFILE;
+    const cases: [Partial<typeof profile>, Partial<JobMetadata>, string | null][] = [
+      [{}, {}, null],
+      [{ easyApplyOnly: true }, {}, "not Easy Apply"],
+      [{ maxApplicants: 50 }, {}, "applicants 87 > 50"],
+      [{ maxApplicants: 50 }, { applicantCount: null }, null],
+      [{ minSalary: 80_000 }, {}, "salary €60,000/yr - €75,000/yr < 80000"],
+      [{ minSalary: 70_000 }, {}, null],
+      [{ minSalary: 80_000 }, { salary: null }, null],
+      [{ locationContains: "münchen" }, {}, 'location "Berlin, Germany"'],
+      [{ locationContains: "berlin" }, {}, null],
+      [{ workplaceTypes: ["remote"] }, {}, "workplace type hybrid"],
+      [{ workplaceTypes: ["remote"] }, { workplaceType: "" }, null],
+      [{ jobTypes: ["contract"] }, {}, "employment type full-time"],
+      [{ experienceLevels: ["entry", "mid-senior"] }, {}, null],
+    ];
+    for (const [overrides, meta, expected] of cases) {
+      const label = JSON.stringify({ overrides, meta });
+      assert.equal(jobFilterRejection({ ...META, ...meta }, { ...profile, ...overrides }), expected, label);
+    }
+  });
+});
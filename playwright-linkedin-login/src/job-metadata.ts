@@ -0,0 +1,227 @@
+// FILE: src/job-metadata.ts
+//
+// Strukturierte Job-Metadaten aus Top-Card / Job-Kriterien (Ort, Arbeitsmodell, Anstellungsart,
+// Karrierestufe, Bewerberzahl, Easy Apply, Gehalt) + Filter darauf.
+// LinkedIn liefert die Werte als lose Texte (EN/DE), hier werden sie normalisiert.
+
+import { ExperienceLevel, JobType, SearchProfile, WorkplaceType } from "./search-profile";
+
+export type SalaryPeriod = "year" | "month" | "week" | "day" | "hour";
+
+export type Salary = {
+  min: number | null;
+  max: number | null;
+  currency: string; // ISO-Code, "" wenn unbekannt
+  period: SalaryPeriod | "";
+  text: string; // Originaltext
+};
+
+export type JobMetadata = {
+  location: string;
+  workplaceType: WorkplaceType | "";
+  employmentType: JobType | "";
+  seniorityLevel: ExperienceLevel | "";
+  applicantCount: number | null;
+  easyApply: boolean;
+  salary: Salary | null;
+};
+
+// Rohtexte, wie sie readJobPageDetails im Browser einsammelt
+export type RawJobMetadata = {
+  location: string;
+  insights: string[]; // Pills/Insights der Top-Card ("Remote", "Full-time", "$100K/yr - $120K/yr", ...)
+  primaryDescription: string; // "Berlin · vor 2 Wochen · 87 Bewerber"
+  criteria: Record<string, string>; // Job-Kriterien: Überschrift -> Wert
+  applyButtonText: string;
+  salaryText: string;
+};
+
+const WORKPLACE_PATTERNS: [RegExp, WorkplaceType][] = [
+  [/\bhybrid\b/i, "hybrid"],
+  [/\b(remote|homeoffice|home office|fernarbeit)\b/i, "remote"],
+  [/\b(on-?site|vor ort)\b/i, "onsite"],
+];
+
+const EMPLOYMENT_PATTERNS: [RegExp, JobType][] = [
+  [/\b(full[- ]time|vollzeit)\b/i, "full-time"],
+  [/\b(part[- ]time|teilzeit)\b/i, "part-time"],
+  [/\b(contract|freelance|befristet|vertrag)\b/i, "contract"],
+  [/\b(temporary|temporär|aushilfe)\b/i, "temporary"],
+  [/\b(internship|praktikum)\b/i, "internship"],
+  [/\b(volunteer|ehrenamt)/i, "volunteer"],
+];
+
+const SENIORITY_PATTERNS: [RegExp, ExperienceLevel][] = [
+  [/\b(internship|praktikum)\b/i, "internship"],
+  [/\b(entry level|einstieg|berufseinsteiger)/i, "entry"],
+  [/\b(mid-senior|mit berufserfahrung|mittleres management)/i, "mid-senior"],
+  [/\b(associate|junior)\b/i, "associate"],
+  [/\b(director|direktor)/i, "director"],
+  [/\b(executive|geschäftsführung|führungskraft)/i, "executive"],
+];
+
+const CURRENCY_SYMBOLS: [RegExp, string][] = [
+  [/€|\beur\b/i, "EUR"],
+  [/£|\bgbp\b/i, "GBP"],
+  [/\bchf\b/i, "CHF"],
+  [/\$|\busd\b/i, "USD"],
+];
+
+const PERIOD_PATTERNS: [RegExp, SalaryPeriod][] = [
+  [/(\/\s*yr|per year|a year|annual|jährlich|pro jahr|\/\s*jahr)/i, "year"],
+  [/(\/\s*mo|per month|a month|monthly|monatlich|pro monat|\/\s*monat)/i, "month"],
+  [/(\/\s*wk|per week|a week|weekly|wöchentlich|pro woche)/i, "week"],
+  [/(\/\s*day|per day|a day|daily|täglich|pro tag)/i, "day"],
+  [/(\/\s*hr|per hour|an hour|hourly|stündlich|pro stunde|\/\s*std)/i, "hour"],
+];
+
+const ANNUAL_FACTOR: Record<SalaryPeriod, number> = {
+  year: 1,
+  month: 12,
+  week: 52,
+  day: 260,
+  hour: 2080,
+};
+
+function firstMatch<T>(texts: string[], patterns: [RegExp, T][]): T | "" {
+  for (const t of texts) {
+    for (const [re, value] of patterns) {
+      if (re.test(t)) return value;
+    }
+  }
+  return "";
+}
+
+function criterion(criteria: Record<string, string>, labelRe: RegExp): string {
+  const key = Object.keys(criteria).find((k) => labelRe.test(k));
+  return key ? criteria[key] : "";
+}
+
+// "120,000" / "120.000" / "120K" / "1,5 Mio." -> Zahl
+function parseAmount(raw: string): number | null {
+  const m = raw.match(/(\d[\d.,\s]*)\s*(k|tsd\.?|mio\.?|m)?\b/i);
+  if (!m) return null;
+
+  let digits = m[1].replace(/\s/g, "");
+  // Tausendertrennzeichen entfernen, Dezimaltrennzeichen (nur bei 1-2 Nachkommastellen) behalten
+  const dec = digits.match(/[.,](\d{1,2})$/);
+  if (dec) digits = digits.slice(0, -dec[0].length).replace(/[.,]/g, "") + "." + dec[1];
+  else digits = digits.replace(/[.,]/g, "");
+
+  let n = Number(digits);
+  if (!Number.isFinite(n)) return null;
+
+  const suffix = (m[2] || "").toLowerCase();
+  if (suffix === "k" || suffix.startsWith("tsd")) n *= 1_000;
+  if (suffix === "m" || suffix.startsWith("mio")) n *= 1_000_000;
+  return n;
+}
+
+export function parseSalary(text: string): Salary | null {
+  const clean = text.replace(/\s+/g, " ").trim();
+  if (!clean || !/\d/.test(clean)) return null;
+  if (!CURRENCY_SYMBOLS.some(([re]) => re.test(clean)) && !PERIOD_PATTERNS.some(([re]) => re.test(clean))) return null;
+
+  const [fromRaw, toRaw] = clean.split(/\s[-–]\s|\bbis\b|\bto\b/i);
+  const min = parseAmount(fromRaw);
+  const max = toRaw ? parseAmount(toRaw) : min;
+  if (min === null && max === null) return null;
+
+  return {
+    min,
+    max,
+    currency: firstMatch([clean], CURRENCY_SYMBOLS) || "",
+    period: firstMatch([clean], PERIOD_PATTERNS),
+    text: clean,
+  };
+}
+
+// "Over 200 applicants", "87 applicants", "Mehr als 100 Bewerber:innen", "Be among the first 25 applicants"
+export function parseApplicantCount(text: string): number | null {
+  const m = text.match(/(\d[\d.,]*)\s*\+?\s*(applicants?|bewerb\w*|people clicked apply|personen)/i);
+  if (!m) return null;
+  const n = Number(m[1].replace(/[.,]/g, ""));
+  return Number.isFinite(n) ? n : null;
+}
+
+export function parseJobMetadata(raw: RawJobMetadata): JobMetadata {
+  const insights = raw.insights.map((t) => t.replace(/\s+/g, " ").trim()).filter(Boolean);
+  const criteria = raw.criteria;
+
+  const employmentText = criterion(criteria, /employment type|beschäftigungsverhältnis|anstellungsart/i);
+  const seniorityText = criterion(criteria, /seniority level|karrierestufe|erfahrungslevel/i);
+
+  const salaryCandidates = [raw.salaryText, ...insights.filter((t) => /\d/.test(t))];
+  let salary: Salary | null = null;
+  for (const candidate of salaryCandidates) {
+    salary = parseSalary(candidate);
+    if (salary) break;
+  }
+
+  const primaryParts = raw.primaryDescription
+    .split("·")
+    .map((p) => p.trim())
+    .filter(Boolean);
+
+  return {
+    location: raw.location || primaryParts[0] || "",
+    workplaceType: firstMatch(insights, WORKPLACE_PATTERNS),
+    employmentType: firstMatch([employmentText, ...insights].filter(Boolean), EMPLOYMENT_PATTERNS),
+    seniorityLevel: firstMatch([seniorityText, ...insights].filter(Boolean), SENIORITY_PATTERNS),
+    applicantCount: parseApplicantCount([raw.primaryDescription, ...insights].join(" · ")),
+    easyApply: /easy apply|einfach bewerben/i.test(raw.applyButtonText),
+    salary,
+  };
+}
+
+export function annualSalary(salary: Salary | null, which: "min" | "max"): number | null {
+  const value = salary?.[which] ?? null;
+  if (value === null || !salary?.period) return value;
+  return value * ANNUAL_FACTOR[salary.period];
+}
+
+/**
+ * Applies the metadata filters of a search profile. Unknown values (not shown by
+ * LinkedIn) never drop a job. Returns the reason when the job is filtered out.
+ */
+export function jobFilterRejection(meta: JobMetadata, profile: SearchProfile): string | null {
+  if (profile.easyApplyOnly && !meta.easyApply) return "not Easy Apply";
+
+  const applicants = meta.applicantCount;
+  if (profile.maxApplicants !== undefined && applicants !== null && applicants > profile.maxApplicants) {
+    return `applicants ${applicants} > ${profile.maxApplicants}`;
+  }
+
+  if (profile.minSalary !== undefined) {
+    const top = annualSalary(meta.salary, "max");
+    if (top !== null && top < profile.minSalary) return `salary ${meta.salary?.text} < ${profile.minSalary}`;
+  }
+
+  if (profile.locationContains && meta.location) {
+    if (!meta.location.toLowerCase().includes(profile.locationContains.toLowerCase())) {
+      return `location "${meta.location}"`;
+    }
+  }
+
+  if (profile.workplaceTypes?.length && meta.workplaceType && !profile.workplaceTypes.includes(meta.workplaceType)) {
+    return `workplace type ${meta.workplaceType}`;
+  }
+  if (profile.jobTypes?.length && meta.employmentType && !profile.jobTypes.includes(meta.employmentType)) {
+    return `employment type ${meta.employmentType}`;
+  }
+  if (
+    profile.experienceLevels?.length &&
+    meta.seniorityLevel &&
+    !profile.experienceLevels.includes(meta.seniorityLevel)
+  ) {
+    return `seniority ${meta.seniorityLevel}`;
+  }
+
+  return null;
+}
+
+export function formatSalary(salary: Salary | null): string {
+  if (!salary) return "";
+  const range = salary.min === salary.max ? `${salary.min}` : `${salary.min ?? "?"}-${salary.max ?? "?"}`;
+  return `${range} ${salary.currency}${salary.period ? `/${salary.period}` : ""}`.trim();
+}
@@ -0,0 +1,74 @@
+import "./testing/env";
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import { describe, it } from "node:test";
+import { ApiJob } from "./jobs-ai-hr";
+import { listJobsFirstSeenSince, loadJobStore, recordJobs } from "./job-store";
+
+const STORE_PATH = path.join(process.env.OUTPUT_DIR!, "job-store.ndjson");
+
+function job(jobId: string, description = "Wir suchen ..."): ApiJob {
+  return {
+    jobId,
+    jobTitle: `AI Recruiter ${jobId}`,
+    description,
+    link: `https://www.linkedin.com/jobs/view/${jobId}/`,
+    contact: "",
+    contacts: [],
+    company: "Acme GmbH",
+    postingDate: "2026-10-01",
+    postingDateSource: "exact",
+    reposted: false,
+    location: "Berlin",
+    workplaceType: "hybrid",
+    employmentType: "full-time",
+    seniorityLevel: "",
+    applicantCount: null,
+    easyApply: false,
+    salary: null,
+    matches: [],
+    score: 0,
+    scoreBreakdown: [],
+    resultPage: 1,
+  };
+}
+
+function storeLines() {
+  return fs.readFileSync(STORE_PATH, "utf8").trim().split("\n").map((l) => JSON.parse(l));
+}
+
+describe("job store", () => {
+  it("marks new and seen jobs and stores the job data only once per job ID", async () => {
+    const first = await recordJobs([job("1", "x".repeat(10_000))], "ai-hr", new Date("2026-10-18T07:00:00Z"));
+    assert.deepEqual(first.map((j) => j.status), ["new"]);
+
+    const second = await recordJobs([job("1"), job("2")], "recruiter", new Date("2026-10-19T07:00:00Z"));
+    assert.deepEqual(second.map((j) => j.status), ["seen", "new"]);
+
+    const lines = storeLines();
+    assert.equal(lines.length, 3);
+    assert.equal(lines[0].job.description.length, 10_000);
+    assert.deepEqual(lines[1], { jobId: "1", seenAt: "2026-10-19T07:00:00.000Z", profile: "recruiter" });
+    assert.equal(lines[2].job.jobId, "2");
+
+    const stored = (await loadJobStore()).get("1")!;
+    assert.equal(stored.firstSeenAt, "2026-10-18T07:00:00.000Z");
+    assert.equal(stored.lastSeenAt, "2026-10-19T07:00:00.000Z");
+    assert.deepEqual(stored.profiles, ["ai-hr", "recruiter"]);
+    assert.equal(stored.job.description.length, 10_000);
+  });
+
+  it("picks up lines appended by other processes and skips a half-written last line", async () => {
+    const other = { jobId: "3", seenAt: "2026-10-19T08:00:00.000Z", profile: "other", job: job("3") };
+    fs.appendFileSync(STORE_PATH, JSON.stringify(other) + "\n" + '{"jobId":"4","seenAt"');
+
+    const since = await listJobsFirstSeenSince(new Date("2026-10-19T00:00:00Z"));
+    assert.deepEqual(since.map((s) => s.jobId), ["3", "2"]);
+
+    // Datei ersetzt -> wird neu gelesen
+    fs.rmSync(STORE_PATH);
+    assert.equal((await loadJobStore()).size, 0);
+    assert.deepEqual((await recordJobs([job("1")], "ai-hr")).map((j) => j.status), ["new"]);
+  });
+});
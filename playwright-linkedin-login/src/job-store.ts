@@ -0,0 +1,150 @@
+// FILE: src/job-store.ts
+//
+// Persistenter Job-Store über alle Runs hinweg (append-only NDJSON, Key = LinkedIn Job-ID).
+// Jede Zeile ist ein "gesehen"-Event; beim Laden werden die Events pro Job zusammengefaltet.
+// Nur das erste Event eines Jobs enthält die Job-Daten (inkl. Beschreibung), spätere nur Zeitpunkt und Profil.
+// Der gefaltete Stand bleibt im Speicher; bei jedem Zugriff werden nur die seitdem angehängten Zeilen gelesen.
+
+import fs from "fs";
+import path from "path";
+import { ApiJob, JobStatus } from "./jobs-ai-hr";
+
+const JOB_STORE_PATH = process.env.JOB_STORE_PATH || path.join(process.env.OUTPUT_DIR || "output", "job-store.ndjson");
+
+type SeenEvent = {
+  jobId: string;
+  seenAt: string; // ISO timestamp
+  profile: string;
+  job?: ApiJob; // nur beim ersten Sehen
+};
+
+export type StoredJob = {
+  jobId: string;
+  firstSeenAt: string;
+  lastSeenAt: string;
+  profiles: string[];
+  job: ApiJob; // Stand beim ersten Sehen
+};
+
+// gelesener Stand der Datei; `offset` = Bytes bis zur letzten vollständigen Zeile
+type StoreIndex = {
+  jobs: Map<string, StoredJob>;
+  offset: number;
+  inode: number;
+};
+
+let index: StoreIndex = { jobs: new Map(), offset: 0, inode: 0 };
+
+// Schreibzugriffe serialisieren, sonst sehen parallele Runs denselben Job beide als "new"
+let writeChain: Promise<unknown> = Promise.resolve();
+
+function serialized<T>(fn: () => Promise<T>): Promise<T> {
+  const next = writeChain.then(fn, fn);
+  writeChain = next.catch(() => {});
+  return next;
+}
+
+// Lesen ebenfalls nacheinander, damit `index` nie von zwei Aufrufen gleichzeitig fortgeschrieben wird
+let readChain: Promise<unknown> = Promise.resolve();
+
+function applyEvent(jobs: Map<string, StoredJob>, ev: SeenEvent) {
+  const existing = jobs.get(ev.jobId);
+  if (!existing) {
+    // ohne Job-Daten (erste Zeile verloren) lässt sich der Job nicht ausliefern
+    if (!ev.job) return;
+    jobs.set(ev.jobId, {
+      jobId: ev.jobId,
+      firstSeenAt: ev.seenAt,
+      lastSeenAt: ev.seenAt,
+      profiles: [ev.profile],
+      job: ev.job,
+    });
+    return;
+  }
+
+  if (ev.seenAt < existing.firstSeenAt) existing.firstSeenAt = ev.seenAt;
+  if (ev.seenAt > existing.lastSeenAt) existing.lastSeenAt = ev.seenAt;
+  if (!existing.profiles.includes(ev.profile)) existing.profiles.push(ev.profile);
+}
+
+async function readNewEvents(): Promise<Map<string, StoredJob>> {
+  const stat = await fs.promises.stat(JOB_STORE_PATH).catch((e: any) => {
+    if (e?.code === "ENOENT") return null;
+    throw e;
+  });
+  // Datei gelöscht, ersetzt oder gekürzt -> von vorn lesen
+  if (!stat || stat.ino !== index.inode || stat.size < index.offset) {
+    index = { jobs: new Map(), offset: 0, inode: stat?.ino ?? 0 };
+  }
+  if (!stat || stat.size === index.offset) return index.jobs;
+
+  const buffer = Buffer.alloc(stat.size - index.offset);
+  const file = await fs.promises.open(JOB_STORE_PATH, "r");
+  try {
+    await file.read(buffer, 0, buffer.length, index.offset);
+  } finally {
+    await file.close();
+  }
+
+  // nur vollständige Zeilen; eine gerade geschriebene halbe Zeile kommt beim nächsten Mal dran
+  const end = buffer.lastIndexOf(0x0a) + 1;
+  for (const line of buffer.subarray(0, end).toString("utf8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      applyEvent(index.jobs, JSON.parse(line));
+    } catch {
+      // kaputte Zeile (z. B. Prozess-Abbruch mitten im Schreiben) überspringen
+    }
+  }
+  index.offset += end;
+  return index.jobs;
+}
+
+/** All stored jobs by job ID. Reads only the lines appended since the previous call. */
+export function loadJobStore(): Promise<Map<string, StoredJob>> {
+  const next = readChain.then(readNewEvents, readNewEvents);
+  readChain = next.catch(() => {});
+  return next.then((jobs) => new Map(jobs));
+}
+
+/**
+ * Records the jobs of one run and returns them with `status` set:
+ * "new" if the job ID was not in the store before this run, otherwise "seen".
+ */
+export function recordJobs(jobs: ApiJob[], profileName: string, seenAt = new Date()): Promise<ApiJob[]> {
+  return serialized(async () => {
+    const store = await loadJobStore();
+    const stamp = seenAt.toISOString();
+
+    const result = jobs.map((job): ApiJob => {
+      const status: JobStatus = job.jobId && store.has(job.jobId) ? "seen" : "new";
+      return { ...job, status };
+    });
+
+    const lines = jobs
+      .filter((job) => job.jobId)
+      .map((job) => {
+        const ev: SeenEvent = { jobId: job.jobId, seenAt: stamp, profile: profileName };
+        // Job-Daten samt Beschreibung nur einmal pro Job-ID, sonst wächst der Store mit jeder Sichtung
+        if (!store.has(job.jobId)) ev.job = job;
+        return JSON.stringify(ev);
+      });
+
+    if (lines.length) {
+      await fs.promises.mkdir(path.dirname(JOB_STORE_PATH), { recursive: true });
+      await fs.promises.appendFile(JOB_STORE_PATH, lines.join("\n") + "\n", "utf8");
+    }
+
+    return result;
+  });
+}
+
+/** Jobs first seen at or after `since`, newest first. */
+export async function listJobsFirstSeenSince(since: Date): Promise<StoredJob[]> {
+  const store = await loadJobStore();
+  const sinceIso = since.toISOString();
+
+  return Array.from(store.values())
+    .filter((s) => s.firstSeenAt >= sinceIso)
+    .sort((a, b) => b.firstSeenAt.localeCompare(a.firstSeenAt));
+}
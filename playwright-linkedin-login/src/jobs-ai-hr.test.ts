@@ -0,0 +1,186 @@
+import "./testing/env";
+import assert from "node:assert/strict";
+import fs from "fs";
+import { after, before, describe, it } from "node:test";
+import { Browser, chromium } from "playwright";
+import { createDiagnostics } from "./diagnostics";
+import { AuthRequiredError, BlockedError, CaptchaRequiredError } from "./errors";
+import { FetchOptions, FetchResult, fetchLinkedInJobsAiHr } from "./jobs-ai-hr";
+import { searchProfileFromInput } from "./search-profile";
+import { FixtureScenario, FixtureServer, startFixtureServer } from "./testing/fixture-server";
+
+// Jobs in fixtures/linkedin/, die den Default-Ausdruck (AI-Begriff AND HR-Begriff) erfüllen
+const MATCHING_IDS = ["4100000001", "4100000002", "4100000004", "4100000006", "4100000008", "4100000009", "4100000011"];
+
+describe("fetchLinkedInJobsAiHr against the fixture server", () => {
+  let fixtures: FixtureServer;
+  let browser: Browser;
+  let full: FetchResult;
+
+  const fetchWith = async (
+    scenario: FixtureScenario,
+    input: Record<string, unknown> = {},
+    options: FetchOptions = {}
+  ) => {
+    fixtures.scenario = scenario;
+    const page = await browser.newPage();
+    try {
+      return await fetchLinkedInJobsAiHr(page, searchProfileFromInput(input), options);
+    } finally {
+      await page.context().close();
+    }
+  };
+
+  const job = (id: string) => {
+    const found = full.jobs.find((j) => j.jobId === id);
+    assert.ok(found, `job ${id} missing`);
+    return found;
+  };
+
+  before(async () => {
+    fixtures = await startFixtureServer();
+    process.env.LINKEDIN_BASE_URL = fixtures.baseUrl;
+    browser = await chromium.launch({ headless: true });
+    full = await fetchWith("default");
+  });
+
+  after(async () => {
+    await browser?.close();
+    await fixtures?.close();
+  });
+
+  it("collects the virtualized list, pages through results and stops at the empty page", () => {
+    assert.equal(full.completion, "complete");
+    assert.match(full.reason, /No more results after page 2/);
+    assert.deepEqual(full.jobs.map((j) => j.jobId).sort(), MATCHING_IDS);
+    assert.ok(fixtures.requests.some((r) => r.includes("start=50")), "third results page was requested");
+  });
+
+  it("dedupes a job that appears on several result pages", () => {
+    assert.equal(full.jobs.filter((j) => j.jobId === "4100000004").length, 1);
+    assert.equal(job("4100000004").resultPage, 1);
+    assert.equal(job("4100000011").resultPage, 2);
+  });
+
+  it("builds job links on the configured base URL", () => {
+    for (const j of full.jobs) assert.ok(j.link.startsWith(`${fixtures.baseUrl}/jobs/view/`), j.link);
+  });
+
+  it("reads title, company, metadata, contacts and posting date", () => {
+    const acme = job("4100000001");
+    assert.equal(acme.jobTitle, "AI Recruiter");
+    assert.equal(acme.company, "Acme GmbH");
+    assert.equal(acme.location, "Berlin, Deutschland");
+    assert.equal(acme.workplaceType, "hybrid");
+    assert.equal(acme.employmentType, "full-time");
+    assert.equal(acme.seniorityLevel, "mid-senior");
+    assert.equal(acme.applicantCount, 87);
+    assert.equal(acme.easyApply, true);
+    assert.deepEqual([acme.salary?.min, acme.salary?.max, acme.salary?.currency], [70000, 85000, "EUR"]);
+    assert.equal(acme.postingDate, "2026-10-01");
+    assert.equal(acme.postingDateSource, "exact");
+    assert.equal(acme.contacts[0]?.name, "Jane Doe");
+    assert.equal(acme.contacts[0]?.source, "hiring_team");
+
+    const beta = job("4100000002");
+    assert.equal(beta.location, "München, Bayern");
+    assert.equal(beta.workplaceType, "onsite");
+    assert.equal(beta.seniorityLevel, "entry");
+    assert.equal(beta.postingDateSource, "relative");
+
+    const zeta = job("4100000006");
+    assert.equal(zeta.reposted, true);
+    assert.equal(zeta.applicantCount, 200);
+
+    const delta = job("4100000004");
+    assert.ok(delta.contacts.some((c) => c.email === "talent@delta-retail.example" && c.source === "description"));
+  });
+
+  it("falls back to secondary selectors when the primary ones are missing", () => {
+    const theta = job("4100000008");
+    assert.equal(theta.jobTitle, "Recruiting Operations Manager (AI Tools)");
+    assert.equal(theta.company, "Theta Health");
+    assert.match(theta.description, /AI-gestützte Vorauswahl/);
+  });
+
+  it("scores every job from its match hits and posting date", () => {
+    for (const j of full.jobs) {
+      const sum = j.scoreBreakdown.reduce((total, e) => total + e.points, 0);
+      assert.equal(j.score, Math.round(sum * 100) / 100, j.jobId);
+      assert.ok(j.scoreBreakdown.some((e) => e.type === "term" && e.points > 0), j.jobId);
+    }
+  });
+
+  it("drops jobs below minScore and sorts by score", async () => {
+    const scores = full.jobs.map((j) => j.score).sort((a, b) => a - b);
+    const minScore = scores[Math.floor(scores.length / 2)];
+    const ranked = await fetchWith("default", { minScore, sort: "score" });
+
+    const expected = full.jobs.filter((j) => j.score >= minScore).map((j) => j.jobId);
+    assert.deepEqual(ranked.jobs.map((j) => j.jobId).sort(), expected.sort());
+    const rankedScores = ranked.jobs.map((j) => j.score);
+    assert.deepEqual(rankedScores, [...rankedScores].sort((a, b) => b - a));
+  });
+
+  it("stops once maxResults jobs matched", async () => {
+    const result = await fetchWith("default", { maxResults: 2 });
+    assert.equal(result.completion, "max_results");
+    assert.equal(result.jobs.length, 2);
+  });
+
+  it("returns the partial result when a checkpoint appears mid-run and captures diagnostics", async () => {
+    const diagnostics = createDiagnostics("test-blocked");
+    const result = await fetchWith("blocked", {}, { diagnostics });
+    assert.equal(result.completion, "blocked");
+    assert.match(result.reason, /BLOCKED_MIDRUN/);
+    assert.ok(result.jobs.every((j) => j.resultPage === 1));
+
+    const html = diagnostics.artifacts.find((a) => a.kind === "html" && a.step === "search-page-2");
+    assert.ok(html, "HTML snapshot of the blocked results page");
+    assert.match(html.url, /start=25/);
+    assert.match(fs.readFileSync(html.path, "utf8"), /Security Verification/);
+    assert.ok(diagnostics.artifacts.some((a) => a.kind === "screenshot" && a.step === "search-page-2"));
+  });
+
+  it("throws BlockedError when the first results page is a checkpoint", async () => {
+    await assert.rejects(fetchWith("checkpoint"), (e) => {
+      assert.ok(e instanceof BlockedError);
+      assert.equal(e.status, 423);
+      assert.equal(e.details.state, "CHECKPOINT");
+      assert.deepEqual(e.details.evidence, ['blockIndicator: text="Security Verification"']);
+      return true;
+    });
+  });
+
+  it("returns an empty successful result when the search has no results", async () => {
+    const result = await fetchWith("empty");
+    assert.equal(result.completion, "no_results");
+    assert.equal(result.jobs.length, 0);
+    assert.equal(result.pageState?.state, "NO_RESULTS");
+  });
+
+  it("distinguishes captcha and login pages from a checkpoint", async () => {
+    await assert.rejects(fetchWith("captcha"), CaptchaRequiredError);
+    await assert.rejects(fetchWith("logged_out"), (e) => {
+      assert.ok(e instanceof AuthRequiredError);
+      assert.equal(e.details.state, "LOGGED_OUT");
+      assert.deepEqual(e.details.evidence, ["url: /login"]);
+      return true;
+    });
+  });
+
+  it("ends with rate_limited when LinkedIn answers with status 999 mid-run", async () => {
+    const result = await fetchWith("rate_limited");
+    assert.equal(result.completion, "rate_limited");
+    assert.deepEqual(result.pageState?.evidence, ["status: 999"]);
+    assert.ok(result.jobs.length > 0);
+  });
+
+  it("keeps the jobs of page 1 when page 2 times out", async () => {
+    const result = await fetchWith("timeout", {}, { pacing: { navRetries: 0 } });
+    assert.equal(result.completion, "error");
+    assert.match(result.reason, /^NAV_TIMEOUT on results page 2: /);
+    assert.ok(result.jobs.length > 0);
+    assert.ok(result.jobs.every((j) => j.resultPage === 1));
+  });
+});
@@ -1,16 +1,102 @@
 // FILE: src/jobs-ai-hr.ts
 //
-// Robust LinkedIn job fetcher for query "AI" + "HR"
+// Robust LinkedIn job fetcher. Query + match filter come from a SearchProfile
+// (default: "AI" + "HR").
 
 import { ElementHandle, Page } from "playwright";
+import { evaluateMatch, formatMatchHits, MatchHit, parseMatchExpression } from "./match-expression";
+import { contactsFromDescription, formatContacts, JobContact, mergeContacts } from "./job-contacts";
+import { parsePostingDate, PostingDateSource } from "./posting-date";
+import { jobFilterRejection, parseJobMetadata, RawJobMetadata, Salary } from "./job-metadata";
+import {
+  buildSearchUrl,
+  DEFAULT_SEARCH_PROFILE,
+  ExperienceLevel,
+  JobType,
+  SearchProfile,
+  WorkplaceType,
+} from "./search-profile";
+import { linkedInUrl } from "./linkedin-url";
+import { discardContext } from "./browser-pool";
+import { Diagnostics } from "./diagnostics";
+import { AppError, NavigationTimeoutError, RateLimitedError, RunCancelledError } from "./errors";
+import { createPacer, Pacer, PacingConfig, PacingStats } from "./pacing";
+import { classifyPage, isTransientPageState, PageStateResult, pageStateError } from "./page-state";
+import { activeSelectorProfile, anyOf, resolveSelector, SelectorField, selectorLists } from "./selectors";
+import { createScorer, ScoreEntry, sortJobs } from "./scoring";
+
+export type JobStatus = "new" | "seen";
 
 export type ApiJob = {
+  jobId: string; // LinkedIn Job-ID aus der /jobs/view/ URL
   jobTitle: string;
   description: string;
   link: string;
-  contact: string;
+  contact: string; // lesbare Zusammenfassung von `contacts`
+  contacts: JobContact[];
   company: string;
   postingDate: string; // YYYY-MM-DD (best-effort)
+  postingDateSource: PostingDateSource; // exact = Datum angezeigt, relative = aus "vor 2 Wochen" berechnet
+  reposted: boolean;
+  location: string;
+  workplaceType: WorkplaceType | "";
+  employmentType: JobType | "";
+  seniorityLevel: ExperienceLevel | "";
+  applicantCount: number | null;
+  easyApply: boolean;
+  salary: Salary | null;
+  matches: MatchHit[]; // welche Terme in welchem Feld getroffen haben
+  score: number; // Relevanz (src/scoring.ts), Summe von scoreBreakdown
+  scoreBreakdown: ScoreEntry[];
+  resultPage: number; // Ergebnisseite der Suche, auf der der Job gefunden wurde (1-basiert)
+  status?: JobStatus; // gesetzt vom Job-Store: "new" = in keinem früheren Run gesehen
+};
+
+export type FetchCompletion =
+  | "complete"
+  | "no_results"
+  | "timed_out"
+  | "blocked"
+  | "rate_limited"
+  | "stagnant"
+  | "max_results"
+  | "error";
+
+export type FetchResult = {
+  jobs: ApiJob[];
+  // Warum der Run geendet hat; bei timed_out/blocked/rate_limited sind `jobs` die bis dahin gesammelten Treffer
+  completion: FetchCompletion;
+  reason: string;
+  // Seitenzustand, der den Run beendet hat (no_results/blocked/rate_limited/stagnant), inkl. Evidenz
+  pageState?: PageStateResult;
+  pacing: PacingStats;
+};
+
+export type FetchProgress = {
+  page: number; // aktuelle Ergebnisseite (1-basiert)
+  maxPages: number;
+  round: number; // Scroll-Runde auf der aktuellen Seite, 1-basiert, 0 = noch nicht gestartet
+  maxRounds: number;
+  seen: number; // gesammelte Job-URLs
+  pending: number; // davon noch nicht geöffnet
+  matched: number;
+  pacing: PacingStats;
+  jobs: ApiJob[]; // bisher gesammelte Jobs (Snapshot)
+};
+
+export type FetchOptions = {
+  // Abbruch von außen (z. B. DELETE /api/v1/runs/:id)
+  signal?: AbortSignal;
+  onProgress?: (progress: FetchProgress) => void;
+  // pro Treffer, sobald er feststeht (z. B. "job.matched"-Webhooks, src/webhooks.ts)
+  onJobMatched?: (job: ApiJob) => void;
+  // Anzahl paralleler Detail-Pages (Default DETAIL_CONCURRENCY)
+  detailConcurrency?: number;
+  // Abweichungen von DEFAULT_PACING für diesen Run; sessionKey bestimmt das geteilte Rate-Limit-Fenster
+  pacing?: Partial<PacingConfig>;
+  sessionKey?: string;
+  // Screenshot + HTML bei Block, Navigations-Timeout und fehlgeschlagenen Jobs
+  diagnostics?: Diagnostics;
 };
 
 const DEFAULT_TIMEOUT = 60_000;
@@ -18,24 +104,21 @@ const DEFAULT_TIMEOUT = 60_000;
 // 120s ist für LinkedIn realistisch oft zu niedrig.
 // Stell das ruhig höher, sonst endet es "korrekt" aber zu früh.
 const HARD_RUN_TIMEOUT_MS = 8 * 60_000;
+// nach dem Hard-Timeout: so lange dürfen Collector/Worker ihre aktuelle Navigation noch beenden
+const HARD_TIMEOUT_GRACE_MS = 20_000;
 
-const MAX_RESULTS_TO_PROCESS = 40;
+// pro Ergebnisseite
 const MAX_SCROLL_ROUNDS = 10;
-
-const SEARCH_URL =
-  'https://www.linkedin.com/jobs/search-results/?keywords=%22AI%22%20%2B%20%22HR%22&origin=SWITCH_SEARCH_VERTICAL';
-
-const AI_REGEX =
-  /\b(ai|artificial intelligence|ki|k\.?i\.?|machine learning|ml\b|genai|generative ai|llm|large language model)\b/i;
-
-const HR_REGEX =
-  /\b(hr|human resources|people\b|talent\b|recruit(ing|er|ment)|people operations|personal(wesen|abteilung)?)\b/i;
+const STAGNANT_ROUNDS_PER_PAGE = 3;
 
 // kurze Timeouts, damit wir nie ewig "warten"
 const NAV_TIMEOUT_JOB_MS = 15_000;
-const NAV_TIMEOUT_SEARCH_MS = 15_000;
+const NAV_TIMEOUT_SEARCH_MS = Number(process.env.NAV_TIMEOUT_SEARCH_MS || 15_000);
 const JOB_SELECTOR_TIMEOUT = 2_500;
 
+// Detail-Worker: wenige parallele Pages, Pausen + Rate-Limit kommen aus der Pacing-Policy
+const DETAIL_CONCURRENCY = Number(process.env.DETAIL_CONCURRENCY || 2);
+
 function normalizeText(s: string | null | undefined) {
   return (s ?? "").replace(/\s+/g, " ").trim();
 }
@@ -43,118 +126,105 @@ function normalizeText(s: string | null | undefined) {
 function normalizeJobUrl(href: string) {
   if (!href) return null;
   let abs = href;
-  if (abs.startsWith("/")) abs = `https://www.linkedin.com${abs}`;
+  if (abs.startsWith("/")) abs = linkedInUrl(abs);
   if (!abs.includes("/jobs/view/")) return null;
   return abs.split("?")[0];
 }
 
-function toIsoDateOrEmpty(input: string): string {
-  const d = new Date(input);
-  if (Number.isNaN(d.getTime())) return "";
-  const yyyy = String(d.getUTCFullYear());
-  const mm = String(d.getUTCMonth() + 1).padStart(2, "0");
-  const dd = String(d.getUTCDate()).padStart(2, "0");
-  return `${yyyy}-${mm}-${dd}`;
+export function jobIdFromUrl(url: string): string {
+  const m = url.match(/\/jobs\/view\/(?:[^/?]*-)?(\d+)/);
+  return m ? m[1] : "";
 }
 
-async function handleConsentIfPresent(page: Page) {
-  const candidates = [
-    'button:has-text("Accept")',
-    'button:has-text("I Accept")',
-    'button:has-text("Agree")',
-    'button:has-text("Allow all cookies")',
-    'button:has-text("Accept cookies")',
-    'button:has-text("Alle Cookies akzeptieren")',
-    'button:has-text("Akzeptieren")',
-    'button:has-text("Zustimmen")',
-  ];
-
-  for (const sel of candidates) {
+async function handleConsentIfPresent(page: Page, pacer: Pacer) {
+  for (const sel of activeSelectorProfile().fields.consentButton.selectors) {
     const btn = page.locator(sel).first();
     if (await btn.isVisible({ timeout: 800 }).catch(() => false)) {
       await btn.click({ timeout: 2_000 }).catch(() => {});
-      await page.waitForTimeout(300);
+      await pacer.actionDelay();
       return;
     }
   }
 }
 
-async function gotoWithTimeout(page: Page, url: string, ms: number, tag: string) {
-  await Promise.race([
+// Liefert den HTTP-Status der Antwort (für die Erkennung von 429/999)
+async function gotoWithTimeout(page: Page, url: string, ms: number, tag: string): Promise<number | null> {
+  const response = await Promise.race([
     page.goto(url, { waitUntil: "domcontentloaded" }),
-    page.waitForTimeout(ms).then(() => {
-      throw new Error(`NAV_TIMEOUT_${tag}: ${ms}ms (${url})`);
+    page.waitForTimeout(ms).then((): never => {
+      throw new NavigationTimeoutError(tag, url, ms);
     }),
   ]);
+  return response?.status() ?? null;
 }
 
 async function findLeftListScroller(page: Page): Promise<ElementHandle<HTMLElement> | null> {
   // Priorisierte Kandidaten (LinkedIn UI-Klassen wechseln manchmal, aber das ist oft stabiler als "best score")
-  const handle = await page.evaluateHandle(() => {
-    const candidates = [
-      // häufig bei job search
-      document.querySelector<HTMLElement>('div.jobs-search-results-list'),
-      document.querySelector<HTMLElement>('div.jobs-search-results-list__container'),
-      document.querySelector<HTMLElement>('div.scaffold-layout__list-container'),
-      document.querySelector<HTMLElement>('main [role="main"] .scaffold-layout__list-container'),
-    ].filter(Boolean) as HTMLElement[];
-
-    const isScrollable = (el: HTMLElement) =>
-      el.scrollHeight > el.clientHeight + 30 &&
-      (getComputedStyle(el).overflowY === "auto" || getComputedStyle(el).overflowY === "scroll");
-
-    for (const el of candidates) {
-      if (isScrollable(el) && el.querySelector('a[href*="/jobs/view/"]')) return el;
-    }
+  const fields = activeSelectorProfile().fields;
+  const handle = await page.evaluateHandle(
+    ({ scrollerSelectors, jobLink }) => {
+      const candidates = scrollerSelectors
+        .map((sel) => document.querySelector<HTMLElement>(sel))
+        .filter(Boolean) as HTMLElement[];
+
+      const isScrollable = (el: HTMLElement) =>
+        el.scrollHeight > el.clientHeight + 30 &&
+        (getComputedStyle(el).overflowY === "auto" || getComputedStyle(el).overflowY === "scroll");
+
+      for (const el of candidates) {
+        if (isScrollable(el) && el.querySelector(jobLink)) return el;
+      }
 
-    // fallback: scoring wie vorher
-    const els = Array.from(document.querySelectorAll<HTMLElement>("div, section, aside, main"));
-    let best: HTMLElement | null = null;
-    let bestScore = 0;
-
-    for (const el of els) {
-      if (!isScrollable(el)) continue;
-      const links = el.querySelectorAll('a[href*="/jobs/view/"]').length;
-      const score = links * 100 + Math.min(el.clientHeight, 1200);
-      if (score > bestScore) {
-        bestScore = score;
-        best = el;
+      // fallback: scoring wie vorher
+      const els = Array.from(document.querySelectorAll<HTMLElement>("div, section, aside, main"));
+      let best: HTMLElement | null = null;
+      let bestScore = 0;
+
+      for (const el of els) {
+        if (!isScrollable(el)) continue;
+        const links = el.querySelectorAll(jobLink).length;
+        const score = links * 100 + Math.min(el.clientHeight, 1200);
+        if (score > bestScore) {
+          bestScore = score;
+          best = el;
+        }
       }
-    }
-    return best;
-  });
+      return best;
+    },
+    { scrollerSelectors: fields.jobListScroller.selectors, jobLink: anyOf(fields.jobLink) }
+  );
 
   return (handle.asElement() as ElementHandle<HTMLElement> | null) ?? null;
 }
 
-async function waitForNewSeenCount(prevSeen: number, seenRef: () => number, page: Page) {
-  const start = Date.now();
-  while (Date.now() - start < 8_000) {
-    if (seenRef() > prevSeen) return true;
-    // manchmal virtualisiert LinkedIn; kurz warten
-    await page.waitForTimeout(300);
-  }
-  return false;
-}
-
-
 async function collectLeftHrefs(page: Page, scroller: ElementHandle<HTMLElement> | null) {
+  const jobLink = anyOf(activeSelectorProfile().fields.jobLink);
   if (!scroller) {
     return page
-      .locator('a[href*="/jobs/view/"]')
+      .locator(jobLink)
       .evaluateAll((as) => as.map((a) => (a as HTMLAnchorElement).getAttribute("href") || ""))
       .catch(() => []);
   }
 
   return scroller
-    .evaluate((el) => {
-      const links = Array.from(el.querySelectorAll<HTMLAnchorElement>('a[href*="/jobs/view/"]'));
+    .evaluate((el, sel) => {
+      const links = Array.from(el.querySelectorAll<HTMLAnchorElement>(sel));
       return links.map((a) => a.getAttribute("href") || "");
-    })
+    }, jobLink)
     .catch(() => []);
 }
 
-async function scrollLeft(page: Page, scroller: ElementHandle<HTMLElement> | null, deltaPx: number) {
+async function collectJobUrls(page: Page): Promise<string[]> {
+  const hrefsRaw = await collectLeftHrefs(page, await findLeftListScroller(page));
+  const urls = hrefsRaw
+    .map((h) => h?.trim())
+    .filter(Boolean)
+    .map((h) => normalizeJobUrl(h!))
+    .filter(Boolean) as string[];
+  return Array.from(new Set(urls));
+}
+
+async function scrollLeft(page: Page, scroller: ElementHandle<HTMLElement> | null, deltaPx: number, pacer: Pacer) {
   if (scroller) {
     await scroller
       .evaluate((el, delta) => {
@@ -164,267 +234,561 @@ async function scrollLeft(page: Page, scroller: ElementHandle<HTMLElement> | nul
   } else {
     await page.evaluate((delta) => window.scrollBy(0, delta), deltaPx).catch(() => {});
   }
-  await page.waitForTimeout(500);
+  await pacer.actionDelay();
 }
 
-async function waitForJobsOrDetectBlock(page: Page): Promise<"OK" | "BLOCKED"> {
+// Wartet, bis die Ergebnisseite einen erkennbaren Zustand hat (Jobs, keine Ergebnisse, Checkpoint, ...);
+// nach 30s ohne Treffer bleibt es bei UNKNOWN
+async function waitForSearchState(page: Page, pacer: Pacer, status: number | null): Promise<PageStateResult> {
   const start = Date.now();
-  while (Date.now() - start < 30_000) {
-    await handleConsentIfPresent(page);
-
-    const blocked = await page
-      .locator(
-        [
-          'text="Sicherheitsüberprüfung"',
-          'text="Security Verification"',
-          'text="Verify"',
-          'text="Überprüfen"',
-          'text="Sign in to continue"',
-          'text="Melde dich an"',
-          'text="Join LinkedIn"',
-          'input[name="session_key"]',
-        ].join(",")
-      )
-      .first()
-      .isVisible({ timeout: 800 })
-      .catch(() => false);
-
-    if (blocked) return "BLOCKED";
-
-    const count = await page.locator('a[href*="/jobs/view/"]').count().catch(() => 0);
-    if (count > 0) return "OK";
-
+  for (;;) {
+    await handleConsentIfPresent(page, pacer);
+    const result = await classifyPage(page, { status });
+    if (result.state !== "UNKNOWN" || Date.now() - start >= 30_000) return result;
     await page.waitForTimeout(400);
   }
+}
+
+// Top-Card + Job-Kriterien als Rohtexte; Interpretation in job-metadata.ts
+async function readRawMetadata(page: Page): Promise<RawJobMetadata> {
+  const empty: RawJobMetadata = {
+    location: "",
+    insights: [],
+    primaryDescription: "",
+    criteria: {},
+    applyButtonText: "",
+    salaryText: "",
+  };
+
+  return page
+    .evaluate((sel) => {
+      const clean = (s: string | null | undefined) => (s ?? "").replace(/\s+/g, " ").trim();
+      const textOf = (selectors: string[]) => {
+        for (const s of selectors) {
+          const t = clean(document.querySelector(s)?.textContent);
+          if (t) return t;
+        }
+        return "";
+      };
+
+      const insights = Array.from(document.querySelectorAll(sel.insights.join(","))).map((el) =>
+        clean(el.textContent)
+      );
+
+      const criteria: Record<string, string> = {};
+      for (const item of Array.from(document.querySelectorAll(sel.criteriaItem.join(",")))) {
+        const label = clean(item.querySelector(sel.criteriaLabel.join(","))?.textContent);
+        const value = clean(item.querySelector(sel.criteriaValue.join(","))?.textContent);
+        if (label && value) criteria[label] = value;
+      }
 
-  return "BLOCKED";
+      return {
+        location: textOf(sel.location),
+        insights,
+        primaryDescription: textOf(sel.primaryDescription),
+        criteria,
+        applyButtonText: textOf(sel.applyButton),
+        salaryText: textOf(sel.salary),
+      };
+    }, selectorLists())
+    .catch(() => empty);
 }
 
-async function readJobPageDetails(page: Page) {
+// "Meet the hiring team" / Job-Poster Block (Name, Headline, Profil-URL)
+async function readHiringTeam(page: Page): Promise<JobContact[]> {
+  const raw = await page
+    .evaluate((sel) => {
+      const roots = new Set<Element>(Array.from(document.querySelectorAll(sel.hiringTeamSection.join(","))));
+
+      // Fallback über die Überschrift, falls sich die Klassen geändert haben
+      for (const h of Array.from(document.querySelectorAll("h2, h3"))) {
+        if (/hiring team|job poster|einstellungsteam|recruiting-team|stellenausschreiber/i.test(h.textContent || "")) {
+          const section = h.closest("section, div");
+          if (section) roots.add(section);
+        }
+      }
+
+      const clean = (s: string | null | undefined) => (s ?? "").replace(/\s+/g, " ").trim();
+      const people: { name: string; headline: string; profileUrl: string }[] = [];
+
+      for (const root of Array.from(roots)) {
+        for (const a of Array.from(root.querySelectorAll<HTMLAnchorElement>(sel.hiringTeamProfileLink.join(",")))) {
+          const card = a.closest(sel.hiringTeamCard.join(",")) || a;
+          const nameEl = card.querySelector(sel.hiringTeamName.join(","));
+          const headlineEl = card.querySelector(sel.hiringTeamHeadline.join(","));
+          const name = clean(nameEl?.textContent) || clean(a.textContent);
+          const headline = clean(headlineEl?.textContent);
+          people.push({ name, headline, profileUrl: a.href });
+        }
+      }
+      return people;
+    }, selectorLists())
+    .catch(() => []);
+
+  return raw
+    .filter((p) => p.name)
+    .map((p): JobContact => ({
+      name: p.name,
+      headline: p.headline || undefined,
+      profileUrl: p.profileUrl.split("?")[0],
+      source: "hiring_team",
+    }));
+}
+
+// Text des ersten Fallbacks mit Treffer; wartet vorher bis zu `timeout`, dass überhaupt einer auftaucht
+async function readFieldText(page: Page, field: SelectorField, timeout: number): Promise<string> {
+  await page.locator(anyOf(field)).first().waitFor({ timeout }).catch(() => {});
+  const resolved = await resolveSelector(page, field);
+  if (!resolved) return "";
+  return normalizeText(await resolved.locator.textContent({ timeout }).catch(() => ""));
+}
+
+async function readJobPageDetails(page: Page, runStartedAt: Date) {
+  const fields = activeSelectorProfile().fields;
+
   // Wichtig: warten bis Job-Header wirklich da ist
-  await page
-    .locator(
-      [
-        "h1",
-        ".jobs-unified-top-card__job-title",
-        ".job-details-jobs-unified-top-card__job-title",
-      ].join(",")
-    )
-    .first()
-    .waitFor({ timeout: 10_000 })
-    .catch(() => {});
-
-  const titleLoc = page
-    .locator(
-      [
-        ".jobs-unified-top-card__job-title",
-        ".job-details-jobs-unified-top-card__job-title",
-        "h1",
-      ].join(",")
-    )
-    .first();
-
-  const companyLoc = page
-    .locator(
-      [
-        ".jobs-unified-top-card__company-name",
-        ".job-details-jobs-unified-top-card__company-name",
-        'a[data-control-name="company_link"]',
-      ].join(",")
-    )
-    .first();
+  await page.locator(anyOf(fields.jobHeader)).first().waitFor({ timeout: 10_000 }).catch(() => {});
 
   // Expand description if possible
-  const showMore = page.locator('button:has-text("Mehr anzeigen"), button:has-text("Show more")').first();
+  const showMore = page.locator(anyOf(fields.showMoreButton)).first();
   if (await showMore.isVisible({ timeout: 800 }).catch(() => false)) {
     await showMore.click({ timeout: 1_500 }).catch(() => {});
     await page.waitForTimeout(200);
   }
 
-  const descLoc = page
-    .locator(
-      [
-        ".jobs-description-content__text",
-        ".jobs-box__html-content",
-        "#job-details",
-        'div[id*="job-details"]',
-      ].join(",")
-    )
-    .first();
-
   const jobTitle =
-    normalizeText(await titleLoc.textContent({ timeout: JOB_SELECTOR_TIMEOUT }).catch(() => "")) ||
+    (await readFieldText(page, fields.jobTitle, JOB_SELECTOR_TIMEOUT)) ||
     normalizeText(await page.title().catch(() => "")) ||
     "(unknown title)";
 
-  const company =
-    normalizeText(await companyLoc.textContent({ timeout: JOB_SELECTOR_TIMEOUT }).catch(() => "")) ||
-    "(unknown company)";
+  const company = (await readFieldText(page, fields.company, JOB_SELECTOR_TIMEOUT)) || "(unknown company)";
 
-  let description = normalizeText(await descLoc.textContent({ timeout: JOB_SELECTOR_TIMEOUT }).catch(() => ""));
+  let description = await readFieldText(page, fields.description, JOB_SELECTOR_TIMEOUT);
   if (!description || description.length < 50) {
     // Fallback: aber gezielt aus dem Job-Details Bereich, nicht aus dem ganzen Body
     description = normalizeText(
       await page
-        .evaluate(() => {
-          const root =
-            document.querySelector('[class*="jobs-description"]') ||
-            document.querySelector('[id*="job-details"]') ||
-            document.querySelector("main");
-          return (root?.textContent || "").slice(0, 15000);
-        })
+        .evaluate((selectors) => {
+          for (const s of selectors) {
+            const root = document.querySelector(s);
+            if (root) return (root.textContent || "").slice(0, 15000);
+          }
+          return "";
+        }, fields.descriptionFallback.selectors)
         .catch(() => "")
     );
   }
 
-  // Posting date best-effort
-  const timeLoc = page.locator("time[datetime]").first();
-  let postingDate = "";
-  const datetime = await timeLoc.getAttribute("datetime").catch(() => null);
-  if (datetime) postingDate = toIsoDateOrEmpty(datetime);
+  const contacts = mergeContacts(await readHiringTeam(page), contactsFromDescription(description));
+  const rawMetadata = await readRawMetadata(page);
+  const metadata = parseJobMetadata(rawMetadata);
 
-  return { jobTitle, company, description, postingDate };
+  // Posting date: time[datetime] wenn vorhanden, sonst sichtbare Texte ("vor 2 Wochen", "Reposted 5 hours ago")
+  const datetime = await page
+    .locator(anyOf(fields.postedDatetime))
+    .first()
+    .getAttribute("datetime", { timeout: JOB_SELECTOR_TIMEOUT })
+    .catch(() => null);
+  const dateTexts = await page
+    .locator(anyOf(fields.postedText))
+    .allTextContents()
+    .catch(() => [] as string[]);
+  const posting = parsePostingDate(
+    datetime,
+    [...dateTexts, ...rawMetadata.primaryDescription.split("·")],
+    runStartedAt
+  );
+
+  return { jobTitle, company, description, posting, contacts, metadata };
 }
 
 
-function matchesAIandHR(text: string) {
-  const ai = AI_REGEX.test(text);
-  const hr = HR_REGEX.test(text);
-  return { ai, hr, ok: ai && hr };
+// Wie Collector bzw. Worker den Run beendet haben
+type Outcome = { completion: FetchCompletion; reason: string; pageState?: PageStateResult };
+
+function throwIfCancelled(signal: AbortSignal | undefined) {
+  if (signal?.aborted) {
+    throw new RunCancelledError();
+  }
 }
 
-async function withHardTimeout<T>(p: Promise<T>, ms: number): Promise<T> {
-  return new Promise<T>((resolve, reject) => {
-    const t = setTimeout(() => reject(new Error(`TIMEOUT: Job fetch exceeded ${ms}ms`)), ms);
-    p.then((v) => {
-      clearTimeout(t);
-      resolve(v);
-    }).catch((e) => {
-      clearTimeout(t);
-      reject(e);
-    });
-  });
+type HardTimeout<T> = {
+  ms: number;
+  stop: () => void; // Collector/Worker anhalten
+  partial: () => T; // Teilergebnis nach dem Stopp
+  abandon: () => void; // Collector/Worker haben in der Gnadenfrist nicht aufgehört
+};
+
+function settlesWithin(p: Promise<unknown>, ms: number): Promise<boolean> {
+  let t: ReturnType<typeof setTimeout> | undefined;
+  const expired = new Promise<boolean>((resolve) => (t = setTimeout(() => resolve(false), ms)));
+  return Promise.race([p.then(() => true, () => true), expired]).finally(() => clearTimeout(t));
+}
+
+async function withHardTimeout<T>(p: Promise<T>, timeout: HardTimeout<T>): Promise<T> {
+  const TIMED_OUT = Symbol("timed out");
+  let t: ReturnType<typeof setTimeout> | undefined;
+  const expired = new Promise<typeof TIMED_OUT>((resolve) => (t = setTimeout(() => resolve(TIMED_OUT), timeout.ms)));
+  const first = await Promise.race([p, expired]).finally(() => clearTimeout(t));
+  if (first !== TIMED_OUT) return first;
+
+  // Kein reject bei Timeout: erst stoppen und auf die laufenden Pages warten, dann das Teilergebnis liefern.
+  // Sonst bekäme der nächste Run aus dem Pool einen Context, in dem dieser Run noch navigiert.
+  timeout.stop();
+  if (!(await settlesWithin(p, HARD_TIMEOUT_GRACE_MS))) timeout.abandon();
+  return timeout.partial();
 }
 
-export async function fetchLinkedInJobsAiHr(page: Page): Promise<ApiJob[]> {
+export async function fetchLinkedInJobsAiHr(
+  page: Page,
+  profile: SearchProfile = DEFAULT_SEARCH_PROFILE,
+  options: FetchOptions = {}
+): Promise<FetchResult> {
   page.setDefaultTimeout(DEFAULT_TIMEOUT);
 
-  return withHardTimeout(
-    (async () => {
-      console.log(`🌍 Opening jobs search: ${SEARCH_URL}`);
-      await gotoWithTimeout(page, SEARCH_URL, NAV_TIMEOUT_SEARCH_MS, "search");
-      await handleConsentIfPresent(page);
-
-      const state0 = await waitForJobsOrDetectBlock(page);
-      if (state0 === "BLOCKED") {
-        throw new Error(
-          "BLOCKED_OR_NO_JOBS: LinkedIn did not render job links (possible verification/anti-bot). Try HEADLESS=false."
-        );
+  const { signal, onProgress } = options;
+  const runStartedAt = new Date();
+  const detailConcurrency = Math.max(1, options.detailConcurrency ?? DETAIL_CONCURRENCY);
+  const pacer = createPacer(options.pacing, { sessionKey: options.sessionKey, signal });
+  const searchUrl = buildSearchUrl(profile);
+  const matchExpr = parseMatchExpression(profile.matchExpression);
+  const scoreJob = createScorer(profile.scoring, runStartedAt);
+  const maxResults = profile.maxResults;
+
+  const seen = new Set<string>(); // Job-IDs
+  const pending: { url: string; page: number }[] = []; // gesammelte Jobs, die noch kein Worker geöffnet hat
+  const jobs: ApiJob[] = [];
+  let timedOut = false;
+  let finished = false;
+  let collecting = true;
+  // Collector blockiert/abgebrochen -> Worker sofort stoppen
+  let stopWorkers = false;
+  let currentPage = 1;
+  let currentRound = 0;
+  // ein Worker ist auf Rate-Limit oder eine Sperrseite gestoßen -> Teilergebnis
+  let workerOutcome = null as Outcome | null;
+
+  const finish = (completion: FetchCompletion, reason: string, pageState?: PageStateResult): FetchResult => {
+    // nach einem Hard-Timeout kann der Run selbst noch in der Gnadenfrist fertig werden; es gilt dann timed_out
+    if (!finished) console.log(`✅ Done (${completion}). Jobs matched (${profile.name}): ${jobs.length}`);
+    finished = true;
+    const ranked = sortJobs([...jobs], profile.sort);
+    return { jobs: ranked, completion, reason, ...(pageState ? { pageState } : {}), pacing: { ...pacer.stats } };
+  };
+
+  // Sperr-/Drossel-/unbekannter Zustand mitten im Run -> Teilergebnis statt Fehler
+  const midRunOutcome = (pageState: PageStateResult, where: string): Outcome => {
+    const evidence = pageState.evidence.join(", ");
+    if (pageState.state === "RATE_LIMITED") {
+      return { completion: "rate_limited", reason: `RATE_LIMITED on ${where} (${evidence}).`, pageState };
+    }
+    // weder Jobs noch eine bekannte Sperre: die Seite liefert nichts mehr, ist aber kein Block
+    if (pageState.state === "UNKNOWN") {
+      return { completion: "stagnant", reason: `UNKNOWN_PAGE_STATE on ${where} (${evidence}).`, pageState };
+    }
+    const reason = `BLOCKED_MIDRUN: ${pageState.state} on ${where} (${evidence}).`;
+    return { completion: "blocked", reason, pageState };
+  };
+
+  const reportProgress = () =>
+    onProgress?.({
+      page: currentPage,
+      maxPages: profile.maxPages,
+      round: currentRound,
+      maxRounds: MAX_SCROLL_ROUNDS,
+      seen: seen.size,
+      pending: pending.length,
+      matched: jobs.length,
+      pacing: { ...pacer.stats },
+      jobs: [...jobs],
+    });
+
+  const shouldStop = () => timedOut || stopWorkers || jobs.length >= maxResults || !!signal?.aborted;
+
+  const captureFailure = async (p: Page, step: string) => {
+    if (!signal?.aborted) await options.diagnostics?.capture(p, step);
+  };
+
+  // Navigation auf eine Ergebnisseite über die Pacing-Policy (Rate-Limit, Retry mit Backoff)
+  const openSearchPage = async (url: string, step: string, tag: string): Promise<number | null> => {
+    const status = await pacer
+      .pageView(step, () => gotoWithTimeout(page, url, NAV_TIMEOUT_SEARCH_MS, tag))
+      .catch(async (e) => {
+        if (!(e instanceof RateLimitedError)) await captureFailure(page, step);
+        throw e;
+      });
+    await handleConsentIfPresent(page, pacer);
+    return status;
+  };
+
+  // Scrollt eine Ergebnisseite durch und sammelt neue Job-URLs (keine Navigation weg von der Liste).
+  // Liefert die Anzahl neu gefundener Job-IDs bzw. den Seitenzustand, wenn keine Jobs angezeigt werden.
+  const collectPage = async (pageNo: number, status: number | null): Promise<number | PageStateResult> => {
+    let stagnant = 0;
+    let newOnPage = 0;
+
+    for (let round = 0; round < MAX_SCROLL_ROUNDS; round++) {
+      if (shouldStop()) break;
+      currentRound = round + 1;
+      reportProgress();
+      console.log(
+        `🧭 Page ${pageNo}/${profile.maxPages} round ${round + 1}/${MAX_SCROLL_ROUNDS} ` +
+          `(seen=${seen.size}, pending=${pending.length}, jobs=${jobs.length})`
+      );
+
+      await handleConsentIfPresent(page, pacer);
+
+      const pageState = await waitForSearchState(page, pacer, status);
+      if (pageState.state !== "OK") return pageState;
+
+      const prevSeen = seen.size;
+      const hrefs = await collectJobUrls(page);
+      for (const jobUrl of hrefs) {
+        // Dedupe über die Job-ID: dieselbe Stelle taucht auf mehreren Seiten / mit anderem Slug auf
+        const key = jobIdFromUrl(jobUrl) || jobUrl;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        pending.push({ url: jobUrl, page: pageNo });
       }
+      newOnPage += seen.size - prevSeen;
+      console.log(`   ↳ visible hrefs: ${hrefs.length}, new: ${seen.size - prevSeen}`);
 
-      const seen = new Set<string>();
-      const jobs: ApiJob[] = [];
+      // Stagnation: nach dem Scroll der vorherigen Runde kamen keine neuen hrefs dazu -> nächste Seite
+      if (round > 0 && seen.size === prevSeen) stagnant++;
+      else stagnant = 0;
+      if (stagnant >= STAGNANT_ROUNDS_PER_PAGE) break;
 
-      let stagnant = 0;
-      let lastSeen = 0;
+      // ✅ WICHTIG: Scroller immer neu holen (LinkedIn rendert die Liste neu)
+      await scrollLeft(page, await findLeftListScroller(page), 2200, pacer);
+    }
 
-      for (let round = 0; round < MAX_SCROLL_ROUNDS; round++) {
-        console.log(`🧭 Round ${round + 1}/${MAX_SCROLL_ROUNDS} (seen=${seen.size}, jobs=${jobs.length})`);
+    return newOnPage;
+  };
 
-        await handleConsentIfPresent(page);
+  // Blättert über `start=` durch die Ergebnisseiten (Seite 1 ist beim Start schon geladen)
+  const collectResultPages = async (status1: number | null): Promise<Outcome> => {
+    for (let pageNo = 1; pageNo <= profile.maxPages; pageNo++) {
+      if (shouldStop()) break;
+      currentPage = pageNo;
+      const pageUrl = buildSearchUrl(profile, pageNo);
 
-        const state = await waitForJobsOrDetectBlock(page);
-        if (state === "BLOCKED") {
-          throw new Error("BLOCKED_MIDRUN: verification/anti-bot detected.");
-        }
+      let status = status1;
+      if (pageNo > 1) {
+        console.log(`📄 Next results page ${pageNo}: ${pageUrl}`);
+        status = await openSearchPage(pageUrl, `search-page-${pageNo}`, "search-page");
+      }
 
-        // ✅ WICHTIG: IMMER neu holen (nicht über goto hinweg wiederverwenden!)
-        const scroller = await findLeftListScroller(page);
-
-        const hrefsRaw = await collectLeftHrefs(page, scroller);
-        const hrefs = hrefsRaw
-          .map((h) => h?.trim())
-          .filter(Boolean)
-          .map((h) => normalizeJobUrl(h!))
-          .filter(Boolean) as string[];
-
-        console.log(`   ↳ visible hrefs: ${hrefs.length}`);
-
-        for (const jobUrl of hrefs) {
-          if (jobs.length >= MAX_RESULTS_TO_PROCESS) break;
-          if (seen.has(jobUrl)) continue;
-
-          seen.add(jobUrl);
-          console.log(`➡️ Open job: ${jobUrl}`);
-
-          try {
-            await gotoWithTimeout(page, jobUrl, NAV_TIMEOUT_JOB_MS, "job");
-            await page.waitForTimeout(350);
-
-            const details = await readJobPageDetails(page);
-            const haystack = `${details.jobTitle}\n${details.company}\n${details.description}`;
-            const m = matchesAIandHR(haystack);
-
-            if (m.ok) {
-              jobs.push({
-                jobTitle: details.jobTitle,
-                description: details.description,
-                link: jobUrl,
-                contact: "",
-                company: details.company,
-                postingDate: details.postingDate,
-              });
-              console.log(`   ✅ match (jobs=${jobs.length})`);
-              console.log("📌 FOUND JOB:", details.jobTitle, "-", details.company);
-            } else {
-              console.log(`   ⏭️ no match`);
-            }
-          } catch (e: any) {
-            console.warn(`   ⚠️ job failed: ${String(e?.message ?? e)}`);
-          } finally {
-            // ✅ Egal was passiert: zurück zur Ergebnisliste
-            await gotoWithTimeout(page, SEARCH_URL, NAV_TIMEOUT_SEARCH_MS, "search-back").catch(() => {});
-            await page.waitForTimeout(300);
-          }
+      let newOnPage = await collectPage(pageNo, status);
+      // Checkpoint/Drosselung: Session pausieren und die Seite einmal neu laden, erst dann aufgeben
+      if (
+        typeof newOnPage !== "number" &&
+        isTransientPageState(newOnPage.state) &&
+        !shouldStop() &&
+        (await pacer.pauseAfterBlock())
+      ) {
+        console.log(`🔄 Reloading results page ${pageNo} after the pause`);
+        status = await openSearchPage(pageUrl, `search-page-${pageNo}`, "search-page");
+        newOnPage = await collectPage(pageNo, status);
+      }
+      if (typeof newOnPage !== "number") {
+        if (newOnPage.state === "NO_RESULTS") {
+          return { completion: "complete", reason: `No more results after page ${pageNo - 1}.` };
         }
+        console.warn(`🧱 ${newOnPage.state} on results page ${pageNo} -> returning partial results`);
+        await captureFailure(page, `search-page-${pageNo}`);
+        return midRunOutcome(newOnPage, `page ${pageNo}, round ${currentRound}`);
+      }
 
-        if (jobs.length >= MAX_RESULTS_TO_PROCESS) break;
+      // LinkedIn zeigt jenseits des Endes oft wieder dieselben Jobs -> keine neuen IDs = fertig
+      if (newOnPage === 0 && !shouldStop()) {
+        console.log(`🛑 Stagnant (page ${pageNo} had no new jobs) -> stopping`);
+        return { completion: "stagnant", reason: `Results page ${pageNo} contained no new jobs.` };
+      }
+    }
 
-        // --- NEU: Stagnation erst nach echtem Scroll prüfen ---
-        const prevSeen = seen.size;
+    return { completion: "complete", reason: `Processed ${currentPage} results page(s).` };
+  };
 
-        // scroll (Scroller neu holen!)
-        const scrollerAfter = await findLeftListScroller(page);
-        await scrollLeft(page, scrollerAfter, 2200);
+  const collectHrefs = async (status1: number | null): Promise<Outcome> => {
+    try {
+      return await collectResultPages(status1);
+    } catch (e) {
+      if (e instanceof RateLimitedError) {
+        console.warn(`🐢 ${e.message} -> returning partial results`);
+        return { completion: "rate_limited", reason: e.message };
+      }
+      // ab Seite 2 (Timeout trotz Retries, unbekannter Fehler der Seite): Jobs von Seite 1.. behalten
+      if (!(e instanceof AppError) || e instanceof RunCancelledError || signal?.aborted || currentPage <= 1) throw e;
+      console.warn(`⚠️ Results page ${currentPage} failed (${e.code}) -> returning partial results`);
+      return { completion: "error", reason: `${e.code} on results page ${currentPage}: ${e.message}` };
+    }
+  };
 
-        // nach scroll nochmal hrefs sammeln, um sicher zu sein, dass sich was geändert hat
-        const scrollerCheck = await findLeftListScroller(page);
-        const hrefsAfterRaw = await collectLeftHrefs(page, scrollerCheck);
+  // Liest Job-Details in einer eigenen Page; die Suchseite behält ihre Scroll-Position
+  const detailWorker = async (workerIndex: number) => {
+    const workerPage = await page.context().newPage();
+    workerPage.setDefaultTimeout(DEFAULT_TIMEOUT);
 
-        const hrefsAfter = hrefsAfterRaw
-        .map((h) => h?.trim())
-        .filter(Boolean)
-        .map((h) => normalizeJobUrl(h!))
-        .filter(Boolean) as string[];
+    try {
+      // Worker zeitversetzt starten, damit nicht alle gleichzeitig navigieren
+      for (let i = 0; i < workerIndex; i++) await pacer.pageDelay();
 
-        const uniqueAfter = new Set(hrefsAfter);
+      for (;;) {
+        if (shouldStop()) return;
 
-        console.log(`   ↳ after scroll unique hrefs: ${uniqueAfter.size} (seen=${seen.size})`);
+        const next = pending.shift();
+        if (!next) {
+          if (!collecting) return;
+          await workerPage.waitForTimeout(250);
+          continue;
+        }
 
-        // Wenn nach scroll immer noch nichts Neues, erst dann stagnation zählen
-        if (seen.size === prevSeen) stagnant++;
-        else stagnant = 0;
+        const { url: jobUrl, page: resultPage } = next;
+        console.log(`➡️ [w${workerIndex + 1}] Open job (page ${resultPage}): ${jobUrl}`);
+
+        try {
+          const status = await pacer.pageView(`job ${jobIdFromUrl(jobUrl)}`, () =>
+            gotoWithTimeout(workerPage, jobUrl, NAV_TIMEOUT_JOB_MS, "job")
+          );
+          await pacer.actionDelay();
+
+          // Sperrseite statt Job: nicht weiter "Jobs" auslesen, sondern den Run mit Teilergebnis beenden
+          const pageState = await classifyPage(workerPage, { status, content: "jobHeader" });
+          if (pageState.state !== "OK" && pageState.state !== "UNKNOWN" && pageState.state !== "NO_RESULTS") {
+            console.warn(`   🧱 ${pageState.state} on job page (${pageState.evidence.join(", ")})`);
+            await captureFailure(workerPage, `job-${jobIdFromUrl(jobUrl) || "unknown"}`);
+            pending.unshift(next);
+            workerOutcome ??= midRunOutcome(pageState, `job ${jobIdFromUrl(jobUrl)}`);
+            stopWorkers = true;
+            return;
+          }
 
-        if (stagnant >= 5) {
-        console.log(`🛑 Stagnant (no new jobs after multiple scrolls) -> stopping`);
-        break;
+          const details = await readJobPageDetails(workerPage, runStartedAt);
+          const doc = { title: details.jobTitle, company: details.company, description: details.description };
+          const m = evaluateMatch(matchExpr, doc);
+
+          const rejection = m.ok ? jobFilterRejection(details.metadata, profile) : null;
+          const { score, scoreBreakdown } = scoreJob(doc, m.hits, details.posting.date);
+          const belowMinScore = profile.minScore !== undefined && score < profile.minScore;
+
+          if (m.ok && !rejection && !belowMinScore && jobs.length < maxResults) {
+            jobs.push({
+              jobId: jobIdFromUrl(jobUrl),
+              jobTitle: details.jobTitle,
+              description: details.description,
+              link: jobUrl,
+              contact: formatContacts(details.contacts),
+              contacts: details.contacts,
+              company: details.company,
+              postingDate: details.posting.date,
+              postingDateSource: details.posting.source,
+              reposted: details.posting.reposted,
+              ...details.metadata,
+              matches: m.hits,
+              score,
+              scoreBreakdown,
+              resultPage,
+            });
+            options.onJobMatched?.(jobs[jobs.length - 1]);
+            console.log(`   ✅ match (jobs=${jobs.length}, score ${score}): ${formatMatchHits(m.hits)}`);
+            console.log("📌 FOUND JOB:", details.jobTitle, "-", details.company);
+          } else if (rejection) {
+            console.log(`   ⏭️ filtered: ${rejection}`);
+          } else if (m.ok && belowMinScore) {
+            console.log(`   ⏭️ score ${score} below minScore ${profile.minScore}`);
+          } else if (!m.ok) {
+            console.log(`   ⏭️ no match${m.hits.length ? ` (hits: ${formatMatchHits(m.hits)})` : ""}`);
+          }
+        } catch (e: any) {
+          if (e instanceof RateLimitedError) {
+            // Job nicht verlieren: bleibt in `pending`, der Run endet mit dem Teilergebnis
+            pending.unshift(next);
+            workerOutcome ??= { completion: "rate_limited", reason: e.message };
+            stopWorkers = true;
+            return;
+          }
+          console.warn(`   ⚠️ job failed: ${String(e?.message ?? e)}`);
+          await captureFailure(workerPage, `job-${jobIdFromUrl(jobUrl) || "unknown"}`);
+        } finally {
+          reportProgress();
         }
 
+        await pacer.pageDelay();
       }
+    } finally {
+      await workerPage.close().catch(() => {});
+    }
+  };
 
-      console.log(`✅ Done. Jobs matched (AI+HR): ${jobs.length}`);
-      return jobs;
+  return withHardTimeout(
+    (async (): Promise<FetchResult> => {
+      throwIfCancelled(signal);
+      console.log(`🌍 Opening jobs search (${profile.name}): ${searchUrl}`);
+      let status1 = await openSearchPage(searchUrl, "search-page-1", "search");
+
+      let state0 = await waitForSearchState(page, pacer, status1);
+      if (isTransientPageState(state0.state) && (await pacer.pauseAfterBlock())) {
+        console.log("🔄 Reloading the search after the pause");
+        status1 = await openSearchPage(searchUrl, "search-page-1", "search");
+        state0 = await waitForSearchState(page, pacer, status1);
+      }
+      if (state0.state === "NO_RESULTS") {
+        console.log(`📭 No results for this search (${state0.evidence.join(", ")})`);
+        return finish("no_results", "NO_RESULTS: LinkedIn found no jobs for this search.", state0);
+      }
+      if (state0.state !== "OK") {
+        console.warn(`🧱 ${state0.state} on the first results page (${state0.evidence.join(", ")})`);
+        await captureFailure(page, "search-page-1");
+        throw pageStateError(state0);
+      }
+
+      const { pageDelayMinMs, pageDelayMaxMs, maxPageViewsPerMinute } = pacer.config;
+      console.log(
+        `👷 Detail workers: ${detailConcurrency} ` +
+          `(delay ${pageDelayMinMs}-${pageDelayMaxMs}ms, max ${maxPageViewsPerMinute} page views/min)`
+      );
+      const workers = Array.from({ length: detailConcurrency }, (_, i) => detailWorker(i));
+
+      let outcome: Outcome;
+      try {
+        outcome = await collectHrefs(status1);
+      } catch (e) {
+        stopWorkers = true;
+        throw e;
+      } finally {
+        collecting = false;
+        if (stopWorkers) await Promise.allSettled(workers);
+      }
+
+      if (outcome.completion === "blocked" || outcome.completion === "rate_limited") {
+        stopWorkers = true;
+        await Promise.allSettled(workers);
+        return finish(outcome.completion, outcome.reason, outcome.pageState);
+      }
+
+      // restliche gesammelte hrefs abarbeiten
+      await Promise.allSettled(workers);
+      throwIfCancelled(signal);
+
+      if (workerOutcome) {
+        return finish(workerOutcome.completion, workerOutcome.reason, workerOutcome.pageState);
+      }
+      if (jobs.length >= maxResults) {
+        return finish("max_results", `Reached maxResults=${maxResults}.`);
+      }
+      return finish(outcome.completion, outcome.reason);
     })(),
-    HARD_RUN_TIMEOUT_MS
+    {
+      ms: HARD_RUN_TIMEOUT_MS,
+      stop: () => {
+        timedOut = true;
+        console.warn(`⏱️ Hard timeout (${HARD_RUN_TIMEOUT_MS}ms) -> stopping collector and workers`);
+      },
+      partial: () => finish("timed_out", `TIMEOUT: Job fetch exceeded ${HARD_RUN_TIMEOUT_MS}ms.`),
+      abandon: () => {
+        console.warn(`⚠️ Workers still busy ${HARD_TIMEOUT_GRACE_MS}ms after the timeout -> closing the context`);
+        discardContext(page.context());
+      },
+    }
   );
 }
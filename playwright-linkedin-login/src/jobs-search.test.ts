@@ -0,0 +1,57 @@
+import "./testing/env";
+import assert from "node:assert/strict";
+import fs from "fs";
+import { after, before, describe, it } from "node:test";
+import { Browser, chromium } from "playwright";
+import { searchJobsAndWriteTxt } from "./jobs-search";
+import { searchProfileFromInput } from "./search-profile";
+import { FixtureServer, startFixtureServer } from "./testing/fixture-server";
+
+describe("searchJobsAndWriteTxt against the fixture server", () => {
+  let fixtures: FixtureServer;
+  let browser: Browser;
+
+  const search = async (formats: string[] = []) => {
+    const page = await browser.newPage();
+    try {
+      return await searchJobsAndWriteTxt(page, searchProfileFromInput({ maxPages: 1 }), { formats });
+    } finally {
+      await page.context().close();
+    }
+  };
+
+  before(async () => {
+    fixtures = await startFixtureServer();
+    process.env.LINKEDIN_BASE_URL = fixtures.baseUrl;
+    browser = await chromium.launch({ headless: true });
+  });
+
+  after(async () => {
+    await browser?.close();
+    await fixtures?.close();
+  });
+
+  it("writes TXT, JSON and extra formats to OUTPUT_DIR and marks repeated jobs as seen", async () => {
+    const first = await search(["csv"]);
+    assert.equal(first.completion, "complete");
+    assert.ok(first.jobs.length > 0);
+    assert.ok(first.jobs.every((j) => j.status === "new"));
+    assert.ok(first.txtPath.startsWith(process.env.OUTPUT_DIR!));
+
+    const txt = await fs.promises.readFile(first.txtPath, "utf8");
+    assert.match(txt, /Title: AI Recruiter/);
+    assert.match(txt, /Company: Acme GmbH/);
+    assert.match(txt, /Posting Date: 2026-10-01 \(exact\)/);
+
+    const json = JSON.parse(await fs.promises.readFile(first.jsonPath, "utf8"));
+    assert.equal(json.length, first.jobs.length);
+
+    const csv = first.exports.find((e) => e.format === "csv");
+    assert.ok(csv, "CSV export written");
+    assert.equal((await fs.promises.readFile(csv.path, "utf8")).trimEnd().split("\r\n").length, first.jobs.length + 1);
+
+    const second = await search();
+    assert.equal(second.jobs.length, first.jobs.length);
+    assert.ok(second.jobs.every((j) => j.status === "seen"));
+  });
+});
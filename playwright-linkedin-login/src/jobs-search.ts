@@ -1,36 +1,46 @@
 import fs from "fs";
 import path from "path";
 import { Page } from "playwright";
-import { ApiJob, fetchLinkedInJobsAiHr } from "./jobs-ai-hr";
+import { FetchOptions, FetchResult, fetchLinkedInJobsAiHr } from "./jobs-ai-hr";
+import { recordJobs } from "./job-store";
+import { ExportContext, getExporter } from "./exporters";
+import { DEFAULT_SEARCH_PROFILE, SearchProfile } from "./search-profile";
 
 const OUTPUT_DIR = process.env.OUTPUT_DIR || "output";
 
-function asTxt(jobs: ApiJob[]): string {
-  return jobs
-    .map((job, index) => {
-      return [
-        `#${index + 1}`,
-        `Title: ${job.jobTitle}`,
-        `Company: ${job.company}`,
-        `Link: ${job.link}`,
-        `Posting Date: ${job.postingDate || ""}`,
-        `Description: ${job.description}`,
-      ].join("\n");
-    })
-    .join("\n\n---\n\n");
-}
+export type ExportedFile = {
+  format: string;
+  path: string;
+};
 
-export async function searchJobsAndWriteTxt(page: Page): Promise<{ jobs: ApiJob[]; txtPath: string; jsonPath: string }> {
-  const jobs = await fetchLinkedInJobsAiHr(page);
+export type SearchAndWriteOptions = FetchOptions & {
+  // zusätzliche Formate neben TXT und JSON (src/exporters.ts), z. B. ["csv", "html"]
+  formats?: string[];
+};
 
-  await fs.promises.mkdir(OUTPUT_DIR, { recursive: true });
+export async function searchJobsAndWriteTxt(
+  page: Page,
+  profile: SearchProfile = DEFAULT_SEARCH_PROFILE,
+  options: SearchAndWriteOptions = {}
+): Promise<FetchResult & { txtPath: string; jsonPath: string; exports: ExportedFile[] }> {
+  const { formats = [], ...fetchOptions } = options;
+  // unbekannte Formate vor dem Browser-Run ablehnen
+  const exporters = Array.from(new Set(["txt", "json", ...formats].map((f) => getExporter(f))));
 
-  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
-  const txtPath = path.join(OUTPUT_DIR, `linkedin-jobs-${stamp}.txt`);
-  const jsonPath = path.join(OUTPUT_DIR, `linkedin-jobs-${stamp}.json`);
+  const result = await fetchLinkedInJobsAiHr(page, profile, fetchOptions);
+  const jobs = await recordJobs(result.jobs, profile.name);
+
+  await fs.promises.mkdir(OUTPUT_DIR, { recursive: true });
 
-  await fs.promises.writeFile(txtPath, asTxt(jobs), "utf8");
-  await fs.promises.writeFile(jsonPath, JSON.stringify(jobs, null, 2), "utf8");
+  const context: ExportContext = { profile: profile.name, generatedAt: new Date().toISOString() };
+  const stamp = context.generatedAt.replace(/[:.]/g, "-");
+  const exports: ExportedFile[] = [];
+  for (const exporter of exporters) {
+    const filePath = path.join(OUTPUT_DIR, `linkedin-jobs-${stamp}.${exporter.extension}`);
+    await fs.promises.writeFile(filePath, exporter.render(jobs, context), "utf8");
+    exports.push({ format: exporter.format, path: filePath });
+  }
 
-  return { jobs, txtPath, jsonPath };
+  const pathOf = (format: string) => exports.find((e) => e.format === format)!.path;
+  return { ...result, jobs, txtPath: pathOf("txt"), jsonPath: pathOf("json"), exports };
 }
@@ -0,0 +1,16 @@
+// FILE: src/linkedin-url.ts
+//
+// Basis-URL für alle LinkedIn-Aufrufe (Suche, Feed-Check, Login, Job-Links).
+// LINKEDIN_BASE_URL kann z. B. auf den lokalen Fixture-Server zeigen (src/testing/fixture-server.ts).
+
+const DEFAULT_BASE_URL = "https://www.linkedin.com";
+
+// Bei jedem Aufruf gelesen (nicht beim Laden): Tests setzen die URL erst, wenn der Fixture-Server seinen Port kennt
+export function linkedInBaseUrl(): string {
+  return (process.env.LINKEDIN_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, "");
+}
+
+/** Absolute URL for a LinkedIn path like `/feed/`. */
+export function linkedInUrl(pathname: string): string {
+  return `${linkedInBaseUrl()}${pathname.startsWith("/") ? "" : "/"}${pathname}`;
+}
@@ -0,0 +1,77 @@
+import "./testing/env";
+import assert from "node:assert/strict";
+import fs from "fs";
+import { after, before, describe, it } from "node:test";
+import { BlockedError, LoginNotFoundError, VerificationFailedError } from "./errors";
+import { closeLogins, credentialsFromInput, getLogin, startLogin, verifyLogin } from "./login-flow";
+import { getSession } from "./sessions";
+import { FIXTURE_PIN, FixtureServer, startFixtureServer } from "./testing/fixture-server";
+
+const CREDENTIALS = { email: "jane@example.com", password: "not-a-real-password", label: "Jane (Recruiting)" };
+
+describe("login flow against the fixture server", () => {
+  let fixtures: FixtureServer;
+
+  before(async () => {
+    fixtures = await startFixtureServer();
+    process.env.LINKEDIN_BASE_URL = fixtures.baseUrl;
+  });
+
+  after(async () => {
+    await closeLogins();
+    await fixtures?.close();
+  });
+
+  it("logs in, saves the storageState and registers the session", async () => {
+    fixtures.scenario = "default";
+    const login = await startLogin("fixture-direct", CREDENTIALS);
+    assert.equal(login.state, "succeeded");
+
+    const session = await getSession("fixture-direct");
+    assert.ok(fs.existsSync(session.location));
+    assert.equal(session.label, "Jane (Recruiting)");
+    assert.equal(session.status, "healthy");
+  });
+
+  it("waits for the PIN, keeps the login pending on a wrong code and finishes with the right one", async () => {
+    fixtures.scenario = "verification";
+    const pending = await startLogin("fixture-pin", CREDENTIALS);
+    assert.equal(pending.state, "awaiting_verification");
+    assert.equal(pending.verification?.attemptsLeft, 3);
+    assert.match(pending.verification?.url ?? "", /\/checkpoint\/challenge\/verify/);
+
+    await assert.rejects(verifyLogin("fixture-pin", "000000"), (e) => {
+      assert.ok(e instanceof VerificationFailedError);
+      assert.equal(e.details.attemptsLeft, 2);
+      return true;
+    });
+    assert.equal(getLogin("fixture-pin")?.state, "awaiting_verification");
+
+    const done = await verifyLogin("fixture-pin", FIXTURE_PIN);
+    assert.equal(done.state, "succeeded");
+    assert.equal((await getSession("fixture-pin")).label, "Jane (Recruiting)");
+  });
+
+  it("fails with BLOCKED when LinkedIn shows a checkpoint without PIN field", async () => {
+    fixtures.scenario = "checkpoint";
+    await assert.rejects(startLogin("fixture-blocked", CREDENTIALS), BlockedError);
+    assert.equal(getLogin("fixture-blocked")?.state, "failed");
+    assert.equal(getLogin("fixture-blocked")?.errorCode, "BLOCKED");
+  });
+
+  it("rejects a code without pending login and missing credentials", async () => {
+    await assert.rejects(verifyLogin("nobody", FIXTURE_PIN), LoginNotFoundError);
+    const saved = { email: process.env.LINKEDIN_EMAIL, password: process.env.LINKEDIN_PASSWORD };
+    delete process.env.LINKEDIN_EMAIL;
+    delete process.env.LINKEDIN_PASSWORD;
+    try {
+      assert.throws(() => credentialsFromInput({ email: "jane@example.com" }), {
+        code: "INVALID_CREDENTIALS",
+        details: { field: "password" },
+      });
+    } finally {
+      if (saved.email !== undefined) process.env.LINKEDIN_EMAIL = saved.email;
+      if (saved.password !== undefined) process.env.LINKEDIN_PASSWORD = saved.password;
+    }
+  });
+});
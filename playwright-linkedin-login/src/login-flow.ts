@@ -0,0 +1,353 @@
+// FILE: src/login-flow.ts
+//
+// LinkedIn-Login als Service (POST /api/v1/sessions/:name/login) und für `npm run login`:
+// E-Mail + Passwort eingeben; fragt LinkedIn eine PIN per E-Mail/SMS ab, bleibt der Browser im Zustand
+// "awaiting_verification" offen, bis der Code über verifyLogin() kommt. Danach Feed-Check und storageState
+// unter der Session speichern (src/sessions.ts). Pro Session-Name läuft höchstens ein Login.
+
+import { randomUUID } from "crypto";
+import { Browser, chromium, Page } from "playwright";
+import { createDiagnostics, DiagnosticArtifact, Diagnostics } from "./diagnostics";
+import {
+  InvalidInputError,
+  LoginConflictError,
+  LoginFailedError,
+  LoginNotFoundError,
+  toAppError,
+  VerificationFailedError,
+} from "./errors";
+import { linkedInUrl } from "./linkedin-url";
+import { sleep } from "./pacing";
+import { classifyPage, pageStateError, PageStateResult } from "./page-state";
+import { assertLoggedIn } from "./reuse-session";
+import { activeSelectorProfile, anyOf, SelectorField } from "./selectors";
+import { assertSessionName, registerSession, saveSessionState, sessionStore } from "./sessions";
+
+export type LoginState = "running" | "awaiting_verification" | "succeeded" | "failed" | "expired";
+
+export type LoginAttempt = {
+  id: string;
+  session: string;
+  label: string;
+  state: LoginState;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+  // nur bei awaiting_verification
+  verification?: {
+    url: string; // Seite mit der PIN-Abfrage
+    expiresAt: string;
+    attemptsLeft: number;
+  };
+  error?: string;
+  errorCode?: string;
+  retryable?: boolean;
+  // Screenshot/HTML bei Fehlern und unklaren Zuständen, unter DIAGNOSTICS_DIR/login-<id>/
+  diagnostics: DiagnosticArtifact[];
+};
+
+export type LoginCredentials = {
+  email: string;
+  password: string;
+  label?: string; // Default: email
+};
+
+const DEFAULT_TIMEOUT = 60_000;
+const ACTION_TIMEOUT = 20_000;
+// so lange bleibt der Browser für die PIN offen
+const VERIFY_TIMEOUT_MS = Number(process.env.LOGIN_VERIFY_TIMEOUT_MS || 10 * 60_000);
+const MAX_PIN_ATTEMPTS = 3;
+// Checkpoint/Captcha ohne PIN-Feld muss so lange stehen bleiben, bevor der Login aufgibt
+const CHALLENGE_SETTLE_MS = 5_000;
+const POLL_MS = 500;
+const PIN_PATTERN = /^\d{4,8}$/;
+
+type LoginEntry = {
+  attempt: LoginAttempt;
+  browser: Browser;
+  page: Page;
+  diagnostics: Diagnostics;
+  expiryTimer?: NodeJS.Timeout;
+};
+
+type LoginOutcome =
+  | { kind: "logged_in" }
+  | { kind: "pin" }
+  | { kind: "rejected"; evidence: string[] }
+  | { kind: "stuck"; pageState: PageStateResult };
+
+const logins = new Map<string, LoginEntry>();
+
+// wie der Browser-Pool: nur HEADLESS=false startet sichtbar
+function isHeadless(): boolean {
+  return (process.env.HEADLESS ?? "true").toLowerCase() !== "false";
+}
+
+async function firstVisible(page: Page, field: SelectorField): Promise<string | null> {
+  for (const selector of field.selectors) {
+    const visible = await page
+      .locator(selector)
+      .first()
+      .isVisible()
+      .catch(() => false);
+    if (visible) return selector;
+  }
+  return null;
+}
+
+function isFeedUrl(url: string) {
+  try {
+    return /^\/feed\/?$/.test(new URL(url).pathname);
+  } catch {
+    return false;
+  }
+}
+
+// Klick auf ein Formular-Submit und warten, bis die nächste Seite geladen ist (sonst sieht der
+// Outcome-Check noch das alte PIN-Feld)
+async function submitAndWait(page: Page, field: SelectorField) {
+  const navigated = page
+    .waitForEvent("framenavigated", { predicate: (f) => f === page.mainFrame(), timeout: DEFAULT_TIMEOUT })
+    .catch(() => null);
+  await page.locator(anyOf(field)).first().click({ timeout: ACTION_TIMEOUT });
+  await navigated;
+  await page.waitForLoadState("domcontentloaded").catch(() => {});
+}
+
+/**
+ * Polls the page after a submit until it is clearly one of: logged in (feed), PIN prompt,
+ * credentials rejected, or a challenge without PIN field (captcha, app approval) that did
+ * not go away within CHALLENGE_SETTLE_MS.
+ */
+async function waitForLoginOutcome(page: Page): Promise<LoginOutcome> {
+  const fields = activeSelectorProfile().fields;
+  const deadline = Date.now() + DEFAULT_TIMEOUT;
+  let challengeSince = 0;
+
+  for (;;) {
+    if (isFeedUrl(page.url())) return { kind: "logged_in" };
+    if (await firstVisible(page, fields.verificationPin)) return { kind: "pin" };
+
+    const error = await firstVisible(page, fields.loginError);
+    if (error) return { kind: "rejected", evidence: [`loginError: ${error}`] };
+
+    const pageState = await classifyPage(page);
+    if (pageState.state === "CHECKPOINT" || pageState.state === "CAPTCHA" || pageState.state === "RATE_LIMITED") {
+      challengeSince ||= Date.now();
+      if (Date.now() - challengeSince >= CHALLENGE_SETTLE_MS) return { kind: "stuck", pageState };
+    } else {
+      challengeSince = 0;
+    }
+
+    if (Date.now() >= deadline) {
+      // immer noch das Login-Formular: LinkedIn hat die Daten ohne Fehlermeldung abgelehnt
+      if (pageState.state === "LOGGED_OUT") return { kind: "rejected", evidence: pageState.evidence };
+      return { kind: "stuck", pageState };
+    }
+    await sleep(POLL_MS);
+  }
+}
+
+function touch(attempt: LoginAttempt, state: LoginState) {
+  attempt.state = state;
+  attempt.updatedAt = new Date().toISOString();
+  if (state !== "running" && state !== "awaiting_verification") {
+    attempt.finishedAt = attempt.updatedAt;
+    delete attempt.verification;
+  }
+}
+
+async function closeEntry(entry: LoginEntry) {
+  clearTimeout(entry.expiryTimer);
+  await entry.browser.close().catch(() => {});
+}
+
+async function fail(entry: LoginEntry, e: unknown): Promise<never> {
+  const err = toAppError(e);
+  await entry.diagnostics.capture(entry.page, "login");
+  touch(entry.attempt, "failed");
+  entry.attempt.error = err.message;
+  entry.attempt.errorCode = err.code;
+  entry.attempt.retryable = err.retryable;
+  await closeEntry(entry);
+  console.warn(`❌ Login for session ${entry.attempt.session} failed: ${err.message}`);
+  throw err;
+}
+
+async function saveSession(entry: LoginEntry) {
+  const { attempt, page, diagnostics } = entry;
+  await assertLoggedIn(page, diagnostics);
+
+  await saveSessionState(attempt.session, await page.context().storageState());
+  await registerSession(attempt.session, attempt.label);
+
+  touch(attempt, "succeeded");
+  await closeEntry(entry);
+  console.log(`💾 Session ${attempt.session} saved to: ${sessionStore().location(attempt.session)}`);
+}
+
+function awaitVerification(entry: LoginEntry, attemptsLeft: number) {
+  const { attempt } = entry;
+  const expiresAt = attempt.verification?.expiresAt ?? new Date(Date.now() + VERIFY_TIMEOUT_MS).toISOString();
+  touch(attempt, "awaiting_verification");
+  attempt.verification = { url: entry.page.url(), expiresAt, attemptsLeft };
+
+  if (!entry.expiryTimer) {
+    entry.expiryTimer = setTimeout(() => {
+      if (attempt.state !== "awaiting_verification") return;
+      touch(attempt, "expired");
+      attempt.error = "no verification code within the time limit.";
+      attempt.errorCode = "LOGIN_EXPIRED";
+      attempt.retryable = false;
+      void closeEntry(entry);
+      console.warn(`⌛ Login for session ${attempt.session} expired waiting for the verification code`);
+    }, VERIFY_TIMEOUT_MS);
+    entry.expiryTimer.unref();
+  }
+  console.log(`📨 Session ${attempt.session}: LinkedIn asks for a verification code`);
+}
+
+// Ergebnis eines Submits (Login oder PIN) in den Zustand des Logins übersetzen
+async function settle(entry: LoginEntry, outcome: LoginOutcome, attemptsLeft: number): Promise<LoginAttempt> {
+  switch (outcome.kind) {
+    case "logged_in":
+      try {
+        await saveSession(entry);
+      } catch (e) {
+        return fail(entry, e);
+      }
+      return entry.attempt;
+    case "pin":
+      awaitVerification(entry, attemptsLeft);
+      return entry.attempt;
+    case "rejected":
+      return fail(entry, new LoginFailedError("LinkedIn rejected the credentials.", { evidence: outcome.evidence }));
+    case "stuck":
+      return fail(entry, pageStateError(outcome.pageState));
+  }
+}
+
+/** Current or last login of session `name` (kept until the next login of that session). */
+export function getLogin(name: string): LoginAttempt | undefined {
+  return logins.get(name)?.attempt;
+}
+
+/**
+ * Starts a login for session `name` and resolves once it is logged in (state "succeeded",
+ * storageState saved) or waits for a PIN ("awaiting_verification", see verifyLogin).
+ * Throws the typed error of a failed login; the attempt keeps the error for getLogin.
+ * A pending login of the same session is replaced, a running one is a conflict.
+ */
+export async function startLogin(name: string, credentials: LoginCredentials): Promise<LoginAttempt> {
+  assertSessionName(name);
+  const previous = logins.get(name);
+  if (previous?.attempt.state === "running") {
+    throw new LoginConflictError(name, "running", `a login for session ${name} is already running.`);
+  }
+  if (previous) await closeEntry(previous);
+
+  const id = randomUUID();
+  const diagnostics = createDiagnostics(`login-${id}`);
+  const now = new Date().toISOString();
+  const attempt: LoginAttempt = {
+    id,
+    session: name,
+    label: credentials.label || credentials.email,
+    state: "running",
+    createdAt: now,
+    updatedAt: now,
+    diagnostics: diagnostics.artifacts,
+  };
+
+  const browser = await chromium.launch({ headless: isHeadless(), args: ["--disable-dev-shm-usage"] });
+  const page = await (await browser.newContext()).newPage();
+  page.setDefaultTimeout(DEFAULT_TIMEOUT);
+  const entry: LoginEntry = { attempt, browser, page, diagnostics };
+  logins.set(name, entry);
+
+  let outcome: LoginOutcome;
+  try {
+    console.log(`🔑 Login for session ${name} (${attempt.label})...`);
+    const fields = activeSelectorProfile().fields;
+    await page.goto(linkedInUrl("/login"), { waitUntil: "domcontentloaded" });
+
+    const emailInput = page.locator(anyOf(fields.loginForm)).first();
+    await emailInput.waitFor({ state: "visible", timeout: ACTION_TIMEOUT });
+    await emailInput.fill(credentials.email);
+    await page.locator(anyOf(fields.loginPassword)).first().fill(credentials.password);
+    await submitAndWait(page, fields.loginSubmit);
+
+    outcome = await waitForLoginOutcome(page);
+  } catch (e) {
+    return fail(entry, e);
+  }
+
+  return settle(entry, outcome, MAX_PIN_ATTEMPTS);
+}
+
+/**
+ * Enters the verification code of a login in "awaiting_verification". A wrong code keeps
+ * the login pending (VERIFICATION_FAILED with `attemptsLeft`) until the attempts run out.
+ */
+export async function verifyLogin(name: string, code: string): Promise<LoginAttempt> {
+  const entry = logins.get(name);
+  if (!entry) throw new LoginNotFoundError(name);
+
+  const { attempt, page } = entry;
+  if (attempt.state !== "awaiting_verification" || !attempt.verification) {
+    throw new LoginConflictError(name, attempt.state, `login of session ${name} is not waiting for a code.`);
+  }
+  const pin = code.trim();
+  if (!PIN_PATTERN.test(pin)) {
+    throw new InvalidInputError("INVALID_VERIFICATION_CODE", "code must be 4-8 digits", { field: "code" });
+  }
+
+  const attemptsLeft = attempt.verification.attemptsLeft - 1;
+  touch(attempt, "running");
+
+  let outcome: LoginOutcome;
+  try {
+    const fields = activeSelectorProfile().fields;
+    await page.locator(anyOf(fields.verificationPin)).first().fill(pin);
+    await submitAndWait(page, fields.verificationSubmit);
+    outcome = await waitForLoginOutcome(page);
+  } catch (e) {
+    return fail(entry, e);
+  }
+
+  if (outcome.kind === "pin") {
+    // PIN-Seite erneut = falscher Code
+    if (attemptsLeft <= 0) return fail(entry, new VerificationFailedError(0));
+    awaitVerification(entry, attemptsLeft);
+    throw new VerificationFailedError(attemptsLeft);
+  }
+
+  return settle(entry, outcome, attemptsLeft);
+}
+
+/** Reads `email`, `password` and `label` from the request body, falling back to LINKEDIN_EMAIL/PASSWORD. */
+export function credentialsFromInput(input: Record<string, unknown> | undefined | null): LoginCredentials {
+  const field = (key: string, envName: string) => {
+    const value = input?.[key] ?? process.env[envName];
+    if (typeof value !== "string" || !value.trim()) {
+      throw new InvalidInputError("INVALID_CREDENTIALS", `${key} is required (body or ${envName})`, { field: key });
+    }
+    return value;
+  };
+
+  const label = input?.label;
+  if (label !== undefined && typeof label !== "string") {
+    throw new InvalidInputError("INVALID_CREDENTIALS", "label must be a string", { field: "label" });
+  }
+  return { email: field("email", "LINKEDIN_EMAIL").trim(), password: field("password", "LINKEDIN_PASSWORD"), label };
+}
+
+/** Closes the browsers of all pending logins (server shutdown). */
+export async function closeLogins() {
+  for (const entry of logins.values()) {
+    if (entry.attempt.state === "running" || entry.attempt.state === "awaiting_verification") {
+      touch(entry.attempt, "expired");
+    }
+    await closeEntry(entry);
+  }
+}
@@ -0,0 +1,104 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { AppError } from "./errors";
+import { evaluateMatch, MatchDocument, parseMatchExpression } from "./match-expression";
+
+const JOB: MatchDocument = {
+  title: "Senior Talent Acquisition Recruiter",
+  company: "Acme GmbH",
+  description: "Wir nutzen Machine   Learning und KI im Recruiting. Bewerbung per E-Mail.",
+};
+
+function matches(expression: string, doc: MatchDocument = JOB) {
+  return evaluateMatch(parseMatchExpression(expression), doc).ok;
+}
+
+describe("match expressions", () => {
+  it("treats an empty expression as match-all", () => {
+    assert.equal(parseMatchExpression("   "), null);
+    assert.deepEqual(evaluateMatch(null, JOB), { ok: true, hits: [] });
+  });
+
+  it("evaluates terms, operators and precedence", () => {
+    const cases: [string, boolean][] = [
+      ["recruiter", true],
+      ["engineer", false],
+      ["recruiter acme", true], // implizites AND
+      ["recruiter AND engineer", false],
+      ["engineer OR recruiter", true],
+      // AND bindet stärker als OR
+      ["engineer AND acme OR talent", true],
+      ["engineer AND (acme OR talent)", false],
+      ["NOT engineer", true],
+      ["NOT NOT engineer", false],
+      ["recruiter AND NOT company:acme", false],
+      ["recruiter and engineer", false], // kleingeschriebenes "and" ist ein Term
+    ];
+    for (const [expression, expected] of cases) {
+      assert.equal(matches(expression), expected, expression);
+    }
+  });
+
+  it("scopes terms to fields, also for groups", () => {
+    const cases: [string, boolean][] = [
+      ["title:recruiter", true],
+      ["company:recruiter", false],
+      ["desc:learning", true],
+      ["description:learning", true],
+      ["title:(engineer OR talent)", true],
+      ["company:(talent OR engineer)", false],
+      ["TITLE:recruiter", true],
+    ];
+    for (const [expression, expected] of cases) {
+      assert.equal(matches(expression), expected, expression);
+    }
+  });
+
+  it("matches phrases, wildcards and word boundaries case-insensitively", () => {
+    const cases: [string, boolean][] = [
+      ['"machine learning"', true], // beliebiger Whitespace im Text
+      ['"learning machine"', false],
+      ["recruit*", true],
+      ["recruit", false], // Wortgrenze: "Recruiter" ist kein Treffer für "recruit"
+      ["k?", true],
+      ["k??", false],
+      ["e-mail", true],
+      ["MACHINE", true],
+      ["gmb", false],
+    ];
+    for (const [expression, expected] of cases) {
+      assert.equal(matches(expression), expected, expression);
+    }
+    assert.equal(matches("ärzt*", { title: "Ärztin (m/w/d)", company: "", description: "" }), true);
+  });
+
+  it("reports every hit with its field and whether it stood under NOT", () => {
+    const { ok, hits } = evaluateMatch(parseMatchExpression('recruit* AND NOT company:foo AND NOT "KI"'), JOB);
+    assert.equal(ok, false);
+    assert.deepEqual(hits, [
+      { term: "recruit*", field: "title", negated: false },
+      { term: "recruit*", field: "description", negated: false },
+      { term: "KI", field: "description", negated: true },
+    ]);
+  });
+
+  it("rejects syntax errors with INVALID_MATCH_EXPRESSION and the position", () => {
+    const cases: [string, number][] = [
+      ["title:(recruit", 14],
+      ["recruiter)", 9],
+      ['"machine learning', 0],
+      ['""', 0],
+      ["salary:100k", 0],
+      ["recruiter AND", 13],
+      ["OR recruiter", 0],
+      ["()", 1],
+    ];
+    for (const [expression, position] of cases) {
+      assert.throws(
+        () => parseMatchExpression(expression),
+        (e) => e instanceof AppError && e.code === "INVALID_MATCH_EXPRESSION" && e.details?.position === position,
+        expression
+      );
+    }
+  });
+});
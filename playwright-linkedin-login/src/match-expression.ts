@@ -0,0 +1,252 @@
+// FILE: src/match-expression.ts
+//
+// Kleine Query-Sprache für den Match-Filter:
+//
+//   title:(recruit* OR talent) AND desc:"machine learning" AND NOT company:Acme
+//
+// - AND / OR / NOT (groß geschrieben), Klammern, implizites AND zwischen Termen
+// - "Phrasen" in Anführungszeichen
+// - Wildcards: * (beliebig viele Wortzeichen), ? (genau ein Wortzeichen)
+// - Feld-Scope: title:, company:, desc: / description: (ohne Scope = alle Felder)
+//
+// Terme matchen case-insensitive auf Wortgrenzen. Ausdruck wird einmal geparst
+// und dann pro Job ausgewertet.
+
+import { InvalidMatchExpressionError } from "./errors";
+
+export type MatchField = "title" | "company" | "description";
+
+export type MatchNode =
+  | { type: "and"; children: MatchNode[] }
+  | { type: "or"; children: MatchNode[] }
+  | { type: "not"; child: MatchNode }
+  | { type: "term"; text: string; fields: MatchField[]; pattern: RegExp };
+
+export type MatchDocument = Record<MatchField, string>;
+
+export type MatchHit = {
+  term: string;
+  field: MatchField;
+  // true = Term stand unter NOT (hat also gegen den Job gesprochen)
+  negated: boolean;
+};
+
+export type MatchResult = {
+  ok: boolean;
+  hits: MatchHit[];
+};
+
+const ALL_FIELDS: MatchField[] = ["title", "company", "description"];
+
+const FIELD_ALIASES: Record<string, MatchField> = {
+  title: "title",
+  company: "company",
+  desc: "description",
+  description: "description",
+};
+
+type Token =
+  | { kind: "lparen"; pos: number }
+  | { kind: "rparen"; pos: number }
+  | { kind: "and" | "or" | "not"; pos: number }
+  | { kind: "field"; field: MatchField; pos: number }
+  | { kind: "word" | "phrase"; text: string; pos: number };
+
+function syntaxError(message: string, pos: number): Error {
+  return new InvalidMatchExpressionError(message, pos);
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const ch = input[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    if (ch === "(") {
+      tokens.push({ kind: "lparen", pos: i++ });
+      continue;
+    }
+    if (ch === ")") {
+      tokens.push({ kind: "rparen", pos: i++ });
+      continue;
+    }
+    if (ch === '"') {
+      const end = input.indexOf('"', i + 1);
+      if (end === -1) throw syntaxError("unterminated phrase", i);
+      const text = input.slice(i + 1, end).replace(/\s+/g, " ").trim();
+      if (!text) throw syntaxError("empty phrase", i);
+      tokens.push({ kind: "phrase", text, pos: i });
+      i = end + 1;
+      continue;
+    }
+
+    const start = i;
+    while (i < input.length && !/[\s()"]/.test(input[i])) {
+      // Feld-Präfix endet am Doppelpunkt (title:foo, desc:"x", company:(a OR b))
+      if (input[i] === ":") break;
+      i++;
+    }
+    const word = input.slice(start, i);
+
+    if (input[i] === ":") {
+      const field = FIELD_ALIASES[word.toLowerCase()];
+      if (!field) throw syntaxError(`unknown field "${word}"`, start);
+      tokens.push({ kind: "field", field, pos: start });
+      i++;
+      continue;
+    }
+
+    if (word === "AND") tokens.push({ kind: "and", pos: start });
+    else if (word === "OR") tokens.push({ kind: "or", pos: start });
+    else if (word === "NOT") tokens.push({ kind: "not", pos: start });
+    else tokens.push({ kind: "word", text: word, pos: start });
+  }
+
+  return tokens;
+}
+
+function escapeRegex(s: string) {
+  return s.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Case-insensitive pattern for one term (word boundaries, wildcards * and ?). */
+export function termPattern(text: string): RegExp {
+  const body = text
+    .split(" ")
+    .map((part) => escapeRegex(part).replace(/\*/g, "[\\p{L}\\p{N}_]*").replace(/\?/g, "[\\p{L}\\p{N}_]"))
+    .join("\\s+");
+  // Lookarounds statt \b: funktionieren auch für Terme mit Satzzeichen ("k.i.") und Umlauten
+  return new RegExp(`(?<![\\p{L}\\p{N}_])${body}(?![\\p{L}\\p{N}_])`, "iu");
+}
+
+class Parser {
+  private i = 0;
+
+  constructor(private readonly tokens: Token[], private readonly inputLength: number) {}
+
+  parse(): MatchNode {
+    const node = this.parseOr(ALL_FIELDS);
+    const rest = this.peek();
+    if (rest) throw syntaxError(`unexpected "${describe(rest)}"`, rest.pos);
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.i];
+  }
+
+  private parseOr(fields: MatchField[]): MatchNode {
+    const children = [this.parseAnd(fields)];
+    while (this.peek()?.kind === "or") {
+      this.i++;
+      children.push(this.parseAnd(fields));
+    }
+    return children.length === 1 ? children[0] : { type: "or", children };
+  }
+
+  private parseAnd(fields: MatchField[]): MatchNode {
+    const children = [this.parseUnary(fields)];
+    for (;;) {
+      const next = this.peek();
+      if (!next || next.kind === "or" || next.kind === "rparen") break;
+      if (next.kind === "and") this.i++;
+      children.push(this.parseUnary(fields));
+    }
+    return children.length === 1 ? children[0] : { type: "and", children };
+  }
+
+  private parseUnary(fields: MatchField[]): MatchNode {
+    if (this.peek()?.kind === "not") {
+      this.i++;
+      return { type: "not", child: this.parseUnary(fields) };
+    }
+    return this.parsePrimary(fields);
+  }
+
+  private parsePrimary(fields: MatchField[]): MatchNode {
+    const tok = this.peek();
+    if (!tok) throw syntaxError("unexpected end of expression", this.inputLength);
+    this.i++;
+
+    switch (tok.kind) {
+      case "lparen": {
+        const node = this.parseOr(fields);
+        const close = this.peek();
+        if (close?.kind !== "rparen") throw syntaxError('missing ")"', close?.pos ?? this.inputLength);
+        this.i++;
+        return node;
+      }
+      case "field":
+        return this.parsePrimary([tok.field]);
+      case "word":
+      case "phrase":
+        return { type: "term", text: tok.text, fields, pattern: termPattern(tok.text) };
+      default:
+        throw syntaxError(`unexpected "${describe(tok)}"`, tok.pos);
+    }
+  }
+}
+
+function describe(tok: Token) {
+  switch (tok.kind) {
+    case "lparen":
+      return "(";
+    case "rparen":
+      return ")";
+    case "field":
+      return `${tok.field}:`;
+    case "word":
+    case "phrase":
+      return tok.text;
+    default:
+      return tok.kind.toUpperCase();
+  }
+}
+
+/**
+ * Parses a match expression. Returns null for an empty expression (= match everything).
+ * Throws INVALID_MATCH_EXPRESSION on syntax errors.
+ */
+export function parseMatchExpression(input: string): MatchNode | null {
+  const tokens = tokenize(input);
+  if (tokens.length === 0) return null;
+  return new Parser(tokens, input.length).parse();
+}
+
+function evaluateNode(node: MatchNode, doc: MatchDocument, hits: MatchHit[], negated: boolean): boolean {
+  switch (node.type) {
+    case "and":
+      // bewusst ohne Short-Circuit: wir wollen alle Treffer für die Erklärung sammeln
+      return node.children.map((c) => evaluateNode(c, doc, hits, negated)).every(Boolean);
+    case "or":
+      return node.children.map((c) => evaluateNode(c, doc, hits, negated)).some(Boolean);
+    case "not":
+      return !evaluateNode(node.child, doc, hits, !negated);
+    case "term": {
+      let matched = false;
+      for (const field of node.fields) {
+        if (node.pattern.test(doc[field])) {
+          matched = true;
+          hits.push({ term: node.text, field, negated });
+        }
+      }
+      return matched;
+    }
+  }
+}
+
+export function evaluateMatch(node: MatchNode | null, doc: MatchDocument): MatchResult {
+  if (!node) return { ok: true, hits: [] };
+  const hits: MatchHit[] = [];
+  const ok = evaluateNode(node, doc, hits, false);
+  return { ok, hits };
+}
+
+export function formatMatchHits(hits: MatchHit[]): string {
+  return hits.map((h) => `${h.negated ? "NOT " : ""}${h.field}:${h.term}`).join(", ");
+}
@@ -0,0 +1,50 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { InvalidInputError, NavigationTimeoutError, RateLimitedError } from "./errors";
+import { createPacer, pacingFromInput } from "./pacing";
+
+const FAST = { pageDelayMinMs: 0, pageDelayMaxMs: 0, actionDelayMinMs: 0, actionDelayMaxMs: 0, backoffBaseMs: 1 };
+
+describe("pacing policy", () => {
+  it("retries transient navigation failures with backoff and counts them", async () => {
+    const pacer = createPacer({ ...FAST, navRetries: 2 }, { sessionKey: "test-retry" });
+    let calls = 0;
+    const result = await pacer.pageView("job", async () => {
+      if (++calls < 3) throw new NavigationTimeoutError("job", "https://example.test/", 10);
+      return "loaded";
+    });
+    assert.equal(result, "loaded");
+    assert.equal(pacer.stats.retries, 2);
+    assert.equal(pacer.stats.pageViews, 3);
+  });
+
+  it("does not retry non-transient errors", async () => {
+    const pacer = createPacer({ ...FAST, navRetries: 2 }, { sessionKey: "test-no-retry" });
+    await assert.rejects(
+      pacer.pageView("job", async () => {
+        throw new Error("selector broke");
+      }),
+      /selector broke/
+    );
+    assert.equal(pacer.stats.retries, 0);
+  });
+
+  it("shares the per-minute limit across pacers of the same session", async () => {
+    const limits = { ...FAST, maxPageViewsPerMinute: 2, maxThrottleWaitMs: 0 };
+    const first = createPacer(limits, { sessionKey: "test-limit" });
+    await first.pageView("a", async () => {});
+    await first.pageView("b", async () => {});
+
+    const second = createPacer(limits, { sessionKey: "test-limit" });
+    await assert.rejects(second.pageView("c", async () => {}), (e) => e instanceof RateLimitedError);
+    await createPacer(limits, { sessionKey: "other-session" }).pageView("d", async () => {});
+  });
+
+  it("validates per-run overrides", () => {
+    assert.deepEqual(pacingFromInput({ pacing: { maxPageViewsPerMinute: "10" } }), { maxPageViewsPerMinute: 10 });
+    assert.deepEqual(pacingFromInput({}), {});
+    assert.throws(() => pacingFromInput({ pacing: { speed: 1 } }), InvalidInputError);
+    assert.throws(() => pacingFromInput({ pacing: { navRetries: -1 } }), /INVALID_PACING/);
+    assert.throws(() => pacingFromInput({ pacing: { pageDelayMinMs: 5000, pageDelayMaxMs: 10 } }), /INVALID_PACING/);
+  });
+});
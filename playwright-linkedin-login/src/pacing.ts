@@ -0,0 +1,251 @@
+// FILE: src/pacing.ts
+//
+// Pacing-Policy für einen Run: zufällige Pausen statt fester Wartezeiten, Seitenaufrufe pro Minute/Stunde
+// je Session, Retry mit exponentiellem Backoff für transiente Navigationsfehler und eine automatische
+// Pause, sobald Block-Indikatoren auftauchen. Das Zeitfenster gehört der Session, nicht dem Run:
+// parallele bzw. direkt aufeinanderfolgende Runs mit derselben Session teilen sich das Limit.
+
+import { InvalidInputError, RateLimitedError, toAppError } from "./errors";
+
+export type PacingConfig = {
+  // Pause pro Worker zwischen zwei Seitenaufrufen, zufällig in [min, max]
+  pageDelayMinMs: number;
+  pageDelayMaxMs: number;
+  // kurze Pausen innerhalb einer Seite (nach Consent-Klick, Scrollen, Laden der Job-Seite)
+  actionDelayMinMs: number;
+  actionDelayMaxMs: number;
+  maxPageViewsPerMinute: number;
+  maxPageViewsPerHour: number;
+  // länger wird nicht auf ein freies Fenster gewartet, stattdessen RATE_LIMITED
+  maxThrottleWaitMs: number;
+  // zusätzliche Versuche bei Navigations-Timeouts/Netzwerkfehlern, Backoff base * 2^n (mit Jitter)
+  navRetries: number;
+  backoffBaseMs: number;
+  backoffMaxMs: number;
+  // Pause der Session nach Block-Indikatoren, danach wird die Seite einmal neu geladen
+  blockPauseMs: number;
+};
+
+export type PacingStats = {
+  pageViews: number;
+  retries: number;
+  throttleWaits: number; // wie oft auf das Rate-Limit gewartet wurde
+  throttledMs: number;
+  blockPauses: number;
+  delayedMs: number; // Summe der zufälligen Pausen
+};
+
+export type Pacer = {
+  config: PacingConfig;
+  stats: PacingStats;
+  /** Random pause between two page views of one worker. */
+  pageDelay(): Promise<void>;
+  /** Short random pause inside a page (replaces fixed 300-500ms waits). */
+  actionDelay(): Promise<void>;
+  /** Rate limit + retry with backoff around one navigation; `step` is only used for logs. */
+  pageView<T>(step: string, navigate: () => Promise<T>): Promise<T>;
+  /** Pauses this session for `blockPauseMs` after block indicators; false if pausing is disabled. */
+  pauseAfterBlock(): Promise<boolean>;
+};
+
+function envRange(name: string, fallback: [number, number]): [number, number] {
+  const raw = process.env[name];
+  if (!raw) return fallback;
+  const [min, max = min] = raw.split("-").map((s) => Number(s.trim()));
+  return Number.isFinite(min) && Number.isFinite(max) ? [min, max] : fallback;
+}
+
+function envNumber(name: string, fallback: number): number {
+  const n = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(n) ? n : fallback;
+}
+
+const [PAGE_DELAY_MIN, PAGE_DELAY_MAX] = envRange("PACING_PAGE_DELAY_MS", [1_500, 4_000]);
+const [ACTION_DELAY_MIN, ACTION_DELAY_MAX] = envRange("PACING_ACTION_DELAY_MS", [300, 900]);
+
+export const DEFAULT_PACING: PacingConfig = {
+  pageDelayMinMs: PAGE_DELAY_MIN,
+  pageDelayMaxMs: PAGE_DELAY_MAX,
+  actionDelayMinMs: ACTION_DELAY_MIN,
+  actionDelayMaxMs: ACTION_DELAY_MAX,
+  maxPageViewsPerMinute: envNumber("PACING_MAX_PER_MINUTE", 20),
+  maxPageViewsPerHour: envNumber("PACING_MAX_PER_HOUR", 400),
+  maxThrottleWaitMs: envNumber("PACING_MAX_WAIT_MS", 2 * 60_000),
+  navRetries: envNumber("PACING_NAV_RETRIES", 2),
+  backoffBaseMs: envNumber("PACING_BACKOFF_MS", 2_000),
+  backoffMaxMs: 30_000,
+  blockPauseMs: envNumber("PACING_BLOCK_PAUSE_MS", 2 * 60_000),
+};
+
+const MINUTE_MS = 60_000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+type SessionWindow = {
+  views: number[]; // Zeitstempel der Seitenaufrufe der letzten Stunde
+  pausedUntil: number;
+};
+
+const sessionWindows = new Map<string, SessionWindow>();
+
+function sessionWindow(sessionKey: string): SessionWindow {
+  let w = sessionWindows.get(sessionKey);
+  if (!w) {
+    w = { views: [], pausedUntil: 0 };
+    sessionWindows.set(sessionKey, w);
+  }
+  return w;
+}
+
+// Wartezeit bis zum nächsten freien Seitenaufruf (0 = sofort)
+function waitForSlotMs(w: SessionWindow, config: PacingConfig, now: number): number {
+  w.views = w.views.filter((t) => now - t < HOUR_MS);
+  let wait = Math.max(0, w.pausedUntil - now);
+
+  const lastMinute = w.views.filter((t) => now - t < MINUTE_MS);
+  if (lastMinute.length >= config.maxPageViewsPerMinute) {
+    wait = Math.max(wait, lastMinute[lastMinute.length - config.maxPageViewsPerMinute] + MINUTE_MS - now);
+  }
+  if (w.views.length >= config.maxPageViewsPerHour) {
+    wait = Math.max(wait, w.views[w.views.length - config.maxPageViewsPerHour] + HOUR_MS - now);
+  }
+  return wait;
+}
+
+function randomBetween(min: number, max: number) {
+  return Math.round(min + Math.random() * Math.max(0, max - min));
+}
+
+/** setTimeout as a promise that resolves early when `signal` aborts. */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (ms <= 0 || signal?.aborted) return Promise.resolve();
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(t);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const t = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+  });
+}
+
+export function emptyPacingStats(): PacingStats {
+  return { pageViews: 0, retries: 0, throttleWaits: 0, throttledMs: 0, blockPauses: 0, delayedMs: 0 };
+}
+
+function isTransientNavError(e: unknown) {
+  const err = toAppError(e);
+  return err.retryable || /net::ERR_(CONNECTION|NETWORK|TIMED_OUT|INTERNET)/.test(err.message);
+}
+
+export function createPacer(
+  overrides: Partial<PacingConfig> = {},
+  options: { sessionKey?: string; signal?: AbortSignal } = {}
+): Pacer {
+  const config: PacingConfig = { ...DEFAULT_PACING, ...overrides };
+  const { signal } = options;
+  const w = sessionWindow(options.sessionKey ?? "default");
+  const stats = emptyPacingStats();
+
+  const randomPause = async (min: number, max: number) => {
+    const ms = randomBetween(min, max);
+    stats.delayedMs += ms;
+    await sleep(ms, signal);
+  };
+
+  const acquireSlot = async () => {
+    for (;;) {
+      if (signal?.aborted) return;
+      const now = Date.now();
+      const wait = waitForSlotMs(w, config, now);
+      if (wait <= 0) {
+        w.views.push(now);
+        stats.pageViews++;
+        return;
+      }
+      if (wait > config.maxThrottleWaitMs) {
+        const message = `page view limit of this session reached, next slot in ${Math.ceil(wait / 1000)}s.`;
+        throw new RateLimitedError(message, {
+          retryAfterMs: wait,
+          maxPageViewsPerMinute: config.maxPageViewsPerMinute,
+          maxPageViewsPerHour: config.maxPageViewsPerHour,
+        });
+      }
+      console.log(`🐢 Pacing: waiting ${Math.ceil(wait / 1000)}s for the page view limit`);
+      stats.throttleWaits++;
+      stats.throttledMs += wait;
+      await sleep(wait, signal);
+    }
+  };
+
+  return {
+    config,
+    stats,
+
+    pageDelay: () => randomPause(config.pageDelayMinMs, config.pageDelayMaxMs),
+    actionDelay: () => randomPause(config.actionDelayMinMs, config.actionDelayMaxMs),
+
+    async pageView(step, navigate) {
+      for (let attempt = 0; ; attempt++) {
+        await acquireSlot();
+        try {
+          return await navigate();
+        } catch (e) {
+          if (attempt >= config.navRetries || signal?.aborted || !isTransientNavError(e)) throw e;
+          const backoff = Math.min(config.backoffMaxMs, config.backoffBaseMs * 2 ** attempt);
+          const ms = randomBetween(backoff / 2, backoff);
+          stats.retries++;
+          console.warn(
+            `🔁 ${step} failed (${toAppError(e).code}), retry ${attempt + 1}/${config.navRetries} in ${ms}ms`
+          );
+          await sleep(ms, signal);
+        }
+      }
+    },
+
+    async pauseAfterBlock() {
+      if (config.blockPauseMs <= 0) return false;
+      stats.blockPauses++;
+      // gilt für alle Runs dieser Session
+      w.pausedUntil = Math.max(w.pausedUntil, Date.now() + config.blockPauseMs);
+      console.warn(`🧱 Block indicators -> pausing session for ${Math.round(config.blockPauseMs / 1000)}s`);
+      await sleep(w.pausedUntil - Date.now(), signal);
+      return !signal?.aborted;
+    },
+  };
+}
+
+const PACING_KEYS = Object.keys(DEFAULT_PACING) as (keyof PacingConfig)[];
+
+/**
+ * Reads per-run pacing overrides from `input.pacing` (JSON body), e.g.
+ * { "pacing": { "maxPageViewsPerMinute": 10, "blockPauseMs": 300000 } }.
+ */
+export function pacingFromInput(input: Record<string, unknown> | undefined | null): Partial<PacingConfig> {
+  const raw = input?.pacing;
+  if (raw === undefined || raw === null) return {};
+  if (typeof raw !== "object" || Array.isArray(raw)) {
+    throw new InvalidInputError("INVALID_PACING", "pacing must be an object", { field: "pacing" });
+  }
+
+  const pacing: Partial<PacingConfig> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    if (!PACING_KEYS.includes(key as keyof PacingConfig)) {
+      throw new InvalidInputError("INVALID_PACING", `unknown pacing option "${key}"`, { field: `pacing.${key}` });
+    }
+    const n = Number(value);
+    if (value === "" || typeof value === "boolean" || !Number.isFinite(n) || n < 0) {
+      throw new InvalidInputError("INVALID_PACING", `pacing.${key} must be a number >= 0`, { field: `pacing.${key}` });
+    }
+    pacing[key as keyof PacingConfig] = n;
+  }
+
+  const merged = { ...DEFAULT_PACING, ...pacing };
+  if (merged.maxPageViewsPerMinute < 1 || merged.maxPageViewsPerHour < 1) {
+    throw new InvalidInputError("INVALID_PACING", "page view limits must be at least 1", { field: "pacing" });
+  }
+  if (merged.pageDelayMinMs > merged.pageDelayMaxMs || merged.actionDelayMinMs > merged.actionDelayMaxMs) {
+    throw new InvalidInputError("INVALID_PACING", "delay minimum must not exceed the maximum", { field: "pacing" });
+  }
+  return pacing;
+}
@@ -0,0 +1,118 @@
+// FILE: src/page-state.ts
+//
+// Ordnet eine geladene LinkedIn-Seite einem Zustand zu, statt alles als "blocked" zu behandeln:
+// Ergebnisse da, keine Ergebnisse, Checkpoint, Captcha, ausgeloggt, gedrosselt oder unbekannt.
+// `evidence` sagt, woran der Zustand erkannt wurde (HTTP-Status, URL oder Selektor).
+
+import { Page } from "playwright";
+import {
+  AppError,
+  AuthRequiredError,
+  BlockedError,
+  CaptchaRequiredError,
+  RateLimitedError,
+  UnknownPageStateError,
+} from "./errors";
+import { activeSelectorProfile, anyOf, SelectorFieldName } from "./selectors";
+
+export type PageState = "OK" | "NO_RESULTS" | "CHECKPOINT" | "CAPTCHA" | "LOGGED_OUT" | "RATE_LIMITED" | "UNKNOWN";
+
+export type PageStateResult = {
+  state: PageState;
+  url: string;
+  evidence: string[]; // z. B. ["status: 999"], ["url: /checkpoint/challenge/"], ["blockIndicator: text=\"Verify\""]
+};
+
+// 999 = LinkedIns eigener Status für gedrosselte/verdächtige Clients
+const RATE_LIMIT_STATUS = new Set([429, 999]);
+
+const URL_STATES: [PageState, RegExp][] = [
+  ["CAPTCHA", /captcha/i],
+  ["CHECKPOINT", /^\/checkpoint\//],
+  ["LOGGED_OUT", /^\/(login|uas\/login|authwall|signup)(\/|$)/],
+];
+
+// Reihenfolge = Priorität, falls eine Seite mehrere Hinweise zeigt
+const SELECTOR_STATES: [PageState, SelectorFieldName][] = [
+  ["RATE_LIMITED", "rateLimitNotice"],
+  ["CAPTCHA", "captcha"],
+  ["CHECKPOINT", "blockIndicator"],
+  ["LOGGED_OUT", "loggedOutNotice"],
+  ["LOGGED_OUT", "loginForm"],
+  ["NO_RESULTS", "noResults"],
+];
+
+function urlPath(url: string) {
+  try {
+    return new URL(url).pathname;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Classifies the current page. `content` is the field that means "the page we wanted"
+ * (job links on a results page, the job header on a job page); `status` is the HTTP
+ * status of the navigation, if known. Returns UNKNOWN when nothing matched yet, so
+ * callers can poll while the page is still rendering.
+ */
+export async function classifyPage(
+  page: Page,
+  options: { status?: number | null; content?: SelectorFieldName } = {}
+): Promise<PageStateResult> {
+  const url = page.url();
+  const result = (state: PageState, evidence: string[]): PageStateResult => ({ state, url, evidence });
+
+  if (options.status && RATE_LIMIT_STATUS.has(options.status)) {
+    return result("RATE_LIMITED", [`status: ${options.status}`]);
+  }
+
+  const pathname = urlPath(url);
+  for (const [state, pattern] of URL_STATES) {
+    if (pattern.test(pathname)) return result(state, [`url: ${pathname}`]);
+  }
+
+  const fields = activeSelectorProfile().fields;
+  const contentField = options.content ?? "jobLink";
+  const count = await page
+    .locator(anyOf(fields[contentField]))
+    .count()
+    .catch(() => 0);
+  if (count > 0) return result("OK", [`${contentField}: ${count}`]);
+
+  for (const [state, name] of SELECTOR_STATES) {
+    for (const selector of fields[name].selectors) {
+      const visible = await page
+        .locator(selector)
+        .first()
+        .isVisible()
+        .catch(() => false);
+      if (visible) return result(state, [`${name}: ${selector}`]);
+    }
+  }
+
+  const title = await page.title().catch(() => "");
+  return result("UNKNOWN", title ? [`title: ${title}`] : []);
+}
+
+/** States where waiting (session pause) and reloading can help. UNKNOWN is no block, so it gets no pause. */
+export function isTransientPageState(state: PageState): boolean {
+  return state === "CHECKPOINT" || state === "CAPTCHA" || state === "RATE_LIMITED";
+}
+
+/** Typed error for a page state that ends a run; details carry state, url and evidence. */
+export function pageStateError(result: PageStateResult): AppError {
+  const details = { state: result.state, url: result.url, evidence: result.evidence };
+  switch (result.state) {
+    case "CHECKPOINT":
+      return new BlockedError("LinkedIn shows a security verification (checkpoint). Try HEADLESS=false.", details);
+    case "CAPTCHA":
+      return new CaptchaRequiredError("LinkedIn asks for a captcha. Solve it once with HEADLESS=false.", details);
+    case "LOGGED_OUT":
+      return new AuthRequiredError("LinkedIn shows the login page instead of results.", details);
+    case "RATE_LIMITED":
+      return new RateLimitedError("LinkedIn is rate limiting this session.", details);
+    default:
+      return new UnknownPageStateError("LinkedIn did not render job links or a known page state.", details);
+  }
+}
@@ -0,0 +1,73 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parsePostingDate, PostingDate, toIsoDateOrEmpty } from "./posting-date";
+
+// Start des Runs: Montag, 19.10.2026, 10:00 UTC
+const NOW = new Date("2026-10-19T10:00:00Z");
+
+describe("posting dates", () => {
+  it("resolves relative phrases (EN/DE) against the run start", () => {
+    const cases: [string, string][] = [
+      ["2 weeks ago", "2026-10-05"],
+      ["3 days ago", "2026-10-16"],
+      ["an hour ago", "2026-10-19"],
+      ["12 hours ago", "2026-10-18"],
+      ["1 month ago", "2026-09-19"],
+      ["a year ago", "2025-10-19"],
+      ["30 minutes ago", "2026-10-19"],
+      ["Reposted 5 days ago", "2026-10-14"],
+      ["vor 3 Tagen", "2026-10-16"],
+      ["vor einer Woche", "2026-10-12"],
+      ["vor 2 Std.", "2026-10-19"],
+      ["vor einem Monat", "2026-09-19"],
+      ["Gerade eben", "2026-10-19"],
+      ["Just now", "2026-10-19"],
+      ["gestern", "2026-10-18"],
+    ];
+    for (const [text, date] of cases) {
+      const expected: PostingDate = { date, source: "relative", reposted: /repost/i.test(text) };
+      assert.deepEqual(parsePostingDate(null, [text], NOW), expected, text);
+    }
+  });
+
+  it("parses absolute dates and rejects impossible ones", () => {
+    const cases: [string, string][] = [
+      ["2026-10-05", "2026-10-05"],
+      ["05.10.2026", "2026-10-05"],
+      ["October 5, 2026", "2026-10-05"],
+      ["Oct 5 2026", "2026-10-05"],
+      ["5 Oct 2026", "2026-10-05"],
+      ["5. Oktober 2026", "2026-10-05"],
+      ["1. März 2026", "2026-03-01"],
+      ["2026-02-30", ""],
+      ["31.04.2026", ""],
+      ["Berlin, Germany", ""],
+    ];
+    for (const [text, date] of cases) {
+      assert.equal(parsePostingDate(null, [text], NOW).date, date, text);
+    }
+  });
+
+  it("prefers time[datetime], then absolute, then relative texts", () => {
+    const cases: [string | null, string[], PostingDate][] = [
+      ["2026-10-01T08:00:00Z", ["2 weeks ago"], { date: "2026-10-01", source: "exact", reposted: false }],
+      ["not a date", ["2 weeks ago"], { date: "2026-10-05", source: "relative", reposted: false }],
+      [null, ["3 days ago", "Posted on 10.10.2026"], { date: "2026-10-10", source: "exact", reposted: false }],
+      [
+        null,
+        ["  Berlin ", "", " Erneut gepostet  vor 2 Wochen "],
+        { date: "2026-10-05", source: "relative", reposted: true },
+      ],
+      [null, ["Berlin", "87 applicants"], { date: "", source: "unknown", reposted: false }],
+      [null, [], { date: "", source: "unknown", reposted: false }],
+    ];
+    for (const [datetime, texts, expected] of cases) {
+      assert.deepEqual(parsePostingDate(datetime, texts, NOW), expected, JSON.stringify(texts));
+    }
+  });
+
+  it("normalizes ISO timestamps to a UTC day", () => {
+    assert.equal(toIsoDateOrEmpty("2026-10-19T23:30:00-02:00"), "2026-10-20");
+    assert.equal(toIsoDateOrEmpty(""), "");
+  });
+});
@@ -0,0 +1,182 @@
+// FILE: src/posting-date.ts
+//
+// Posting-Datum aus dem, was LinkedIn anzeigt: time[datetime], absolute Datumsangaben oder
+// relative Phrasen ("2 weeks ago", "vor 3 Tagen", "Reposted 5 hours ago", "Gerade eben").
+// Relative Angaben werden gegen den Startzeitpunkt des Runs aufgelöst.
+
+export type PostingDateSource = "exact" | "relative" | "unknown";
+
+export type PostingDate = {
+  date: string; // YYYY-MM-DD, "" wenn unbekannt
+  source: PostingDateSource;
+  reposted: boolean;
+};
+
+type Unit = "minute" | "hour" | "day" | "week" | "month" | "year";
+
+const UNIT_WORDS: [RegExp, Unit][] = [
+  [/^(sec(ond)?s?|sekunden?|min(ute)?s?|minuten?)$/, "minute"],
+  [/^(h(ou)?rs?|stunden?|std\.?)$/, "hour"],
+  [/^(days?|tagen?|tage?)$/, "day"],
+  [/^(w(ee)?ks?|wochen?)$/, "week"],
+  [/^(mo(nth)?s?|monate?n?)$/, "month"],
+  [/^(y(ea)?rs?|jahre?n?)$/, "year"],
+];
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  ein: 1,
+  eine: 1,
+  einem: 1,
+  einer: 1,
+  two: 2,
+  zwei: 2,
+  three: 3,
+  drei: 3,
+};
+
+// Index = Monat (0-basiert), EN + DE Namen/Abkürzungen
+const MONTH_NAMES: string[][] = [
+  ["jan", "january", "januar", "jänner"],
+  ["feb", "february", "februar"],
+  ["mar", "march", "mär", "märz", "maerz"],
+  ["apr", "april"],
+  ["may", "mai"],
+  ["jun", "june", "juni"],
+  ["jul", "july", "juli"],
+  ["aug", "august"],
+  ["sep", "sept", "september"],
+  ["oct", "october", "okt", "oktober"],
+  ["nov", "november"],
+  ["dec", "december", "dez", "dezember"],
+];
+
+const REPOSTED_REGEX = /\b(reposted|erneut (gepostet|veröffentlicht)|neu eingestellt)\b/i;
+const JUST_NOW_REGEX = /\b(just now|moments? ago|gerade eben|soeben|today|heute)\b/i;
+const YESTERDAY_REGEX = /\b(yesterday|gestern)\b/i;
+
+// "2 weeks ago", "an hour ago" / "vor 3 Tagen", "vor einer Stunde"
+const RELATIVE_EN_REGEX = /\b(\d+|an?|one|two|three)\s+([a-z]+)\s+ago\b/i;
+const RELATIVE_DE_REGEX = /\bvor\s+(\d+|einem|einer|eine|ein|zwei|drei)\s+([a-zäöü.]+)/i;
+
+function toIsoDay(d: Date): string {
+  const yyyy = String(d.getUTCFullYear());
+  const mm = String(d.getUTCMonth() + 1).padStart(2, "0");
+  const dd = String(d.getUTCDate()).padStart(2, "0");
+  return `${yyyy}-${mm}-${dd}`;
+}
+
+function isValidDate(y: number, m: number, d: number): boolean {
+  const date = new Date(Date.UTC(y, m, d));
+  return date.getUTCFullYear() === y && date.getUTCMonth() === m && date.getUTCDate() === d;
+}
+
+export function toIsoDateOrEmpty(input: string): string {
+  const d = new Date(input);
+  if (Number.isNaN(d.getTime())) return "";
+  return toIsoDay(d);
+}
+
+function unitOf(word: string): Unit | null {
+  const w = word.toLowerCase().replace(/\.$/, "");
+  for (const [re, unit] of UNIT_WORDS) {
+    if (re.test(w)) return unit;
+  }
+  return null;
+}
+
+function amountOf(word: string): number | null {
+  if (/^\d+$/.test(word)) return Number(word);
+  return NUMBER_WORDS[word.toLowerCase()] ?? null;
+}
+
+function subtract(now: Date, amount: number, unit: Unit): Date {
+  const d = new Date(now.getTime());
+  switch (unit) {
+    case "minute":
+      d.setUTCMinutes(d.getUTCMinutes() - amount);
+      break;
+    case "hour":
+      d.setUTCHours(d.getUTCHours() - amount);
+      break;
+    case "day":
+      d.setUTCDate(d.getUTCDate() - amount);
+      break;
+    case "week":
+      d.setUTCDate(d.getUTCDate() - amount * 7);
+      break;
+    case "month":
+      d.setUTCMonth(d.getUTCMonth() - amount);
+      break;
+    case "year":
+      d.setUTCFullYear(d.getUTCFullYear() - amount);
+      break;
+  }
+  return d;
+}
+
+function parseRelative(text: string, now: Date): string {
+  if (JUST_NOW_REGEX.test(text)) return toIsoDay(now);
+  if (YESTERDAY_REGEX.test(text)) return toIsoDay(subtract(now, 1, "day"));
+
+  for (const re of [RELATIVE_EN_REGEX, RELATIVE_DE_REGEX]) {
+    const m = text.match(re);
+    if (!m) continue;
+    const amount = amountOf(m[1]);
+    const unit = unitOf(m[2]);
+    if (amount !== null && unit) return toIsoDay(subtract(now, amount, unit));
+  }
+  return "";
+}
+
+// "2024-01-05", "05.01.2024", "January 5, 2024", "5 Jan 2024", "5. Januar 2024"
+function parseAbsolute(text: string): string {
+  const iso = text.match(/\b(\d{4})-(\d{2})-(\d{2})\b/);
+  if (iso) return isValidDate(+iso[1], +iso[2] - 1, +iso[3]) ? `${iso[1]}-${iso[2]}-${iso[3]}` : "";
+
+  const dotted = text.match(/\b(\d{1,2})\.(\d{1,2})\.(\d{4})\b/);
+  if (dotted) {
+    const [y, m, d] = [+dotted[3], +dotted[2] - 1, +dotted[1]];
+    return isValidDate(y, m, d) ? toIsoDay(new Date(Date.UTC(y, m, d))) : "";
+  }
+
+  const candidates: { month: string; day: string; year: string }[] = [];
+  const monthFirst = text.match(/\b([a-zäöü]+)\.?\s+(\d{1,2}),?\s+(\d{4})\b/i);
+  if (monthFirst) candidates.push({ month: monthFirst[1], day: monthFirst[2], year: monthFirst[3] });
+  const dayFirst = text.match(/\b(\d{1,2})\.?\s+([a-zäöü]+)\.?\s+(\d{4})\b/i);
+  if (dayFirst) candidates.push({ month: dayFirst[2], day: dayFirst[1], year: dayFirst[3] });
+
+  for (const c of candidates) {
+    const month = MONTH_NAMES.findIndex((names) => names.includes(c.month.toLowerCase()));
+    if (month !== -1 && isValidDate(+c.year, month, +c.day)) {
+      return toIsoDay(new Date(Date.UTC(+c.year, month, +c.day)));
+    }
+  }
+  return "";
+}
+
+/**
+ * Resolves the posting date from a `time[datetime]` attribute (if any) and the
+ * visible date texts of a job page. `now` is the run start, used for relative phrases.
+ */
+export function parsePostingDate(datetime: string | null, texts: string[], now: Date): PostingDate {
+  const clean = texts.map((t) => t.replace(/\s+/g, " ").trim()).filter(Boolean);
+  const reposted = clean.some((t) => REPOSTED_REGEX.test(t));
+
+  const exact = datetime ? toIsoDateOrEmpty(datetime) : "";
+  if (exact) return { date: exact, source: "exact", reposted };
+
+  for (const t of clean) {
+    const absolute = parseAbsolute(t);
+    if (absolute) return { date: absolute, source: "exact", reposted };
+  }
+
+  for (const t of clean) {
+    const relative = parseRelative(t, now);
+    if (relative) return { date: relative, source: "relative", reposted };
+  }
+
+  return { date: "", source: "unknown", reposted };
+}
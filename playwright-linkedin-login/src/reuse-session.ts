@@ -1,10 +1,34 @@
-import fs from "fs";
-import { chromium, Page } from "playwright";
+import { BrowserContext, chromium, Page } from "playwright";
+import { PoolOptions, StorageStateSource, withPooledContext } from "./browser-pool";
+import { activeSelectorProfile, anyOf } from "./selectors";
+import { linkedInUrl } from "./linkedin-url";
+import { Diagnostics } from "./diagnostics";
+import { AuthRequiredError, NoHealthySessionError, toAppError } from "./errors";
+import {
+  getSession,
+  loadSessionState,
+  markSessionUsed,
+  recordSessionFailure,
+  recordSessionValid,
+  SessionInfo,
+  sessionCandidates,
+  saveSessionState,
+  sessionStore,
+} from "./sessions";
 
-const LINKEDIN_FEED_URL = "https://www.linkedin.com/feed/";
-const SESSION_PATH = process.env.SESSION_PATH || "session/linkedin-session.json";
 const DEFAULT_TIMEOUT = 60_000;
 
+export type SessionRunOptions = PoolOptions & {
+  // true = gemeinsamen Browser-Pool nutzen (Server); sonst eigener Browser pro Aufruf
+  pool?: boolean;
+  // Screenshot/HTML bei fehlgeschlagenem Session-Check, optional Trace über den ganzen Run
+  diagnostics?: Diagnostics;
+  // Session-Name (src/sessions.ts) oder "auto" = Rotation über gesunde Sessions; Default SESSION_NAME
+  session?: string;
+};
+
+export type SessionWork<T> = (page: Page, session: SessionInfo) => Promise<T>;
+
 function isHeadless(): boolean {
   return (process.env.HEADLESS ?? "true").toLowerCase() === "true";
 }
@@ -13,9 +37,79 @@ function isLoggedOutOrChallengeUrl(url: string) {
   return url.includes("/login") || url.includes("/checkpoint") || url.includes("/challenge");
 }
 
-export async function runWithLinkedInSession<T>(work: (page: Page) => Promise<T>): Promise<T> {
-  if (!fs.existsSync(SESSION_PATH)) {
-    throw new Error(`SESSION_MISSING: Session file not found at ${SESSION_PATH}. Run npm run login first.`);
+/** Feed check: throws AUTH_REQUIRED when the feed redirects to login/checkpoint or shows the login form. */
+export async function assertLoggedIn(page: Page, diagnostics?: Diagnostics) {
+  await page.goto(linkedInUrl("/feed/"), { waitUntil: "domcontentloaded" });
+
+  if (isLoggedOutOrChallengeUrl(page.url())) {
+    await diagnostics?.capture(page, "session-check");
+    throw new AuthRequiredError("Session expired/invalid or verification required.", { url: page.url() });
+  }
+
+  const loginVisible = await page
+    .locator(anyOf(activeSelectorProfile().fields.loginForm))
+    .first()
+    .isVisible()
+    .catch(() => false);
+  if (loginVisible) {
+    await diagnostics?.capture(page, "session-check");
+    throw new AuthRequiredError("LinkedIn login form detected.", { url: page.url() });
+  }
+}
+
+async function runInContext<T>(
+  context: BrowserContext,
+  work: (page: Page) => Promise<T>,
+  diagnostics: Diagnostics | undefined,
+  onLoggedIn: () => Promise<void>
+): Promise<T> {
+  await diagnostics?.startTrace(context);
+  let failed = false;
+
+  try {
+    const page = await context.newPage();
+    page.setDefaultTimeout(DEFAULT_TIMEOUT);
+
+    await assertLoggedIn(page, diagnostics);
+    await onLoggedIn();
+    return await work(page);
+  } catch (e) {
+    failed = true;
+    throw e;
+  } finally {
+    await diagnostics?.stopTrace(context, failed);
+  }
+}
+
+// LinkedIn erneuert Cookies (li_at, JSESSIONID) während der Runs; ohne Write-back läuft die
+// gespeicherte Session früher ab als die im Browser
+async function writeBackState(name: string, context: BrowserContext) {
+  try {
+    await saveSessionState(name, await context.storageState());
+  } catch (e) {
+    console.warn(`⚠️ Could not write back refreshed cookies of session "${name}": ${toAppError(e).message}`);
+  }
+}
+
+async function runInSession<T>(
+  session: SessionInfo,
+  work: (page: Page) => Promise<T>,
+  options: SessionRunOptions,
+  onLoggedIn: () => Promise<void>
+): Promise<T> {
+  const run = async (context: BrowserContext) => {
+    const result = await runInContext(context, work, options.diagnostics, onLoggedIn);
+    await writeBackState(session.name, context);
+    return result;
+  };
+
+  if (options.pool) {
+    const source: StorageStateSource = {
+      key: session.name,
+      version: async () => (await sessionStore().stat(session.name))?.updatedAt ?? "",
+      load: () => loadSessionState(session.name),
+    };
+    return withPooledContext(source, run, options);
   }
 
   const browser = await chromium.launch({
@@ -23,25 +117,67 @@ export async function runWithLinkedInSession<T>(work: (page: Page) => Promise<T>
     args: ["--disable-dev-shm-usage"],
   });
 
-  const context = await browser.newContext({ storageState: SESSION_PATH });
-  const page = await context.newPage();
-  page.setDefaultTimeout(DEFAULT_TIMEOUT);
+  const onAbort = () => {
+    browser.close().catch(() => {});
+  };
+  options.signal?.addEventListener("abort", onAbort, { once: true });
 
   try {
-    await page.goto(LINKEDIN_FEED_URL, { waitUntil: "domcontentloaded" });
+    const context = await browser.newContext({ storageState: await loadSessionState(session.name) });
+    return await run(context);
+  } finally {
+    options.signal?.removeEventListener("abort", onAbort);
+    await browser.close().catch(() => {});
+  }
+}
 
-    if (isLoggedOutOrChallengeUrl(page.url())) {
-      throw new Error("AUTH_REQUIRED: Session expired/invalid or verification required.");
-    }
+// Metadaten-Updates sind best effort (z. B. schreibgeschütztes SESSIONS_DIR in Azure)
+function warnMetaFailure(e: unknown) {
+  console.warn(`⚠️ Could not update session metadata: ${toAppError(e).message}`);
+}
 
-    const loginVisible = await page.locator('input[name="session_key"]').isVisible().catch(() => false);
-    if (loginVisible) {
-      throw new Error("AUTH_REQUIRED: LinkedIn login form detected.");
-    }
+/**
+ * Runs `work` with a logged-in page of the selected session (`options.session`).
+ * The feed check result is stored in the session metadata. With "auto", a session
+ * that fails the feed check is marked failing and the next healthy one is tried;
+ * once `work` has started, errors are recorded but never retried on another session.
+ */
+export async function runWithLinkedInSession<T>(work: SessionWork<T>, options: SessionRunOptions = {}): Promise<T> {
+  const candidates = await sessionCandidates(options.session);
 
-    return await work(page);
-  } finally {
-    await context.close();
-    await browser.close();
+  for (const [i, session] of candidates.entries()) {
+    if (i > 0) await markSessionUsed(session.name).catch(warnMetaFailure);
+
+    let loggedIn = false;
+    const onLoggedIn = async () => {
+      loggedIn = true;
+      await recordSessionValid(session.name).catch(warnMetaFailure);
+    };
+
+    try {
+      return await runInSession(session, (page) => work(page, session), options, onLoggedIn);
+    } catch (e) {
+      const err = toAppError(e);
+      await recordSessionFailure(session.name, err).catch(warnMetaFailure);
+
+      const next = candidates[i + 1];
+      if (loggedIn || !next || options.signal?.aborted || !(err instanceof AuthRequiredError)) throw e;
+      console.warn(`🔄 Session ${session.name} failed the session check, rotating to ${next.name}`);
+    }
   }
+
+  // nur erreichbar, wenn sessionCandidates keine Session liefert
+  throw new NoHealthySessionError([]);
+}
+
+/**
+ * Runs only the feed check for session `name` and returns its updated metadata.
+ * Throws the check error (e.g. AUTH_REQUIRED), which is also recorded as `lastFailure`.
+ */
+export async function validateSession(
+  name: string,
+  options: Omit<SessionRunOptions, "session"> = {}
+): Promise<SessionInfo> {
+  await runWithLinkedInSession(async () => undefined, { ...options, session: name });
+  return getSession(name);
 }
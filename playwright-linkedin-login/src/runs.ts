@@ -0,0 +1,152 @@
+// FILE: src/runs.ts
+//
+// In-Memory Registry für asynchrone Job-Runs (POST /api/v1/runs).
+// Der Run läuft im Hintergrund weiter; Status + bisherige Jobs können jederzeit abgefragt werden.
+
+import { randomUUID } from "crypto";
+import { ApiJob, FetchCompletion, FetchOptions, FetchProgress, FetchResult } from "./jobs-ai-hr";
+import { SearchProfile } from "./search-profile";
+import { createDiagnostics, DiagnosticArtifact, Diagnostics } from "./diagnostics";
+import { toAppError } from "./errors";
+import { emptyPacingStats } from "./pacing";
+import { PageStateResult } from "./page-state";
+
+export type RunState = "queued" | "running" | "succeeded" | "failed" | "cancelled";
+
+export type RunRecord = {
+  id: string;
+  state: RunState;
+  // Position in der Browser-Pool-Queue (0 = läuft)
+  queuePosition: number;
+  profile: SearchProfile;
+  createdAt: string;
+  finishedAt?: string;
+  progress: Omit<FetchProgress, "jobs">;
+  jobs: ApiJob[];
+  // gesetzt sobald der Fetch ein (evtl. partielles) Ergebnis geliefert hat
+  session?: string; // benutzte Session (src/sessions.ts), bei "auto" die rotierte
+  completion?: FetchCompletion;
+  reason?: string;
+  pageState?: PageStateResult;
+  error?: string;
+  // Code + retryable aus src/errors.ts, nur bei state "failed"/"cancelled"
+  errorCode?: string;
+  retryable?: boolean;
+  // Screenshots/HTML/Trace aus DIAGNOSTICS_DIR/<id>/, wächst während des Runs
+  diagnostics: DiagnosticArtifact[];
+};
+
+export type RunWorkOptions = Required<Pick<FetchOptions, "signal" | "onProgress">> & {
+  onQueuePosition: (position: number) => void;
+  diagnostics: Diagnostics;
+};
+
+export type RunWork = (profile: SearchProfile, options: RunWorkOptions) => Promise<FetchResult & { session?: string }>;
+
+// fertige Runs nicht ewig im Speicher halten
+const FINISHED_RUN_TTL_MS = 60 * 60_000;
+const MAX_FINISHED_RUNS = 100;
+
+type RunEntry = {
+  record: RunRecord;
+  controller: AbortController;
+  done: Promise<void>;
+};
+
+const runs = new Map<string, RunEntry>();
+
+function pruneFinishedRuns() {
+  const finished = Array.from(runs.values())
+    .filter((r) => r.record.finishedAt)
+    .sort((a, b) => (a.record.finishedAt ?? "").localeCompare(b.record.finishedAt ?? ""));
+
+  const cutoff = new Date(Date.now() - FINISHED_RUN_TTL_MS).toISOString();
+  finished.forEach((r, i) => {
+    const tooMany = finished.length - i > MAX_FINISHED_RUNS;
+    if (tooMany || (r.record.finishedAt ?? "") < cutoff) runs.delete(r.record.id);
+  });
+}
+
+export function startRun(profile: SearchProfile, work: RunWork): RunRecord {
+  pruneFinishedRuns();
+
+  const controller = new AbortController();
+  const id = randomUUID();
+  const diagnostics = createDiagnostics(id);
+  const record: RunRecord = {
+    id,
+    state: "queued",
+    queuePosition: 0,
+    profile,
+    createdAt: new Date().toISOString(),
+    progress: {
+      page: 0,
+      maxPages: profile.maxPages,
+      round: 0,
+      maxRounds: 0,
+      seen: 0,
+      pending: 0,
+      matched: 0,
+      pacing: emptyPacingStats(),
+    },
+    jobs: [],
+    diagnostics: diagnostics.artifacts,
+  };
+
+  const onProgress = ({ jobs, ...progress }: FetchProgress) => {
+    record.progress = progress;
+    record.jobs = jobs;
+  };
+
+  const onQueuePosition = (position: number) => {
+    record.queuePosition = position;
+    if (position === 0 && record.state === "queued") record.state = "running";
+  };
+
+  const done = work(profile, { signal: controller.signal, onProgress, onQueuePosition, diagnostics })
+    .then((result) => {
+      record.jobs = result.jobs;
+      record.progress.matched = result.jobs.length;
+      record.progress.pacing = result.pacing;
+      record.session = result.session;
+      record.completion = result.completion;
+      record.reason = result.reason;
+      record.pageState = result.pageState;
+      record.state = "succeeded";
+    })
+    .catch((e: unknown) => {
+      const err = toAppError(e);
+      record.state = controller.signal.aborted ? "cancelled" : "failed";
+      record.error = err.message;
+      record.errorCode = err.code;
+      record.retryable = err.retryable;
+    })
+    .finally(() => {
+      record.finishedAt = new Date().toISOString();
+      console.log(`🏁 Run ${record.id} ${record.state} (jobs=${record.jobs.length})`);
+    });
+
+  runs.set(record.id, { record, controller, done });
+  return record;
+}
+
+export function getRun(id: string): RunRecord | undefined {
+  return runs.get(id)?.record;
+}
+
+/**
+ * Requests cancellation and waits until the run has settled (the work function
+ * is expected to close its browser when the signal fires).
+ * Returns undefined for unknown run IDs.
+ */
+export async function cancelRun(id: string): Promise<RunRecord | undefined> {
+  const entry = runs.get(id);
+  if (!entry) return undefined;
+
+  if (!entry.record.finishedAt) {
+    console.log(`🛑 Cancelling run ${id}...`);
+    entry.controller.abort();
+    await entry.done;
+  }
+  return entry.record;
+}
@@ -0,0 +1,76 @@
+import "./testing/env";
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { AppError } from "./errors";
+import {
+  createSavedSearch,
+  deleteSavedSearch,
+  getSavedSearch,
+  listSavedSearches,
+  replaceSavedSearch,
+  resolveSearch,
+} from "./saved-searches";
+
+function hasCode(code: string) {
+  return (err: unknown) => err instanceof AppError && err.code === code;
+}
+
+describe("saved searches", () => {
+  it("creates, replaces and deletes saved searches", async () => {
+    const created = await createSavedSearch({
+      id: "berlin-recruiter",
+      name: "berlin",
+      keywords: "recruiter",
+      location: "Berlin",
+      workplaceTypes: "remote,hybrid",
+      match: "title:recruit*",
+      maxResults: 10,
+      session: "auto",
+    });
+    assert.equal(created.profile.name, "berlin");
+    assert.deepEqual(created.profile.workplaceTypes, ["remote", "hybrid"]);
+    assert.equal(created.profile.matchExpression, "title:recruit*");
+    assert.equal(created.session, "auto");
+    await assert.rejects(createSavedSearch({ id: "berlin-recruiter", name: "other" }), hasCode("SEARCH_CONFLICT"));
+
+    const generated = await createSavedSearch({ name: "another" });
+    assert.match(generated.id, /^[0-9a-f-]{36}$/);
+    assert.deepEqual(
+      (await listSavedSearches()).map((s) => s.profile.name),
+      ["another", "berlin"]
+    );
+
+    const replaced = await replaceSavedSearch("berlin-recruiter", { name: "berlin", keywords: "talent" });
+    assert.equal(replaced.createdAt, created.createdAt);
+    assert.equal(replaced.profile.keywords, "talent");
+    assert.equal(replaced.profile.location, undefined);
+    assert.equal(replaced.session, undefined);
+    assert.deepEqual(await getSavedSearch("berlin-recruiter"), replaced);
+
+    assert.deepEqual(await deleteSavedSearch("berlin-recruiter"), replaced);
+    await assert.rejects(getSavedSearch("berlin-recruiter"), hasCode("SEARCH_NOT_FOUND"));
+    await assert.rejects(deleteSavedSearch("berlin-recruiter"), hasCode("SEARCH_NOT_FOUND"));
+  });
+
+  it("validates the definition", async () => {
+    await assert.rejects(createSavedSearch({ keywords: "recruiter" }), hasCode("INVALID_PROFILE"));
+    await assert.rejects(createSavedSearch({ name: "x", maxPages: 0 }), hasCode("INVALID_PROFILE"));
+    await assert.rejects(createSavedSearch({ name: "x", session: "a b" }), hasCode("INVALID_SESSION"));
+    await assert.rejects(createSavedSearch({ id: "../x", name: "x" }), hasCode("INVALID_SEARCH_ID"));
+  });
+
+  it("resolves searchId or falls back to the ad-hoc parameters", async () => {
+    await createSavedSearch({ id: "resolve", name: "saved", keywords: "recruiter", session: "auto" });
+
+    const saved = await resolveSearch({ searchId: "resolve", keywords: "ignored" });
+    assert.equal(saved.searchId, "resolve");
+    assert.equal(saved.profile.keywords, "recruiter");
+    assert.equal(saved.session, "auto");
+    assert.equal((await resolveSearch({ searchId: "resolve", session: "default" })).session, "default");
+
+    const adHoc = await resolveSearch({ keywords: "hr" });
+    assert.equal(adHoc.searchId, undefined);
+    assert.equal(adHoc.profile.keywords, "hr");
+    await assert.rejects(resolveSearch({ searchId: "missing" }), hasCode("SEARCH_NOT_FOUND"));
+  });
+});
@@ -0,0 +1,163 @@
+// FILE: src/saved-searches.ts
+//
+// Gespeicherte Suchen: benannte Suchprofile (Keywords, Filter, Match-Ausdruck, Limits) plus die Session, mit
+// der sie laufen. Express (/api/v1/searches), beide Azure Functions (`searchId`) und die Schedules
+// (`searchIds`) lesen dieselben Definitionen, statt Query-Strings herumzureichen.
+//
+// Gespeichert als eine JSON-Datei unter SEARCHES_PATH (Default output/searches.json). Sie wird bei jedem
+// Zugriff neu gelesen, damit Server und Functions auf derselben Platte sich gegenseitig sehen.
+
+import fs from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import {
+  ConfigurationError,
+  InvalidInputError,
+  InvalidProfileError,
+  SearchConflictError,
+  SearchNotFoundError,
+} from "./errors";
+import { SearchProfile, searchProfileFromInput } from "./search-profile";
+import { sessionFromInput } from "./sessions";
+
+const SEARCHES_PATH = process.env.SEARCHES_PATH || path.join(process.env.OUTPUT_DIR || "output", "searches.json");
+
+// wie Session-Namen: sicher in URLs und Dateinamen
+const ID_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9_-]{0,63}$/;
+
+export type SavedSearch = {
+  id: string;
+  profile: SearchProfile; // profile.name = Name der Suche (Job-Store, Webhook-Filter)
+  session?: string; // Name oder "auto"; fehlt = SESSION_NAME
+  createdAt: string;
+  updatedAt: string;
+};
+
+// Suchprofil + Session für einen Run, aus `searchId` oder aus den Ad-hoc-Parametern
+export type ResolvedSearch = {
+  profile: SearchProfile;
+  session?: string;
+  searchId?: string;
+};
+
+// Schreibzugriffe serialisieren, sonst gehen bei parallelen Requests Änderungen verloren
+let writeChain: Promise<unknown> = Promise.resolve();
+
+function serialized<T>(fn: () => Promise<T>): Promise<T> {
+  const next = writeChain.then(fn, fn);
+  writeChain = next.catch(() => {});
+  return next;
+}
+
+async function readSearches(): Promise<SavedSearch[]> {
+  const raw = await fs.promises.readFile(SEARCHES_PATH, "utf8").catch((e: any) => {
+    if (e?.code === "ENOENT") return "";
+    throw e;
+  });
+  if (!raw.trim()) return [];
+
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed?.searches)) throw new Error("expected { \"searches\": [...] }");
+    return parsed.searches;
+  } catch (e: any) {
+    throw new ConfigurationError("INVALID_SEARCH_STORE", `${SEARCHES_PATH}: ${e?.message ?? e}`, {
+      path: SEARCHES_PATH,
+    });
+  }
+}
+
+async function writeSearches(searches: SavedSearch[]) {
+  await fs.promises.mkdir(path.dirname(SEARCHES_PATH), { recursive: true });
+  // erst temporär schreiben, dann umbenennen: ein Abbruch hinterlässt nie eine halbe Datei
+  const tmp = `${SEARCHES_PATH}.${process.pid}.tmp`;
+  await fs.promises.writeFile(tmp, JSON.stringify({ searches }, null, 2) + "\n", "utf8");
+  await fs.promises.rename(tmp, SEARCHES_PATH);
+}
+
+/**
+ * Validates the definition of a saved search: the same fields as /api/v1/jobs
+ * (keywords, filters, `match`, maxResults/maxPages) plus a required `name` and an optional `session`.
+ */
+export function savedSearchFromInput(input: Record<string, unknown>): Pick<SavedSearch, "profile" | "session"> {
+  if (typeof input.name !== "string" || !input.name.trim()) {
+    throw new InvalidProfileError("name is required for a saved search", { field: "name" });
+  }
+  return { profile: searchProfileFromInput(input), session: sessionFromInput(input) };
+}
+
+/** All saved searches, by name. */
+export async function listSavedSearches(): Promise<SavedSearch[]> {
+  const searches = await readSearches();
+  return searches.sort((a, b) => a.profile.name.localeCompare(b.profile.name) || a.id.localeCompare(b.id));
+}
+
+/** Throws SEARCH_NOT_FOUND for unknown IDs. */
+export async function getSavedSearch(id: string): Promise<SavedSearch> {
+  const search = (await readSearches()).find((s) => s.id === id);
+  if (!search) throw new SearchNotFoundError(id);
+  return search;
+}
+
+/** Saves a new search; `input.id` is optional (default: random UUID), an existing ID is SEARCH_CONFLICT. */
+export async function createSavedSearch(input: Record<string, unknown>): Promise<SavedSearch> {
+  const definition = savedSearchFromInput(input);
+  const id = input.id === undefined || input.id === "" ? randomUUID() : String(input.id);
+  if (!ID_PATTERN.test(id)) {
+    throw new InvalidInputError("INVALID_SEARCH_ID", `invalid search id "${id}"`, { field: "id" });
+  }
+
+  return serialized(async () => {
+    const searches = await readSearches();
+    if (searches.some((s) => s.id === id)) throw new SearchConflictError(id);
+
+    const now = new Date().toISOString();
+    const search: SavedSearch = { id, ...definition, createdAt: now, updatedAt: now };
+    await writeSearches([...searches, search]);
+    return search;
+  });
+}
+
+/** Replaces the definition of search `id` (keeps `createdAt`). */
+export async function replaceSavedSearch(id: string, input: Record<string, unknown>): Promise<SavedSearch> {
+  const definition = savedSearchFromInput(input);
+
+  return serialized(async () => {
+    const searches = await readSearches();
+    const index = searches.findIndex((s) => s.id === id);
+    if (index === -1) throw new SearchNotFoundError(id);
+
+    const search: SavedSearch = { ...searches[index], ...definition, updatedAt: new Date().toISOString() };
+    // ohne `session` in der neuen Definition gilt wieder SESSION_NAME
+    if (!definition.session) delete search.session;
+    searches[index] = search;
+    await writeSearches(searches);
+    return search;
+  });
+}
+
+/** Deletes search `id` and returns it. */
+export function deleteSavedSearch(id: string): Promise<SavedSearch> {
+  return serialized(async () => {
+    const searches = await readSearches();
+    const search = searches.find((s) => s.id === id);
+    if (!search) throw new SearchNotFoundError(id);
+
+    await writeSearches(searches.filter((s) => s !== search));
+    return search;
+  });
+}
+
+/**
+ * Profile and session for a run: with `input.searchId` the saved search (its other fields are
+ * ignored, only `session` may override the stored one), otherwise the ad-hoc parameters.
+ */
+export async function resolveSearch(input: Record<string, unknown>): Promise<ResolvedSearch> {
+  const searchId = input.searchId;
+  if (searchId === undefined || searchId === null || searchId === "") {
+    return { profile: searchProfileFromInput(input), session: sessionFromInput(input) };
+  }
+
+  const search = await getSavedSearch(String(searchId));
+  return { profile: search.profile, session: sessionFromInput(input) ?? search.session, searchId: search.id };
+}
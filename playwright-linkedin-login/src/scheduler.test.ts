@@ -0,0 +1,196 @@
+import "./testing/env";
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import { describe, it } from "node:test";
+import { AppError, NavigationTimeoutError } from "./errors";
+import { isQuietTime, parseCron, parseQuietHours } from "./cron";
+import {
+  isScheduleDue,
+  listScheduledRuns,
+  loadScheduleFile,
+  runSchedule,
+  Schedule,
+  ScheduledProfileResult,
+} from "./scheduler";
+import { DEFAULT_SEARCH_PROFILE, SearchProfile } from "./search-profile";
+import { createSavedSearch } from "./saved-searches";
+
+const at = (iso: string) => new Date(iso);
+
+function isInvalidSchedule(err: unknown) {
+  return err instanceof AppError && err.code === "INVALID_SCHEDULE";
+}
+
+function writeSchedules(name: string, content: unknown): string {
+  const file = path.join(process.env.OUTPUT_DIR!, name);
+  fs.writeFileSync(file, JSON.stringify(content), "utf8");
+  return file;
+}
+
+function schedule(overrides: Partial<Schedule> = {}): Schedule {
+  return {
+    name: "test",
+    cron: null,
+    profiles: [DEFAULT_SEARCH_PROFILE, { ...DEFAULT_SEARCH_PROFILE, name: "second" }],
+    searchIds: [],
+    formats: [],
+    quietHours: null,
+    enabled: true,
+    ...overrides,
+  };
+}
+
+describe("cron expressions", () => {
+  it("matches minutes, ranges, steps and weekday names", () => {
+    const cron = parseCron("*/15 9-17 * * MON-FRI", "UTC");
+    assert.equal(cron.matches(at("2026-10-19T09:30:00Z")), true); // Montag
+    assert.equal(cron.matches(at("2026-10-19T09:31:00Z")), false);
+    assert.equal(cron.matches(at("2026-10-19T18:00:00Z")), false);
+    assert.equal(cron.matches(at("2026-10-24T09:30:00Z")), false); // Samstag
+    // Freitagabend -> Montagmorgen
+    assert.deepEqual(cron.next(at("2026-10-23T17:50:00Z")), at("2026-10-26T09:00:00Z"));
+  });
+
+  it("ORs day-of-month and weekday, accepts 7 for Sunday and Azure's seconds field", () => {
+    const cron = parseCron("0 7 1 * 7", "UTC");
+    assert.equal(cron.matches(at("2026-10-25T07:00:00Z")), true); // Sonntag
+    assert.equal(cron.matches(at("2026-10-01T07:00:00Z")), true); // der 1.
+    assert.equal(cron.matches(at("2026-10-19T07:00:00Z")), false);
+
+    assert.equal(parseCron("0 0 7 * * 1-5", "UTC").matches(at("2026-10-19T07:00:00Z")), true);
+    assert.equal(parseCron("0 0 30 2 *", "UTC").next(at("2026-10-19T00:00:00Z")), null);
+  });
+
+  it("evaluates in the schedule's time zone across DST changes", () => {
+    const cron = parseCron("0 7 * * *", "Europe/Berlin");
+    assert.deepEqual(cron.next(at("2026-10-19T00:00:00Z")), at("2026-10-19T05:00:00Z")); // CEST
+    assert.deepEqual(cron.next(at("2026-10-26T00:00:00Z")), at("2026-10-26T06:00:00Z")); // CET
+  });
+
+  it("rejects malformed expressions and unknown time zones", () => {
+    for (const expression of ["61 * * * *", "* * *", "5-1 * * * *", "*/0 * * * *", "0 7 * * FOO"]) {
+      assert.throws(() => parseCron(expression, "UTC"), isInvalidSchedule, expression);
+    }
+    assert.throws(() => parseCron("0 7 * * *", "Mars/Olympus"), isInvalidSchedule);
+  });
+
+  it("quiet hours wrap past midnight and exclude their end", () => {
+    const quiet = parseQuietHours("22:00-06:00");
+    assert.equal(isQuietTime(at("2026-10-19T23:00:00Z"), quiet, "UTC"), true);
+    assert.equal(isQuietTime(at("2026-10-19T05:59:00Z"), quiet, "UTC"), true);
+    assert.equal(isQuietTime(at("2026-10-19T06:00:00Z"), quiet, "UTC"), false);
+    assert.equal(isQuietTime(at("2026-10-19T12:00:00Z"), quiet, "UTC"), false);
+    assert.equal(parseQuietHours(""), null);
+    assert.throws(() => parseQuietHours("25:00-06:00"), isInvalidSchedule);
+  });
+});
+
+describe("scheduler", () => {
+  it("loads schedules and rejects invalid ones", () => {
+    const file = writeSchedules("schedules.json", {
+      schedules: [
+        {
+          name: "weekday-morning",
+          cron: "0 7 * * 1-5",
+          profiles: [{ keywords: "AI", location: "Berlin" }, { keywords: "HR" }],
+          session: "auto",
+          formats: ["csv"],
+          quietHours: "22:00-06:00",
+        },
+        { name: "timer-only", searchIds: ["berlin"], enabled: false },
+      ],
+    });
+    const [morning, timerOnly] = loadScheduleFile(file);
+    assert.equal(morning.cron?.expression, "0 7 * * 1-5");
+    assert.equal(morning.profiles.length, 2);
+    assert.equal(morning.session, "auto");
+    assert.deepEqual(morning.formats, ["csv"]);
+    assert.equal(morning.quietHours?.text, "22:00-06:00");
+    assert.deepEqual(timerOnly.searchIds, ["berlin"]);
+    assert.equal(timerOnly.cron, null);
+    assert.equal(timerOnly.enabled, false);
+
+    const invalid = [
+      [{ name: "a", cron: "0 25 * * *", profiles: [{}] }],
+      [{ name: "a", profiles: [] }],
+      [{ name: "a", profiles: [{}], formats: ["pdf"] }],
+      [
+        { name: "a", profiles: [{}] },
+        { name: "a", profiles: [{}] },
+      ],
+    ];
+    for (const content of invalid) {
+      assert.throws(() => loadScheduleFile(writeSchedules("invalid.json", content)), isInvalidSchedule);
+    }
+  });
+
+  it("is due on a timer tick only when its cron occurred since the previous tick", () => {
+    const weekly = schedule({ cron: parseCron("0 7 * * MON", "UTC") });
+    const tick = at("2026-10-19T07:00:00Z"); // Montag
+    assert.equal(isScheduleDue(weekly, at("2026-10-19T06:45:00Z"), tick), true);
+    assert.equal(isScheduleDue(weekly, at("2026-10-19T07:00:00Z"), at("2026-10-19T07:15:00Z")), false);
+    assert.equal(isScheduleDue(weekly, at("2026-10-20T06:45:00Z"), at("2026-10-20T07:00:00Z")), false);
+    // verpasste Ticks: fällig, sobald seit dem letzten Tick ein Termin lag
+    assert.equal(isScheduleDue(weekly, at("2026-10-16T07:00:00Z"), at("2026-10-20T07:00:00Z")), true);
+    // ohne cron: bei jedem Tick
+    assert.equal(isScheduleDue(schedule(), at("2026-10-20T06:45:00Z"), at("2026-10-20T07:00:00Z")), true);
+  });
+
+  it("skips overlapping starts and quiet hours and records every run", async () => {
+    let release!: () => void;
+    const blocked = new Promise<void>((resolve) => (release = resolve));
+    const calls: string[] = [];
+    const runProfile = async (profile: { name: string }): Promise<ScheduledProfileResult> => {
+      calls.push(profile.name);
+      await blocked;
+      if (profile.name === "second") throw new NavigationTimeoutError("search", "https://example.test/", 1000);
+      return { profile: profile.name, completion: "complete", count: 3, newCount: 1, files: [] };
+    };
+
+    const first = runSchedule(schedule(), { trigger: "scheduler", runProfile });
+    const overlap = await runSchedule(schedule(), { trigger: "timer", runProfile });
+    assert.equal(overlap.state, "skipped");
+    assert.equal(overlap.skipReason, "overlap");
+
+    release();
+    const finished = await first;
+    assert.deepEqual(calls, [DEFAULT_SEARCH_PROFILE.name, "second"]);
+    assert.equal(finished.state, "failed");
+    assert.equal(finished.profiles[0].count, 3);
+    assert.equal(finished.profiles[1].errorCode, "NAV_TIMEOUT");
+
+    // ganzer Tag Ruhezeit
+    const quiet = await runSchedule(schedule({ quietHours: { start: 0, end: 24 * 60, text: "00:00-24:00" } }), {
+      trigger: "scheduler",
+      runProfile,
+    });
+    assert.equal(quiet.skipReason, "quiet_hours");
+    assert.equal(calls.length, 2);
+
+    const runs = await listScheduledRuns(10, "test");
+    assert.deepEqual(
+      runs.map((r) => r.id),
+      [quiet.id, finished.id, overlap.id]
+    );
+    assert.deepEqual(await listScheduledRuns(1, "test"), [quiet]);
+  });
+
+  it("runs saved searches by id with their own session", async () => {
+    await createSavedSearch({ id: "scheduled", name: "saved", keywords: "recruiter", session: "auto" });
+    const calls: [string, string | undefined][] = [];
+    const runProfile = async (profile: SearchProfile, session: string | undefined) => {
+      calls.push([profile.name, session]);
+      return { profile: profile.name, completion: "complete" as const, count: 0, newCount: 0, files: [] };
+    };
+
+    const record = await runSchedule(
+      schedule({ name: "saved", profiles: [], searchIds: ["scheduled", "missing"], session: "default" }),
+      { trigger: "timer", runProfile }
+    );
+    assert.deepEqual(calls, [["saved", "auto"]]);
+    assert.equal(record.state, "failed");
+    assert.equal(record.profiles[0].searchId, "scheduled");
+    assert.equal(record.profiles[1].errorCode, "SEARCH_NOT_FOUND");
+  });
+});
@@ -0,0 +1,332 @@
+// FILE: src/scheduler.ts
+//
+// Geplante Runs ohne API-Aufruf. Schedules kommen aus SCHEDULES_PATH (JSON), jeder mit einem oder mehreren
+// Suchprofilen bzw. gespeicherten Suchen (src/saved-searches.ts). Zwei Auslöser teilen sich runSchedule():
+//   - Express-Server: startScheduler() prüft jede Minute die `cron`-Ausdrücke (src/cron.ts)
+//   - Azure: Timer-Function runScheduledSearches (eigener NCRONTAB-Zeitplan, führt die seit dem letzten Tick
+//     fälligen Schedules aus)
+// Läuft ein Schedule noch, wird der nächste Start übersprungen; in den Ruhezeiten (SCHEDULE_QUIET_HOURS
+// bzw. `quietHours`) ebenso. Jeder Start landet im Run-Log (SCHEDULE_LOG_PATH, NDJSON), auch übersprungene.
+// Die Ergebnisse schreibt searchJobsAndWriteTxt nach OUTPUT_DIR und in den Job-Store, Webhooks feuern wie sonst.
+
+import fs from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import { FetchCompletion } from "./jobs-ai-hr";
+import { searchJobsAndWriteTxt } from "./jobs-search";
+import { runWithLinkedInSession } from "./reuse-session";
+import { createDiagnostics } from "./diagnostics";
+import { AppError, ConfigurationError, toAppError } from "./errors";
+import { getExporter } from "./exporters";
+import { SearchProfile, searchProfileFromInput } from "./search-profile";
+import { getSavedSearch } from "./saved-searches";
+import { sessionFromInput } from "./sessions";
+import { createRunNotifier } from "./webhooks";
+import { assertTimeZone, CronSchedule, isQuietTime, parseCron, parseQuietHours, QuietHours } from "./cron";
+
+const SCHEDULE_LOG_PATH =
+  process.env.SCHEDULE_LOG_PATH || path.join(process.env.OUTPUT_DIR || "output", "schedule-runs.ndjson");
+const TIMEZONE = process.env.SCHEDULE_TIMEZONE || Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export type ScheduleTrigger = "scheduler" | "timer";
+
+export type Schedule = {
+  name: string;
+  cron: CronSchedule | null; // null = nur über die Azure-Timer-Function, dann bei jedem Tick
+  profiles: SearchProfile[];
+  // gespeicherte Suchen, werden erst beim Start geladen (Änderungen gelten ab dem nächsten Run)
+  searchIds: string[];
+  session?: string; // Name oder "auto"; gespeicherte Suchen mit eigener Session nutzen ihre
+  formats: string[]; // zusätzliche Exportformate (src/exporters.ts)
+  quietHours: QuietHours | null;
+  enabled: boolean;
+};
+
+export type ScheduledProfileResult = {
+  profile: string;
+  searchId?: string;
+  session?: string;
+  completion?: FetchCompletion;
+  reason?: string;
+  count?: number;
+  newCount?: number;
+  files?: string[];
+  // nur wenn das Profil gescheitert ist
+  error?: string;
+  errorCode?: string;
+};
+
+export type ScheduledRunRecord = {
+  id: string;
+  schedule: string;
+  trigger: ScheduleTrigger;
+  // skipped = gar nicht gestartet (skipReason), failed = mindestens ein Profil gescheitert
+  state: "succeeded" | "failed" | "skipped";
+  skipReason?: "overlap" | "quiet_hours" | "disabled";
+  startedAt: string;
+  finishedAt: string;
+  profiles: ScheduledProfileResult[];
+};
+
+export type ScheduleRunOptions = {
+  trigger: ScheduleTrigger;
+  // Browser-Pool des Servers nutzen (Express); Azure startet einen eigenen Browser
+  pool?: boolean;
+  // Ruhezeiten ignorieren (z. B. manueller Start)
+  ignoreQuietHours?: boolean;
+  // ersetzt den Browser-Run, für Tests
+  runProfile?: (
+    profile: SearchProfile,
+    session: string | undefined,
+    schedule: Schedule
+  ) => Promise<ScheduledProfileResult>;
+};
+
+function invalidSchedules(file: string, message: string) {
+  return new ConfigurationError("INVALID_SCHEDULE", `${file}: ${message}`, { path: file });
+}
+
+/**
+ * Reads schedules from a JSON file: an array (or `{ "schedules": [...] }`) of
+ * `{ name, cron?, profiles?: [<search profile>...], searchIds?: [...], session?, formats?, quietHours?, enabled? }`.
+ */
+export function loadScheduleFile(file: string): Schedule[] {
+  let raw: any;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (e: any) {
+    throw invalidSchedules(file, e?.message ?? String(e));
+  }
+
+  const list = Array.isArray(raw) ? raw : raw?.schedules;
+  if (!Array.isArray(list)) throw invalidSchedules(file, "expected an array of schedules.");
+  const defaultQuietHours = parseQuietHours(process.env.SCHEDULE_QUIET_HOURS);
+  const names = new Set<string>();
+
+  return list.map((entry: any, i): Schedule => {
+    const name = typeof entry?.name === "string" && entry.name.trim() ? entry.name.trim() : `schedule-${i + 1}`;
+    if (names.has(name)) throw invalidSchedules(file, `duplicate schedule name "${name}".`);
+    names.add(name);
+
+    const profiles = Array.isArray(entry?.profiles) ? entry.profiles : [];
+    const searchIds = Array.isArray(entry?.searchIds) ? entry.searchIds.map(String) : [];
+    if (!profiles.length && !searchIds.length) {
+      throw invalidSchedules(file, `schedule "${name}" needs at least one profile or searchId.`);
+    }
+
+    try {
+      const formats: string[] = Array.isArray(entry.formats) ? entry.formats.map(String) : [];
+      formats.forEach(getExporter);
+      return {
+        name,
+        cron: typeof entry.cron === "string" ? parseCron(entry.cron, TIMEZONE) : null,
+        profiles: profiles.map((p: unknown) => searchProfileFromInput(p as Record<string, unknown>)),
+        searchIds,
+        session: sessionFromInput(entry),
+        formats,
+        quietHours: entry.quietHours === undefined ? defaultQuietHours : parseQuietHours(entry.quietHours ?? ""),
+        enabled: entry.enabled !== false,
+      };
+    } catch (e) {
+      throw invalidSchedules(file, `schedule "${name}": ${toAppError(e).message}`);
+    }
+  });
+}
+
+let configured: Schedule[] | null = null;
+
+/** Schedules from SCHEDULES_PATH (none if unset), read on first use. */
+export function listSchedules(): Schedule[] {
+  if (!configured) {
+    assertTimeZone(TIMEZONE);
+    configured = process.env.SCHEDULES_PATH ? loadScheduleFile(process.env.SCHEDULES_PATH) : [];
+  }
+  return configured;
+}
+
+export function scheduleTimeZone(): string {
+  return TIMEZONE;
+}
+
+// Schedules, die gerade laufen (pro Prozess; die Azure-Timer-Function läuft ohnehin als Singleton)
+const running = new Set<string>();
+
+export function isScheduleRunning(name: string): boolean {
+  return running.has(name);
+}
+
+// Log-Zeilen nicht verschränken, wenn zwei Schedules gleichzeitig fertig werden
+let logChain: Promise<unknown> = Promise.resolve();
+
+function appendRunLog(record: ScheduledRunRecord) {
+  logChain = logChain
+    .then(async () => {
+      await fs.promises.mkdir(path.dirname(SCHEDULE_LOG_PATH), { recursive: true });
+      await fs.promises.appendFile(SCHEDULE_LOG_PATH, JSON.stringify(record) + "\n", "utf8");
+    })
+    .catch((e) => console.warn(`⚠️ Could not write schedule run log: ${toAppError(e).message}`));
+  return logChain;
+}
+
+/** Most recent scheduled runs from the run log, newest first; `schedule` filters by name. */
+export async function listScheduledRuns(limit = 50, schedule?: string): Promise<ScheduledRunRecord[]> {
+  await logChain;
+  const raw = await fs.promises.readFile(SCHEDULE_LOG_PATH, "utf8").catch((e: any) => {
+    if (e?.code === "ENOENT") return "";
+    throw e;
+  });
+
+  const records: ScheduledRunRecord[] = [];
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      records.push(JSON.parse(line));
+    } catch {
+      // halb geschriebene Zeile überspringen
+    }
+  }
+  return records
+    .filter((r) => !schedule || r.schedule === schedule)
+    .reverse()
+    .slice(0, limit);
+}
+
+async function runProfileInBrowser(
+  profile: SearchProfile,
+  session: string | undefined,
+  schedule: Schedule,
+  options: ScheduleRunOptions
+): Promise<ScheduledProfileResult> {
+  const diagnostics = createDiagnostics(`schedule-${schedule.name}-${randomUUID()}`);
+  const notifier = createRunNotifier(profile.name);
+  const result = await runWithLinkedInSession(
+    async (page, used) => ({
+      ...(await searchJobsAndWriteTxt(page, profile, {
+        diagnostics,
+        sessionKey: used.name,
+        formats: schedule.formats,
+        onJobMatched: notifier.onJobMatched,
+      })),
+      session: used.name,
+    }),
+    { pool: options.pool, session, diagnostics }
+  );
+  await notifier.finish(result);
+
+  return {
+    profile: profile.name,
+    session: result.session,
+    completion: result.completion,
+    reason: result.reason,
+    count: result.jobs.length,
+    newCount: result.jobs.filter((j) => j.status === "new").length,
+    files: result.exports.map((e) => e.path),
+  };
+}
+
+/**
+ * Runs all profiles of `schedule` one after another and records the outcome in the run log.
+ * Skips (and records) the start while the schedule is still running, during quiet hours or
+ * when it is disabled. Never throws: failed profiles end up in the record.
+ */
+export async function runSchedule(schedule: Schedule, options: ScheduleRunOptions): Promise<ScheduledRunRecord> {
+  const startedAt = new Date();
+  const record: ScheduledRunRecord = {
+    id: randomUUID(),
+    schedule: schedule.name,
+    trigger: options.trigger,
+    state: "skipped",
+    startedAt: startedAt.toISOString(),
+    finishedAt: startedAt.toISOString(),
+    profiles: [],
+  };
+
+  if (!schedule.enabled) record.skipReason = "disabled";
+  else if (running.has(schedule.name)) record.skipReason = "overlap";
+  else if (!options.ignoreQuietHours && isQuietTime(startedAt, schedule.quietHours, TIMEZONE)) {
+    record.skipReason = "quiet_hours";
+  }
+  if (record.skipReason) {
+    console.log(`⏭️ Schedule ${schedule.name} skipped (${record.skipReason})`);
+    await appendRunLog(record);
+    return record;
+  }
+
+  running.add(schedule.name);
+  const total = schedule.profiles.length + schedule.searchIds.length;
+  console.log(`⏰ Schedule ${schedule.name} started (${options.trigger}): ${total} profile(s)`);
+  try {
+    const runProfile = options.runProfile ?? ((p, session, s) => runProfileInBrowser(p, session, s, options));
+    const run = async (name: string, load: () => Promise<[SearchProfile, string?]>, extra = {}) => {
+      try {
+        const [profile, session] = await load();
+        record.profiles.push({ ...(await runProfile(profile, session, schedule)), ...extra });
+      } catch (e) {
+        const err: AppError = toAppError(e);
+        console.error(`❌ Schedule ${schedule.name}, profile ${name}: ${err.message}`);
+        record.profiles.push({ profile: name, ...extra, error: err.message, errorCode: err.code });
+      }
+    };
+
+    for (const profile of schedule.profiles) {
+      await run(profile.name, async () => [profile, schedule.session]);
+    }
+    for (const searchId of schedule.searchIds) {
+      const load = async (): Promise<[SearchProfile, string?]> => {
+        const search = await getSavedSearch(searchId);
+        return [search.profile, search.session ?? schedule.session];
+      };
+      await run(searchId, load, { searchId });
+    }
+  } finally {
+    running.delete(schedule.name);
+  }
+
+  record.state = record.profiles.some((p) => p.error) ? "failed" : "succeeded";
+  record.finishedAt = new Date().toISOString();
+  console.log(`⏰ Schedule ${schedule.name} ${record.state}`);
+  await appendRunLog(record);
+  return record;
+}
+
+/**
+ * Whether `schedule` had a cron occurrence after `since` and up to `now`, i.e. is due on this timer tick.
+ * Schedules without `cron` are due on every tick.
+ */
+export function isScheduleDue(schedule: Schedule, since: Date, now = new Date()): boolean {
+  if (!schedule.cron) return true;
+  const next = schedule.cron.next(since);
+  return next !== null && next.getTime() <= now.getTime();
+}
+
+let timer: NodeJS.Timeout | null = null;
+
+/**
+ * Starts the in-process scheduler: at every full minute, schedules whose `cron` matches are
+ * started in the background (using the browser pool). Returns the schedules it watches.
+ */
+export function startScheduler(schedules: Schedule[] = listSchedules()): Schedule[] {
+  stopScheduler();
+  const watched = schedules.filter((s) => s.cron);
+  if (!watched.length) return watched;
+
+  const tick = () => {
+    const now = new Date();
+    for (const schedule of watched) {
+      if (schedule.cron?.matches(now)) void runSchedule(schedule, { trigger: "scheduler", pool: true });
+    }
+    scheduleTick();
+  };
+  // kurz nach jeder vollen Minute, damit matches() sicher die neue Minute sieht
+  const scheduleTick = () => {
+    timer = setTimeout(tick, 60_000 - (Date.now() % 60_000) + 500);
+    timer.unref();
+  };
+  scheduleTick();
+  return watched;
+}
+
+export function stopScheduler() {
+  if (timer) clearTimeout(timer);
+  timer = null;
+}
@@ -0,0 +1,104 @@
+import "./testing/env";
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { AppError } from "./errors";
+import { ApiJob } from "./jobs-ai-hr";
+import { MatchHit } from "./match-expression";
+import { createScorer, scoringFromInput, sortJobs } from "./scoring";
+import { searchProfileFromInput } from "./search-profile";
+
+const NOW = new Date("2026-10-19T12:00:00Z");
+
+const doc = {
+  title: "Senior AI Recruiter",
+  company: "Acme GmbH",
+  description: "Talent acquisition for our machine learning team. Internship program available.",
+};
+
+function isInvalidProfile(field: string) {
+  return (err: unknown) => err instanceof AppError && err.code === "INVALID_PROFILE" && err.details.field === field;
+}
+
+describe("relevance scoring", () => {
+  it("counts match hits by field weight when no terms are configured", () => {
+    const hits: MatchHit[] = [
+      { term: "ai", field: "title", negated: false },
+      { term: "ai", field: "title", negated: false }, // doppelt im Ausdruck -> zählt einmal
+      { term: "talent", field: "description", negated: false },
+      { term: "intern*", field: "description", negated: true },
+    ];
+    const { score, scoreBreakdown } = createScorer({ recencyWeight: 0 }, NOW)(doc, hits, "2026-10-19");
+    assert.deepEqual(
+      scoreBreakdown.map((e) => (e.type === "term" ? [e.term, e.field, e.points] : e.type)),
+      [
+        ["ai", "title", 3],
+        ["talent", "description", 1],
+        ["intern*", "description", -1],
+      ]
+    );
+    assert.equal(score, 3);
+  });
+
+  it("applies weighted and negative terms per field plus a recency decay", () => {
+    const scorer = createScorer(
+      {
+        terms: [
+          { term: "recruit*", weight: 2, fields: ["title", "description"] },
+          { term: "machine learning", weight: 1, fields: ["title", "company", "description"] },
+          { term: "internship", weight: -4, fields: ["title", "company", "description"] },
+        ],
+        fieldWeights: { title: 5 },
+        recencyWeight: 4,
+        recencyHalfLifeDays: 7,
+      },
+      NOW
+    );
+
+    const fresh = scorer(doc, [], "2026-10-19");
+    // 2×5 (Titel) + 1×1 + (-4)×1 + 4 (heute)
+    assert.equal(fresh.score, 11);
+    assert.deepEqual(fresh.scoreBreakdown.at(-1), { type: "recency", ageDays: 0, points: 4 });
+
+    assert.equal(scorer(doc, [], "2026-10-12").score, 9); // eine Halbwertszeit
+    assert.equal(scorer(doc, [], "").score, 7); // Datum unbekannt -> kein Bonus
+  });
+
+  it("sorts by score or posting date and keeps the page order otherwise", () => {
+    const job = (jobId: string, score: number, postingDate: string) => ({ jobId, score, postingDate }) as ApiJob;
+    const jobs = () => [
+      job("a", 2, "2026-10-01"),
+      job("b", 5, ""),
+      job("c", 5, "2026-10-10"),
+      job("d", 1, "2026-10-18"),
+    ];
+
+    assert.deepEqual(sortJobs(jobs(), "score").map((j) => j.jobId), ["c", "b", "a", "d"]);
+    assert.deepEqual(sortJobs(jobs(), "date").map((j) => j.jobId), ["d", "c", "a", "b"]);
+    assert.deepEqual(sortJobs(jobs()).map((j) => j.jobId), ["a", "b", "c", "d"]);
+
+    // Jobs aus dem Store von vor dem Scoring haben keinen Score
+    const stored = [{ jobId: "old", postingDate: "2026-10-19" } as ApiJob, ...jobs(), { jobId: "older" } as ApiJob];
+    assert.deepEqual(sortJobs(stored, "score").map((j) => j.jobId), ["c", "b", "a", "d", "old", "older"]);
+  });
+
+  it("validates scoring, minScore and sort in search profiles", () => {
+    const profile = searchProfileFromInput({
+      keywords: "recruiter",
+      minScore: "2.5",
+      sort: "score",
+      scoring: { terms: [{ term: "talent", weight: 2 }], fieldWeights: { title: 4 } },
+    });
+    assert.equal(profile.minScore, 2.5);
+    assert.equal(profile.sort, "score");
+    assert.deepEqual(profile.scoring, {
+      terms: [{ term: "talent", weight: 2, fields: ["title", "company", "description"] }],
+      fieldWeights: { title: 4 },
+    });
+
+    assert.throws(() => searchProfileFromInput({ sort: "random" }), isInvalidProfile("sort"));
+    assert.throws(() => searchProfileFromInput({ minScore: "high" }), isInvalidProfile("minScore"));
+    assert.throws(() => scoringFromInput({ terms: [{ weight: 2 }] }), isInvalidProfile("scoring.terms[0]"));
+    assert.throws(() => scoringFromInput({ fieldWeights: { salary: 2 } }), isInvalidProfile("scoring.fieldWeights"));
+    assert.throws(() => scoringFromInput({ recencyWeight: -1 }), isInvalidProfile("scoring.recencyWeight"));
+  });
+});
@@ -0,0 +1,200 @@
+// FILE: src/scoring.ts
+//
+// Relevanz-Score pro Job, zusätzlich zum Match-Filter (der entscheidet weiterhin ja/nein):
+//
+//   score = Σ Gewicht(Term) × Gewicht(Feld)   für jeden Term, der im Feld vorkommt
+//         + recencyWeight × 0.5^(Alter in Tagen / recencyHalfLifeDays)
+//
+// - Terme: `terms` aus der Konfiguration (negatives Gewicht = spricht gegen den Job); ohne `terms` zählen
+//   die Treffer des Match-Ausdrucks (Gewicht 1, unter NOT -1)
+// - Felder: Treffer im Titel zählen mehr als in der Beschreibung (fieldWeights)
+// - Alter aus `postingDate`; ohne bekanntes Datum gibt es keinen Frische-Bonus
+//
+// Konfiguration: DEFAULT_SCORING <- SCORING_PATH (JSON) <- `scoring` des Suchprofils.
+// `minScore` im Suchprofil verwirft Jobs darunter, `sort` (score|date|page) bestimmt die Reihenfolge.
+
+import fs from "fs";
+import { ConfigurationError, InvalidProfileError } from "./errors";
+import { MatchDocument, MatchField, MatchHit, termPattern } from "./match-expression";
+import { ApiJob } from "./jobs-ai-hr";
+
+export type ScoreTerm = {
+  term: string; // Syntax wie ein Term im Match-Ausdruck: Wort, "Phrase", Wildcards * und ?
+  weight: number;
+  fields: MatchField[];
+};
+
+export type ScoringConfig = {
+  terms: ScoreTerm[];
+  fieldWeights: Record<MatchField, number>;
+  recencyWeight: number; // Bonus für einen heute veröffentlichten Job
+  recencyHalfLifeDays: number; // nach so vielen Tagen ist der Bonus halbiert
+};
+
+// einzelne Einstellungen überschreiben; fieldWeights auch nur für einzelne Felder
+export type ScoringOverrides = Partial<Omit<ScoringConfig, "fieldWeights">> & {
+  fieldWeights?: Partial<Record<MatchField, number>>;
+};
+
+export type ScoreEntry =
+  | { type: "term"; term: string; field: MatchField; weight: number; points: number }
+  | { type: "recency"; ageDays: number; points: number };
+
+export type JobScore = {
+  score: number;
+  scoreBreakdown: ScoreEntry[];
+};
+
+// page = Reihenfolge der Suchergebnisse (wie gescrapt)
+export type JobSort = "page" | "score" | "date";
+export const JOB_SORTS: readonly JobSort[] = ["page", "score", "date"];
+
+const ALL_FIELDS: MatchField[] = ["title", "company", "description"];
+const DAY_MS = 24 * 60 * 60_000;
+
+export const DEFAULT_SCORING: ScoringConfig = {
+  terms: [],
+  fieldWeights: { title: 3, company: 1, description: 1 },
+  recencyWeight: 2,
+  recencyHalfLifeDays: 14,
+};
+
+function round(n: number) {
+  return Math.round(n * 100) / 100;
+}
+
+function finiteNumber(field: string, value: unknown, min = -Infinity): number {
+  const n = typeof value === "string" && value.trim() ? Number(value) : value;
+  if (typeof n !== "number" || !Number.isFinite(n) || n < min) {
+    throw new InvalidProfileError(`${field} must be a number${min > -Infinity ? ` >= ${min}` : ""}`, { field });
+  }
+  return n;
+}
+
+/**
+ * Validates a (partial) scoring config from loosely typed input, e.g. `scoring` in a JSON body:
+ * `{ "terms": [{ "term": "recruit*", "weight": 3, "fields": ["title"] }], "fieldWeights": { "title": 5 },
+ *    "recencyWeight": 2, "recencyHalfLifeDays": 7 }`. Throws INVALID_PROFILE (`details.field`).
+ */
+export function scoringFromInput(input: unknown): ScoringOverrides {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    throw new InvalidProfileError("scoring must be an object", { field: "scoring" });
+  }
+  const src = input as Record<string, unknown>;
+  const scoring: ScoringOverrides = {};
+
+  if (src.terms !== undefined) {
+    if (!Array.isArray(src.terms)) {
+      throw new InvalidProfileError("scoring.terms must be an array", { field: "scoring.terms" });
+    }
+    scoring.terms = src.terms.map((raw: any, i): ScoreTerm => {
+      const field = `scoring.terms[${i}]`;
+      const term = typeof raw?.term === "string" ? raw.term.replace(/^"|"$/g, "").trim() : "";
+      if (!term) throw new InvalidProfileError(`${field}.term is required`, { field });
+      const fields = raw.fields === undefined ? ALL_FIELDS : raw.fields;
+      if (!Array.isArray(fields) || !fields.length || fields.some((f) => !ALL_FIELDS.includes(f))) {
+        throw new InvalidProfileError(`${field}.fields must be a list of ${ALL_FIELDS.join(", ")}`, { field });
+      }
+      return { term, weight: finiteNumber(`${field}.weight`, raw.weight ?? 1), fields };
+    });
+  }
+
+  if (src.fieldWeights !== undefined) {
+    const weights = src.fieldWeights as Record<string, unknown>;
+    const unknownField = (f: string) => !ALL_FIELDS.includes(f as MatchField);
+    if (!weights || typeof weights !== "object" || Object.keys(weights).some(unknownField)) {
+      throw new InvalidProfileError(`scoring.fieldWeights may only contain ${ALL_FIELDS.join(", ")}`, {
+        field: "scoring.fieldWeights",
+      });
+    }
+    scoring.fieldWeights = {};
+    for (const [field, weight] of Object.entries(weights)) {
+      scoring.fieldWeights[field as MatchField] = finiteNumber(`scoring.fieldWeights.${field}`, weight, 0);
+    }
+  }
+
+  if (src.recencyWeight !== undefined) {
+    scoring.recencyWeight = finiteNumber("scoring.recencyWeight", src.recencyWeight, 0);
+  }
+  if (src.recencyHalfLifeDays !== undefined) {
+    scoring.recencyHalfLifeDays = finiteNumber("scoring.recencyHalfLifeDays", src.recencyHalfLifeDays, 0);
+  }
+  return scoring;
+}
+
+function mergeScoring(base: ScoringConfig, overrides: ScoringOverrides): ScoringConfig {
+  return { ...base, ...overrides, fieldWeights: { ...base.fieldWeights, ...overrides.fieldWeights } };
+}
+
+let configured: ScoringConfig | null = null;
+
+/** DEFAULT_SCORING with the overrides from SCORING_PATH, read on first use. */
+export function defaultScoring(): ScoringConfig {
+  if (configured) return configured;
+
+  const file = process.env.SCORING_PATH;
+  if (!file) return (configured = DEFAULT_SCORING);
+  try {
+    configured = mergeScoring(DEFAULT_SCORING, scoringFromInput(JSON.parse(fs.readFileSync(file, "utf8"))));
+  } catch (e: any) {
+    throw new ConfigurationError("INVALID_SCORING_CONFIG", `${file}: ${e?.message ?? e}`, { path: file });
+  }
+  return configured;
+}
+
+function ageInDays(postingDate: string, now: Date): number | null {
+  const m = postingDate.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!m) return null;
+  const posted = Date.UTC(Number(m[1]), Number(m[2]) - 1, Number(m[3]));
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  return Math.max(0, Math.round((today - posted) / DAY_MS));
+}
+
+/**
+ * Compiles a scorer for one run. `overrides` (the profile's `scoring`) replace single settings
+ * of the default config; `now` is the reference date for the recency bonus.
+ */
+export function createScorer(overrides: ScoringOverrides = {}, now = new Date()) {
+  const config = mergeScoring(defaultScoring(), overrides);
+  const terms = config.terms.map((t) => ({ ...t, pattern: termPattern(t.term) }));
+
+  return (doc: MatchDocument, hits: MatchHit[], postingDate: string): JobScore => {
+    const entries: ScoreEntry[] = [];
+    const addTerm = (term: string, field: MatchField, weight: number) => {
+      if (entries.some((e) => e.type === "term" && e.term === term && e.field === field)) return;
+      entries.push({ type: "term", term, field, weight, points: round(weight * config.fieldWeights[field]) });
+    };
+
+    if (terms.length) {
+      for (const t of terms) {
+        for (const field of t.fields) if (t.pattern.test(doc[field])) addTerm(t.term, field, t.weight);
+      }
+    } else {
+      for (const hit of hits) addTerm(hit.term, hit.field, hit.negated ? -1 : 1);
+    }
+
+    const ageDays = ageInDays(postingDate, now);
+    if (ageDays !== null && config.recencyWeight > 0) {
+      const decay = config.recencyHalfLifeDays > 0 ? 0.5 ** (ageDays / config.recencyHalfLifeDays) : 1;
+      entries.push({ type: "recency", ageDays, points: round(config.recencyWeight * decay) });
+    }
+
+    return { score: round(entries.reduce((sum, e) => sum + e.points, 0)), scoreBreakdown: entries };
+  };
+}
+
+/**
+ * Sorts in place: `score` = highest first, `date` = newest postingDate first, `page` = as found.
+ * Jobs without a score (stored before scoring existed) or without a date go last.
+ */
+export function sortJobs(jobs: ApiJob[], sort: JobSort = "page"): ApiJob[] {
+  const scoreOf = (job: ApiJob) => (typeof job.score === "number" ? job.score : -Infinity);
+  // kein b - a: -Infinity - -Infinity wäre NaN
+  const byScore = (a: ApiJob, b: ApiJob) => (scoreOf(a) === scoreOf(b) ? 0 : scoreOf(a) < scoreOf(b) ? 1 : -1);
+  // YYYY-MM-DD sortiert als String richtig; leere Daten ans Ende
+  const byDate = (a: ApiJob, b: ApiJob) => (b.postingDate || "0").localeCompare(a.postingDate || "0");
+
+  if (sort === "score") jobs.sort((a, b) => byScore(a, b) || byDate(a, b));
+  else if (sort === "date") jobs.sort((a, b) => byDate(a, b) || byScore(a, b));
+  return jobs;
+}
@@ -0,0 +1,263 @@
+// FILE: src/search-profile.ts
+//
+// Search profiles: describe a LinkedIn job search (URL filters + match filter)
+// instead of hard-coding one query in the fetcher.
+
+import { parseMatchExpression } from "./match-expression";
+import { AppError, InvalidProfileError } from "./errors";
+import { linkedInUrl } from "./linkedin-url";
+import { JOB_SORTS, JobSort, ScoringOverrides, scoringFromInput } from "./scoring";
+
+export type WorkplaceType = "onsite" | "remote" | "hybrid";
+export type DatePosted = "any" | "24h" | "week" | "month";
+export type ExperienceLevel = "internship" | "entry" | "associate" | "mid-senior" | "director" | "executive";
+export type JobType = "full-time" | "part-time" | "contract" | "temporary" | "internship" | "volunteer" | "other";
+
+export type SearchProfile = {
+  name: string;
+  keywords: string;
+  location?: string;
+  geoId?: string;
+  workplaceTypes?: WorkplaceType[];
+  datePosted?: DatePosted;
+  experienceLevels?: ExperienceLevel[];
+  jobTypes?: JobType[];
+  maxResults: number;
+  // Wie viele Ergebnisseiten (je RESULTS_PER_PAGE Jobs, über `start=`) maximal durchsucht werden
+  maxPages: number;
+  // Filter auf die Metadaten der Detailseite (siehe job-metadata.ts); unbekannte Werte filtern nie
+  easyApplyOnly?: boolean;
+  maxApplicants?: number;
+  minSalary?: number; // jährlich, in der Währung der Anzeige
+  locationContains?: string;
+  // Match-Ausdruck (siehe match-expression.ts) über Titel, Firma, Beschreibung.
+  // Leer = jeder Treffer der LinkedIn-Suche wird übernommen.
+  matchExpression: string;
+  // Relevanz-Score (siehe scoring.ts): Jobs unter minScore fallen raus, `sort` ordnet das Ergebnis
+  minScore?: number;
+  sort?: JobSort;
+  scoring?: ScoringOverrides;
+};
+
+const MAX_RESULTS_LIMIT = 500;
+const MAX_PAGES_LIMIT = 40;
+
+// LinkedIn liefert 25 Jobs pro Ergebnisseite
+export const RESULTS_PER_PAGE = 25;
+
+const AI_TERMS =
+  '(ai OR "artificial intelligence" OR ki OR "k.i." OR "machine learning" OR ml OR genai OR "generative ai" ' +
+  'OR llm OR "large language model")';
+
+const HR_TERMS =
+  '(hr OR "human resources" OR people OR talent OR recruiting OR recruiter OR recruitment ' +
+  'OR "people operations" OR personal OR personalwesen OR personalabteilung)';
+
+export const DEFAULT_SEARCH_PROFILE: SearchProfile = {
+  name: "ai-hr",
+  keywords: '"AI" + "HR"',
+  maxResults: 40,
+  maxPages: 5,
+  matchExpression: `${AI_TERMS} AND ${HR_TERMS}`,
+};
+
+const WORKPLACE_TYPE_CODES: Record<WorkplaceType, string> = {
+  onsite: "1",
+  remote: "2",
+  hybrid: "3",
+};
+
+const DATE_POSTED_CODES: Record<Exclude<DatePosted, "any">, string> = {
+  "24h": "r86400",
+  week: "r604800",
+  month: "r2592000",
+};
+
+const EXPERIENCE_LEVEL_CODES: Record<ExperienceLevel, string> = {
+  internship: "1",
+  entry: "2",
+  associate: "3",
+  "mid-senior": "4",
+  director: "5",
+  executive: "6",
+};
+
+const JOB_TYPE_CODES: Record<JobType, string> = {
+  "full-time": "F",
+  "part-time": "P",
+  contract: "C",
+  temporary: "T",
+  internship: "I",
+  volunteer: "V",
+  other: "O",
+};
+
+/** `page` ist 1-basiert; ab Seite 2 wird der `start=` Offset gesetzt. */
+export function buildSearchUrl(profile: SearchProfile, page = 1): string {
+  const params: [string, string][] = [["keywords", profile.keywords]];
+
+  if (profile.location) params.push(["location", profile.location]);
+  if (profile.geoId) params.push(["geoId", profile.geoId]);
+  if (profile.workplaceTypes?.length) {
+    params.push(["f_WT", profile.workplaceTypes.map((t) => WORKPLACE_TYPE_CODES[t]).join(",")]);
+  }
+  if (profile.datePosted && profile.datePosted !== "any") {
+    params.push(["f_TPR", DATE_POSTED_CODES[profile.datePosted]]);
+  }
+  if (profile.experienceLevels?.length) {
+    params.push(["f_E", profile.experienceLevels.map((l) => EXPERIENCE_LEVEL_CODES[l]).join(",")]);
+  }
+  if (profile.jobTypes?.length) {
+    params.push(["f_JT", profile.jobTypes.map((t) => JOB_TYPE_CODES[t]).join(",")]);
+  }
+  if (page > 1) params.push(["start", String((page - 1) * RESULTS_PER_PAGE)]);
+  params.push(["origin", "SWITCH_SEARCH_VERTICAL"]);
+
+  // encodeURIComponent statt URLSearchParams: LinkedIn erwartet %20 statt "+"
+  const query = params.map(([k, v]) => `${k}=${encodeURIComponent(v)}`).join("&");
+  return `${linkedInUrl("/jobs/search-results/")}?${query}`;
+}
+
+function asList(value: unknown): string[] {
+  if (value === undefined || value === null || value === "") return [];
+  if (Array.isArray(value)) return value.flatMap((v) => asList(v));
+  return String(value)
+    .split(",")
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+function asString(value: unknown): string | undefined {
+  if (Array.isArray(value)) return asString(value[0]);
+  if (value === undefined || value === null) return undefined;
+  const s = String(value).trim();
+  return s ? s : undefined;
+}
+
+function asBool(field: string, value: unknown): boolean | undefined {
+  const s = asString(value)?.toLowerCase();
+  if (s === undefined) return undefined;
+  if (["true", "1", "yes"].includes(s)) return true;
+  if (["false", "0", "no"].includes(s)) return false;
+  throw new InvalidProfileError(`${field} must be true or false (got "${s}")`, { field });
+}
+
+function asIntInRange(field: string, value: string, max: number): number {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 1 || n > max) {
+    throw new InvalidProfileError(`${field} must be an integer between 1 and ${max}`, { field });
+  }
+  return n;
+}
+
+function pickEnum<T extends string>(field: string, values: string[], allowed: readonly T[]): T[] {
+  for (const v of values) {
+    if (!allowed.includes(v as T)) {
+      throw new InvalidProfileError(`${field} must be one of ${allowed.join(", ")} (got "${v}")`, { field });
+    }
+  }
+  return values as T[];
+}
+
+/**
+ * Builds a SearchProfile from loosely typed input (query string and/or JSON body).
+ * Missing fields fall back to the default AI+HR profile; when `keywords` is given
+ * without `match`, the default match expression is dropped.
+ */
+export function searchProfileFromInput(input: Record<string, unknown> | undefined | null): SearchProfile {
+  const src = input ?? {};
+  const keywords = asString(src.keywords);
+
+  const profile: SearchProfile = {
+    ...DEFAULT_SEARCH_PROFILE,
+    name: asString(src.name) ?? (keywords ? "custom" : DEFAULT_SEARCH_PROFILE.name),
+    keywords: keywords ?? DEFAULT_SEARCH_PROFILE.keywords,
+    matchExpression: keywords ? "" : DEFAULT_SEARCH_PROFILE.matchExpression,
+  };
+
+  const location = asString(src.location);
+  if (location) profile.location = location;
+
+  const geoId = asString(src.geoId);
+  if (geoId) profile.geoId = geoId;
+
+  const workplaceTypes = asList(src.workplaceTypes ?? src.workplaceType);
+  if (workplaceTypes.length) {
+    profile.workplaceTypes = pickEnum("workplaceTypes", workplaceTypes, ["onsite", "remote", "hybrid"] as const);
+  }
+
+  const datePosted = asString(src.datePosted);
+  if (datePosted) {
+    profile.datePosted = pickEnum("datePosted", [datePosted], ["any", "24h", "week", "month"] as const)[0];
+  }
+
+  const experienceLevels = asList(src.experienceLevels ?? src.experienceLevel);
+  if (experienceLevels.length) {
+    profile.experienceLevels = pickEnum("experienceLevels", experienceLevels, [
+      "internship",
+      "entry",
+      "associate",
+      "mid-senior",
+      "director",
+      "executive",
+    ] as const);
+  }
+
+  const jobTypes = asList(src.jobTypes ?? src.jobType);
+  if (jobTypes.length) {
+    profile.jobTypes = pickEnum("jobTypes", jobTypes, [
+      "full-time",
+      "part-time",
+      "contract",
+      "temporary",
+      "internship",
+      "volunteer",
+      "other",
+    ] as const);
+  }
+
+  const maxResults = asString(src.maxResults);
+  if (maxResults) profile.maxResults = asIntInRange("maxResults", maxResults, MAX_RESULTS_LIMIT);
+
+  const maxPages = asString(src.maxPages);
+  if (maxPages) profile.maxPages = asIntInRange("maxPages", maxPages, MAX_PAGES_LIMIT);
+
+  const easyApplyOnly = asBool("easyApplyOnly", src.easyApplyOnly);
+  if (easyApplyOnly !== undefined) profile.easyApplyOnly = easyApplyOnly;
+
+  const maxApplicants = asString(src.maxApplicants);
+  if (maxApplicants) profile.maxApplicants = asIntInRange("maxApplicants", maxApplicants, Number.MAX_SAFE_INTEGER);
+
+  const minSalary = asString(src.minSalary);
+  if (minSalary) profile.minSalary = asIntInRange("minSalary", minSalary, Number.MAX_SAFE_INTEGER);
+
+  const locationContains = asString(src.locationContains);
+  if (locationContains) profile.locationContains = locationContains;
+
+  const minScore = asString(src.minScore);
+  if (minScore) {
+    const n = Number(minScore);
+    if (!Number.isFinite(n)) throw new InvalidProfileError("minScore must be a number", { field: "minScore" });
+    profile.minScore = n;
+  }
+
+  const sort = asString(src.sort);
+  if (sort) profile.sort = pickEnum("sort", [sort], JOB_SORTS)[0];
+
+  if (src.scoring !== undefined && src.scoring !== null) profile.scoring = scoringFromInput(src.scoring);
+
+  const match = asString(src.match);
+  if (match !== undefined) {
+    try {
+      parseMatchExpression(match);
+    } catch (e: any) {
+      throw new InvalidProfileError(`match: ${String(e?.message ?? e)}`, {
+        field: "match",
+        ...(e instanceof AppError ? e.details : {}),
+      });
+    }
+    profile.matchExpression = match;
+  }
+
+  return profile;
+}
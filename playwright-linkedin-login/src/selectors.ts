@@ -0,0 +1,390 @@
+// FILE: src/selectors.ts
+//
+// Alle LinkedIn-Selektoren an einer Stelle, als versioniertes Selector-Profil.
+// Pro Feld eine geordnete Fallback-Liste: der erste Selektor mit Treffer gewinnt.
+// Bei UI-Änderungen reicht ein neues Profil (hier oder als JSON über SELECTOR_PROFILE_PATH),
+// `npm run selectors:check` zeigt gegen gespeicherte Snapshots, welcher Fallback greift.
+
+import fs from "fs";
+import { Locator, Page } from "playwright";
+import { ConfigurationError } from "./errors";
+
+// Auf welcher Seite das Feld erwartet wird (für selectors:check)
+export type SelectorPage = "search" | "job" | "any";
+
+export type SelectorField = {
+  page: SelectorPage;
+  selectors: string[]; // in Reihenfolge probiert
+  required?: boolean; // true = fehlt das Feld auf einem passenden Snapshot, schlägt der Check fehl
+};
+
+export type SelectorFieldName =
+  | "consentButton"
+  | "blockIndicator"
+  | "captcha"
+  | "loggedOutNotice"
+  | "rateLimitNotice"
+  | "loginForm"
+  | "loginPassword"
+  | "loginSubmit"
+  | "loginError"
+  | "verificationPin"
+  | "verificationSubmit"
+  | "noResults"
+  | "jobListScroller"
+  | "jobLink"
+  | "jobHeader"
+  | "jobTitle"
+  | "company"
+  | "showMoreButton"
+  | "description"
+  | "descriptionFallback"
+  | "postedDatetime"
+  | "postedText"
+  | "location"
+  | "insights"
+  | "primaryDescription"
+  | "criteriaItem"
+  | "criteriaLabel"
+  | "criteriaValue"
+  | "applyButton"
+  | "salary"
+  | "hiringTeamSection"
+  | "hiringTeamProfileLink"
+  | "hiringTeamCard"
+  | "hiringTeamName"
+  | "hiringTeamHeadline";
+
+export type SelectorProfile = {
+  name: string;
+  version: number;
+  fields: Record<SelectorFieldName, SelectorField>;
+};
+
+// Selector-Listen für page.evaluate (Funktionen lassen sich nicht in den Browser übergeben)
+export type SelectorLists = Record<SelectorFieldName, string[]>;
+
+export const LINKEDIN_SELECTORS_V1: SelectorProfile = {
+  name: "linkedin",
+  version: 1,
+  fields: {
+    consentButton: {
+      page: "any",
+      selectors: [
+        'button:has-text("Accept")',
+        'button:has-text("I Accept")',
+        'button:has-text("Agree")',
+        'button:has-text("Allow all cookies")',
+        'button:has-text("Accept cookies")',
+        'button:has-text("Alle Cookies akzeptieren")',
+        'button:has-text("Akzeptieren")',
+        'button:has-text("Zustimmen")',
+      ],
+    },
+    // Checkpoint / Sicherheitsüberprüfung (Klassifizierung in page-state.ts)
+    blockIndicator: {
+      page: "any",
+      selectors: [
+        'text="Sicherheitsüberprüfung"',
+        'text="Security Verification"',
+        'text="Verify"',
+        'text="Überprüfen"',
+      ],
+    },
+    captcha: {
+      page: "any",
+      selectors: [
+        'iframe[src*="captcha"]',
+        'iframe[title*="captcha" i]',
+        "#captcha-internal",
+        'text="Verify you are human"',
+      ],
+    },
+    loggedOutNotice: {
+      page: "any",
+      selectors: ['text="Sign in to continue"', 'text="Melde dich an"', 'text="Join LinkedIn"'],
+    },
+    rateLimitNotice: {
+      page: "any",
+      selectors: ["text=/too many requests/i", "text=/zu viele anfragen/i", "text=/commercial use limit/i"],
+    },
+    // E-Mail-Feld des Login-Formulars; sichtbar = ausgeloggt (page-state.ts), Eingabefeld für login-flow.ts
+    loginForm: {
+      page: "any",
+      selectors: ['input[name="session_key"]'],
+    },
+    loginPassword: {
+      page: "any",
+      selectors: ['input[name="session_password"]', "#password"],
+    },
+    loginSubmit: {
+      page: "any",
+      selectors: ['button[data-litms-control-urn="login-submit"]', 'form button[type="submit"]'],
+    },
+    loginError: {
+      page: "any",
+      selectors: ["#error-for-password", "#error-for-username", ".form__label--error"],
+    },
+    // PIN per E-Mail/SMS nach dem Login (Checkpoint), siehe login-flow.ts
+    verificationPin: {
+      page: "any",
+      selectors: ['input[name="pin"]', "#input__email_verification_pin", "#input__phone_verification_pin"],
+    },
+    verificationSubmit: {
+      page: "any",
+      selectors: ["#email-pin-submit-button", "#two-step-submit-button", 'form button[type="submit"]'],
+    },
+    noResults: {
+      page: "search",
+      selectors: [
+        ".jobs-search-no-results-banner",
+        ".jobs-search-two-pane__no-results-banner",
+        'text="No matching jobs found."',
+        'text="Keine passenden Jobs gefunden."',
+      ],
+    },
+    jobListScroller: {
+      page: "search",
+      selectors: [
+        "div.jobs-search-results-list",
+        "div.jobs-search-results-list__container",
+        "div.scaffold-layout__list-container",
+        'main [role="main"] .scaffold-layout__list-container',
+      ],
+    },
+    jobLink: {
+      page: "search",
+      selectors: ['a[href*="/jobs/view/"]'],
+      required: true,
+    },
+    jobHeader: {
+      page: "job",
+      selectors: ["h1", ".jobs-unified-top-card__job-title", ".job-details-jobs-unified-top-card__job-title"],
+    },
+    jobTitle: {
+      page: "job",
+      selectors: [".jobs-unified-top-card__job-title", ".job-details-jobs-unified-top-card__job-title", "h1"],
+      required: true,
+    },
+    company: {
+      page: "job",
+      selectors: [
+        ".jobs-unified-top-card__company-name",
+        ".job-details-jobs-unified-top-card__company-name",
+        'a[data-control-name="company_link"]',
+      ],
+      required: true,
+    },
+    showMoreButton: {
+      page: "job",
+      selectors: ['button:has-text("Mehr anzeigen")', 'button:has-text("Show more")'],
+    },
+    description: {
+      page: "job",
+      selectors: [
+        ".jobs-description-content__text",
+        ".jobs-box__html-content",
+        "#job-details",
+        'div[id*="job-details"]',
+      ],
+      required: true,
+    },
+    descriptionFallback: {
+      page: "job",
+      selectors: ['[class*="jobs-description"]', '[id*="job-details"]', "main"],
+    },
+    postedDatetime: {
+      page: "job",
+      selectors: ["time[datetime]"],
+    },
+    postedText: {
+      page: "job",
+      selectors: [
+        ".jobs-unified-top-card__posted-date",
+        ".posted-time-ago__text",
+        ".job-details-jobs-unified-top-card__primary-description-container time",
+        "time",
+      ],
+    },
+    location: {
+      page: "job",
+      selectors: [
+        ".jobs-unified-top-card__bullet",
+        ".job-details-jobs-unified-top-card__bullet",
+        ".topcard__flavor--bullet",
+      ],
+    },
+    insights: {
+      page: "job",
+      selectors: [
+        ".job-details-jobs-unified-top-card__job-insight",
+        ".job-details-preferences-and-skills__pill",
+        ".jobs-unified-top-card__job-insight",
+        ".jobs-unified-top-card__workplace-type",
+        ".job-details-fit-level-preferences button",
+      ],
+    },
+    primaryDescription: {
+      page: "job",
+      selectors: [
+        ".job-details-jobs-unified-top-card__primary-description-container",
+        ".job-details-jobs-unified-top-card__tertiary-description-container",
+        ".jobs-unified-top-card__primary-description",
+        ".jobs-unified-top-card__subtitle-primary-grouping",
+      ],
+    },
+    criteriaItem: {
+      page: "job",
+      selectors: [".description__job-criteria-item"],
+    },
+    // relativ zu criteriaItem
+    criteriaLabel: {
+      page: "job",
+      selectors: [".description__job-criteria-subheader", "h3"],
+    },
+    criteriaValue: {
+      page: "job",
+      selectors: [".description__job-criteria-text", "span"],
+    },
+    applyButton: {
+      page: "job",
+      selectors: [".jobs-apply-button", ".jobs-s-apply button", 'button[aria-label*="Apply"]'],
+    },
+    salary: {
+      page: "job",
+      selectors: ["#SALARY", ".compensation__salary", ".salary", ".job-details-jobs-unified-top-card__salary-info"],
+    },
+    hiringTeamSection: {
+      page: "job",
+      selectors: [
+        ".job-details-people-who-can-help__section",
+        ".job-details-people-who-can-help__section--two-pane",
+        ".hirer-card__container",
+        ".jobs-poster",
+        '[class*="hirer-card"]',
+      ],
+    },
+    // relativ zu hiringTeamSection
+    hiringTeamProfileLink: {
+      page: "job",
+      selectors: ['a[href*="/in/"]'],
+    },
+    hiringTeamCard: {
+      page: "job",
+      selectors: ['[class*="hirer-card"]', ".jobs-poster", "li", ".artdeco-entity-lockup"],
+    },
+    hiringTeamName: {
+      page: "job",
+      selectors: [".jobs-poster__name", '[class*="hirer-card__hirer-information"] strong', "strong"],
+    },
+    hiringTeamHeadline: {
+      page: "job",
+      selectors: [
+        ".hirer-card__job-title",
+        ".jobs-poster__headline",
+        ".artdeco-entity-lockup__subtitle",
+        '[class*="hirer-card__job-title"]',
+      ],
+    },
+  },
+};
+
+export const BUILTIN_SELECTOR_PROFILES: SelectorProfile[] = [LINKEDIN_SELECTORS_V1];
+
+const SELECTOR_PROFILE_PATH = process.env.SELECTOR_PROFILE_PATH || "";
+
+function invalidProfileFile(path: string, message: string) {
+  return new ConfigurationError("INVALID_SELECTOR_PROFILE", `${path}: ${message}`, { path });
+}
+
+function isStringList(v: unknown): v is string[] {
+  return Array.isArray(v) && v.length > 0 && v.every((s) => typeof s === "string" && s.trim() !== "");
+}
+
+/**
+ * Reads a selector profile from a JSON file. Fields that are not listed are taken
+ * from the built-in profile, so a JSON profile only needs the selectors that changed.
+ */
+export function loadSelectorProfileFile(path: string, base: SelectorProfile = LINKEDIN_SELECTORS_V1): SelectorProfile {
+  let raw: any;
+  try {
+    raw = JSON.parse(fs.readFileSync(path, "utf8"));
+  } catch (e: any) {
+    throw invalidProfileFile(path, e?.message ?? String(e));
+  }
+
+  if (!raw || typeof raw.name !== "string" || !raw.name.trim()) {
+    throw invalidProfileFile(path, '"name" is required.');
+  }
+  if (!Number.isInteger(raw.version)) {
+    throw invalidProfileFile(path, '"version" must be an integer.');
+  }
+
+  const fields = { ...base.fields };
+  for (const [key, value] of Object.entries<any>(raw.fields ?? {})) {
+    if (!(key in base.fields)) {
+      throw invalidProfileFile(path, `unknown field "${key}".`);
+    }
+    // Kurzform: "jobTitle": ["h1", ...]
+    const selectors = Array.isArray(value) ? value : value?.selectors;
+    if (!isStringList(selectors)) {
+      throw invalidProfileFile(path, `field "${key}" needs a non-empty selector list.`);
+    }
+    const name = key as SelectorFieldName;
+    fields[name] = {
+      ...base.fields[name],
+      selectors,
+      ...(typeof value?.required === "boolean" ? { required: value.required } : {}),
+    };
+  }
+
+  return { name: raw.name.trim(), version: raw.version, fields };
+}
+
+/** Built-in profiles plus the JSON profile from SELECTOR_PROFILE_PATH (if set). */
+export function listSelectorProfiles(): SelectorProfile[] {
+  const profiles = [...BUILTIN_SELECTOR_PROFILES];
+  if (SELECTOR_PROFILE_PATH) profiles.push(loadSelectorProfileFile(SELECTOR_PROFILE_PATH));
+  return profiles;
+}
+
+let activeProfile: SelectorProfile | null = null;
+
+/** The profile used by the fetcher: the JSON profile if configured, else the newest built-in one. */
+export function activeSelectorProfile(): SelectorProfile {
+  if (!activeProfile) {
+    const profiles = listSelectorProfiles();
+    activeProfile = profiles[profiles.length - 1];
+    console.log(`🧩 Selector profile: ${activeProfile.name} v${activeProfile.version}`);
+  }
+  return activeProfile;
+}
+
+export function selectorLists(profile: SelectorProfile = activeSelectorProfile()): SelectorLists {
+  const lists = {} as SelectorLists;
+  for (const [name, field] of Object.entries(profile.fields)) {
+    lists[name as SelectorFieldName] = field.selectors;
+  }
+  return lists;
+}
+
+/** All fallbacks as one CSS/Playwright selector list, for "is any of them there" checks. */
+export function anyOf(field: SelectorField): string {
+  return field.selectors.join(",");
+}
+
+export type ResolvedSelector = {
+  index: number; // 0 = erster Selektor, > 0 = Fallback
+  selector: string;
+  locator: Locator;
+};
+
+/** First selector of the field (in profile order) that matches at least one element, or null. */
+export async function resolveSelector(page: Page, field: SelectorField): Promise<ResolvedSelector | null> {
+  for (let index = 0; index < field.selectors.length; index++) {
+    const selector = field.selectors[index];
+    const locator = page.locator(selector);
+    if ((await locator.count().catch(() => 0)) > 0) return { index, selector, locator: locator.first() };
+  }
+  return null;
+}
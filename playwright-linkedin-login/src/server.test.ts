@@ -0,0 +1,148 @@
+import "./testing/env";
+import assert from "node:assert/strict";
+import { Server } from "http";
+import { AddressInfo } from "net";
+import { after, before, describe, it } from "node:test";
+import { app } from "../server";
+import { closeBrowserPool } from "./browser-pool";
+import { FixtureServer, startFixtureServer } from "./testing/fixture-server";
+
+describe("Express API against the fixture server", () => {
+  let fixtures: FixtureServer;
+  let server: Server;
+  let apiUrl = "";
+
+  const get = async (pathAndQuery: string) => {
+    const res = await fetch(`${apiUrl}${pathAndQuery}`);
+    return { status: res.status, body: (await res.json()) as any };
+  };
+
+  const send = async (method: string, path: string, body?: unknown) => {
+    const res = await fetch(`${apiUrl}${path}`, {
+      method,
+      headers: { "content-type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return { status: res.status, body: (await res.json()) as any };
+  };
+
+  before(async () => {
+    fixtures = await startFixtureServer();
+    process.env.LINKEDIN_BASE_URL = fixtures.baseUrl;
+    server = await new Promise<Server>((resolve) => {
+      const s = app.listen(0, "127.0.0.1", () => resolve(s));
+    });
+    apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server?.close(resolve));
+    await closeBrowserPool();
+    await fixtures?.close();
+  });
+
+  it("GET /api/v1/jobs returns matched jobs with meta", async () => {
+    fixtures.scenario = "default";
+    const { status, body } = await get("/api/v1/jobs?maxPages=1");
+    assert.equal(status, 200);
+    assert.equal(body.meta.completion, "complete");
+    assert.equal(body.meta.count, body.jobs.length);
+    assert.ok(body.jobs.some((j: any) => j.jobTitle === "AI Recruiter"));
+    assert.ok(fixtures.requests.includes("/feed/"), "session check ran against the fixture feed");
+  });
+
+  it("GET /api/v1/jobs rejects an invalid profile with 400", async () => {
+    const { status, body } = await get("/api/v1/jobs?maxPages=0");
+    assert.equal(status, 400);
+    assert.equal(body.error, "INVALID_PROFILE");
+    assert.equal(body.details.field, "maxPages");
+  });
+
+  it("GET /api/v1/jobs rejects an unknown export format with 400", async () => {
+    const { status, body } = await get("/api/v1/jobs?format=xlsx");
+    assert.equal(status, 400);
+    assert.equal(body.error, "INVALID_FORMAT");
+  });
+
+  it("GET /api/v1/jobs/new rejects an unknown sort with 400", async () => {
+    assert.ok(Array.isArray((await get("/api/v1/jobs/new?sort=score")).body.jobs));
+    const { status, body } = await get("/api/v1/jobs/new?sort=random");
+    assert.equal(status, 400);
+    assert.equal(body.error, "INVALID_SORT");
+  });
+
+  it("manages saved searches via /api/v1/searches", async () => {
+    const created = await send("POST", "/api/v1/searches", { id: "api-test", name: "api", keywords: "recruiter" });
+    assert.equal(created.status, 201);
+    assert.equal(created.body.profile.keywords, "recruiter");
+    const conflict = await send("POST", "/api/v1/searches", { id: "api-test", name: "again" });
+    assert.equal(conflict.status, 409);
+    assert.equal(conflict.body.error, "SEARCH_CONFLICT");
+
+    const replaced = await send("PUT", "/api/v1/searches/api-test", { name: "api", keywords: "hr", maxPages: 2 });
+    assert.equal(replaced.status, 200);
+    assert.equal(replaced.body.profile.maxPages, 2);
+    assert.equal((await get("/api/v1/searches/api-test")).body.profile.keywords, "hr");
+    assert.ok((await get("/api/v1/searches")).body.searches.some((s: any) => s.id === "api-test"));
+
+    assert.equal((await send("DELETE", "/api/v1/searches/api-test")).status, 200);
+    const missing = await send("POST", "/api/v1/searches/api-test/run");
+    assert.equal(missing.status, 404);
+    assert.equal(missing.body.error, "SEARCH_NOT_FOUND");
+  });
+
+  it("POST /api/v1/searches/:id/run runs the saved search", async () => {
+    fixtures.scenario = "default";
+    await send("POST", "/api/v1/searches", { id: "run-test", name: "saved", maxPages: 1, maxResults: 2 });
+    const { status, body } = await send("POST", "/api/v1/searches/run-test/run");
+    assert.equal(status, 200);
+    assert.equal(body.meta.searchId, "run-test");
+    assert.equal(body.meta.profile.name, "saved");
+    assert.equal(body.meta.count, 2);
+  });
+
+  it("GET /api/v1/webhooks/deliveries lists the delivery log and validates limit", async () => {
+    assert.deepEqual((await get("/api/v1/webhooks")).body, { webhooks: [] });
+    assert.ok(Array.isArray((await get("/api/v1/webhooks/deliveries")).body.deliveries));
+    const { status, body } = await get("/api/v1/webhooks/deliveries?limit=0");
+    assert.equal(status, 400);
+    assert.equal(body.error, "INVALID_LIMIT");
+  });
+
+  it("GET /api/v1/schedules lists schedules and GET /api/v1/schedules/runs validates limit", async () => {
+    assert.deepEqual((await get("/api/v1/schedules")).body, { timeZone: "UTC", schedules: [] });
+    assert.ok(Array.isArray((await get("/api/v1/schedules/runs")).body.runs));
+    const { status, body } = await get("/api/v1/schedules/runs?limit=abc");
+    assert.equal(status, 400);
+    assert.equal(body.error, "INVALID_LIMIT");
+  });
+
+  it("GET /api/v1/jobs answers 401 when the session is logged out", async () => {
+    fixtures.scenario = "logged_out";
+    const { status, body } = await get("/api/v1/jobs?maxPages=1");
+    assert.equal(status, 401);
+    assert.equal(body.error, "AUTH_REQUIRED");
+  });
+
+  it("POST /api/v1/sessions/:name/validate runs the feed check and GET /api/v1/sessions shows the result", async () => {
+    fixtures.scenario = "default";
+    const res = await fetch(`${apiUrl}/api/v1/sessions/default/validate`, { method: "POST" });
+    const body = (await res.json()) as any;
+    assert.equal(res.status, 200);
+    assert.equal(body.valid, true);
+    assert.equal(body.session.status, "healthy");
+
+    const { status, body: list } = await get("/api/v1/sessions");
+    assert.equal(status, 200);
+    assert.deepEqual(
+      list.sessions.map((s: any) => [s.name, s.status]),
+      [["default", "healthy"]]
+    );
+  });
+
+  it("POST /api/v1/sessions/:name/validate answers 404 for an unknown session", async () => {
+    const res = await fetch(`${apiUrl}/api/v1/sessions/nobody/validate`, { method: "POST" });
+    assert.equal(res.status, 404);
+    assert.equal(((await res.json()) as any).error, "SESSION_NOT_FOUND");
+  });
+});
@@ -0,0 +1,101 @@
+import "./testing/env";
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import { describe, it } from "node:test";
+import { AppError } from "./errors";
+import { createSessionStore, SessionStoreOptions, StorageState } from "./session-store";
+
+// Blob-Tests nur gegen Azurite: `npx azurite-blob --inMemoryPersistence` und
+// AZURITE_CONNECTION_STRING=UseDevelopmentStorage=true npm test
+const AZURITE = process.env.AZURITE_CONNECTION_STRING;
+
+const STATE: StorageState = {
+  cookies: [
+    {
+      name: "li_at",
+      value: "secret-cookie-value",
+      domain: ".linkedin.com",
+      path: "/",
+      expires: -1,
+      httpOnly: true,
+      secure: true,
+      sameSite: "None",
+    },
+  ],
+  origins: [],
+};
+
+function fileOptions(overrides: Partial<SessionStoreOptions> = {}): SessionStoreOptions {
+  const dir = path.join(process.env.OUTPUT_DIR as string, `store-${randomUUID()}`);
+  return { kind: "file", dir, defaultStatePath: path.join(dir, "linkedin-session.json"), ...overrides };
+}
+
+const isStoreError = (e: unknown) => e instanceof AppError && e.code === "INVALID_SESSION_STORE";
+
+describe("session stores", () => {
+  it("file store: default session is SESSION_PATH, named sessions live next to it", async () => {
+    const options = fileOptions();
+    const store = createSessionStore(options);
+    await store.saveState("default", STATE);
+    await store.saveState("second", STATE);
+    await store.saveMeta("second", { label: "second@example.com" });
+
+    assert.deepEqual((await store.list()).sort(), ["default", "second"]);
+    assert.equal(store.location("default"), options.defaultStatePath);
+    assert.deepEqual(await store.loadState("second"), STATE);
+    assert.deepEqual(await store.loadMeta("second"), { label: "second@example.com" });
+    assert.equal(await store.loadState("missing"), null);
+    assert.ok((await store.stat("default"))?.updatedAt);
+  });
+
+  it("encrypted-file store: nothing readable on disk, wrong key is rejected", async () => {
+    const options = fileOptions({ kind: "encrypted-file", encryptionKey: "correct horse battery staple" });
+    const store = createSessionStore(options);
+    await store.saveState("default", STATE);
+
+    const raw = fs.readFileSync(options.defaultStatePath, "utf8");
+    assert.doesNotMatch(raw, /secret-cookie-value|li_at/);
+    assert.deepEqual(await store.loadState("default"), STATE);
+
+    const wrongKey = createSessionStore({ ...options, encryptionKey: "0".repeat(64) });
+    await assert.rejects(wrongKey.loadState("default"), isStoreError);
+    await assert.rejects(createSessionStore({ ...options, kind: "file" }).loadState("default"), isStoreError);
+  });
+
+  it("encrypted-file store reads an existing plaintext session and encrypts it on the next save", async () => {
+    const options = fileOptions({ kind: "encrypted-file", encryptionKey: "a".repeat(64) });
+    fs.mkdirSync(options.dir, { recursive: true });
+    fs.writeFileSync(options.defaultStatePath, JSON.stringify(STATE));
+
+    const store = createSessionStore(options);
+    assert.deepEqual(await store.loadState("default"), STATE);
+    await store.saveState("default", STATE);
+    assert.doesNotMatch(fs.readFileSync(options.defaultStatePath, "utf8"), /secret-cookie-value/);
+  });
+
+  it("rejects incomplete configurations", () => {
+    assert.throws(() => createSessionStore(fileOptions({ kind: "encrypted-file" })), isStoreError);
+    assert.throws(() => createSessionStore(fileOptions({ kind: "blob" })), isStoreError);
+    assert.throws(() => createSessionStore(fileOptions({ kind: "s3" as never })), isStoreError);
+  });
+
+  it("blob store round trip against Azurite", { skip: !AZURITE && "AZURITE_CONNECTION_STRING not set" }, async () => {
+    const store = createSessionStore({
+      ...fileOptions({ kind: "blob", encryptionKey: "blob-passphrase" }),
+      blobConnectionString: AZURITE,
+      blobContainer: `sessions-${randomUUID()}`,
+    });
+    assert.deepEqual(await store.list(), []);
+    assert.equal(await store.stat("default"), null);
+
+    await store.saveState("default", STATE);
+    await store.saveMeta("default", { label: "me@example.com" });
+    assert.deepEqual(await store.list(), ["default"]);
+    assert.deepEqual(await store.loadState("default"), STATE);
+    assert.deepEqual(await store.loadMeta("default"), { label: "me@example.com" });
+    assert.ok((await store.stat("default"))?.updatedAt);
+    assert.match(store.location("default"), /\/default\.json$/);
+  });
+});
@@ -0,0 +1,308 @@
+// FILE: src/session-store.ts
+//
+// Wo storageState und Metadaten der Sessions liegen (SESSION_STORE):
+//   file           = Klartext-JSON unter SESSIONS_DIR (Default, wie bisher; "default" = SESSION_PATH)
+//   encrypted-file = wie file, aber AES-256-GCM mit SESSION_ENCRYPTION_KEY
+//   blob           = Azure Blob Storage (SESSION_BLOB_CONNECTION_STRING, Container SESSION_BLOB_CONTAINER),
+//                    mit SESSION_ENCRYPTION_KEY ebenfalls verschlüsselt
+// Pro Session zwei Dokumente: "<name>.json" (storageState) und "<name>.meta.json" (src/sessions.ts).
+
+import fs from "fs";
+import path from "path";
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from "crypto";
+import { BlobServiceClient } from "@azure/storage-blob";
+import { BrowserContext } from "playwright";
+import { ConfigurationError } from "./errors";
+
+export type StorageState = Awaited<ReturnType<BrowserContext["storageState"]>>;
+
+export type SessionStoreKind = "file" | "encrypted-file" | "blob";
+
+export type SessionStore = {
+  kind: SessionStoreKind;
+  encrypted: boolean;
+  /** Names of all sessions that have a storageState. */
+  list(): Promise<string[]>;
+  /** Time of the last storageState write, null if the session has none. */
+  stat(name: string): Promise<{ updatedAt: string } | null>;
+  loadState(name: string): Promise<StorageState | null>;
+  saveState(name: string, state: StorageState): Promise<void>;
+  loadMeta(name: string): Promise<Record<string, unknown> | null>;
+  saveMeta(name: string, meta: object): Promise<void>;
+  /** Where the storageState lives (file path or blob URL), for logs and GET /api/v1/sessions. */
+  location(name: string): string;
+};
+
+export type SessionStoreOptions = {
+  kind: SessionStoreKind;
+  dir: string; // file/encrypted-file
+  defaultStatePath: string; // storageState der Session "default" (SESSION_PATH)
+  encryptionKey?: string;
+  blobConnectionString?: string;
+  blobContainer?: string;
+};
+
+// Rohdokumente eines Backends, Schlüssel = "<name>.json" bzw. "<name>.meta.json"
+type Backend = {
+  get(key: string): Promise<Buffer | null>;
+  put(key: string, data: Buffer): Promise<void>;
+  modifiedAt(key: string): Promise<string | null>;
+  keys(): Promise<string[]>;
+  location(key: string): string;
+};
+
+type Codec = {
+  encrypted: boolean;
+  encode(plain: Buffer): Buffer;
+  decode(stored: Buffer, location: string): Buffer;
+};
+
+const DEFAULT_KEY = "default.json";
+const DEFAULT_BLOB_CONTAINER = "linkedin-sessions";
+const STATE_SUFFIX = ".json";
+const META_SUFFIX = ".meta.json";
+const CIPHER = "aes-256-gcm";
+// fester Salt: der Schlüssel muss auf jedem Rechner aus derselben Passphrase entstehen
+const KEY_SALT = "playwright-linkedin-session-store";
+
+function invalidStore(message: string, details?: Record<string, unknown>) {
+  return new ConfigurationError("INVALID_SESSION_STORE", message, details);
+}
+
+function fileBackend(dir: string, defaultStatePath: string): Backend {
+  const filePath = (key: string) => (key === DEFAULT_KEY ? defaultStatePath : path.join(dir, key));
+
+  return {
+    async get(key) {
+      return fs.promises.readFile(filePath(key)).catch((e: any) => {
+        if (e?.code === "ENOENT") return null;
+        throw e;
+      });
+    },
+
+    async put(key, data) {
+      const target = filePath(key);
+      await fs.promises.mkdir(path.dirname(target), { recursive: true });
+      // erst vollständig schreiben, dann umbenennen: parallele Leser sehen nie eine halbe Datei
+      const tmp = `${target}.tmp`;
+      await fs.promises.writeFile(tmp, data, { mode: 0o600 });
+      await fs.promises.rename(tmp, target);
+    },
+
+    async modifiedAt(key) {
+      const stat = await fs.promises.stat(filePath(key)).catch(() => null);
+      return stat?.isFile() ? stat.mtime.toISOString() : null;
+    },
+
+    async keys() {
+      const files = await fs.promises.readdir(dir).catch(() => [] as string[]);
+      const keys = new Set<string>();
+      for (const file of files) {
+        // die Legacy-Datei (SESSION_PATH) liegt meist im selben Ordner, sie ist "default"
+        if (path.resolve(dir, file) === path.resolve(defaultStatePath)) continue;
+        if (file.endsWith(STATE_SUFFIX)) keys.add(file);
+      }
+      if (fs.existsSync(defaultStatePath)) keys.add(DEFAULT_KEY);
+      return Array.from(keys);
+    },
+
+    location: filePath,
+  };
+}
+
+function blobBackend(connectionString: string, containerName: string): Backend {
+  const container = BlobServiceClient.fromConnectionString(connectionString).getContainerClient(containerName);
+  let ensured: Promise<unknown> | null = null;
+  const isNotFound = (e: any) => e?.statusCode === 404;
+
+  return {
+    async get(key) {
+      return container
+        .getBlockBlobClient(key)
+        .downloadToBuffer()
+        .catch((e) => {
+          if (isNotFound(e)) return null;
+          throw e;
+        });
+    },
+
+    async put(key, data) {
+      ensured ??= container.createIfNotExists().catch((e) => {
+        ensured = null;
+        throw e;
+      });
+      await ensured;
+      await container.getBlockBlobClient(key).upload(data, data.length, {
+        blobHTTPHeaders: { blobContentType: "application/json" },
+      });
+    },
+
+    async modifiedAt(key) {
+      const props = await container
+        .getBlockBlobClient(key)
+        .getProperties()
+        .catch((e) => {
+          if (isNotFound(e)) return null;
+          throw e;
+        });
+      return props?.lastModified?.toISOString() ?? null;
+    },
+
+    async keys() {
+      const keys: string[] = [];
+      try {
+        for await (const blob of container.listBlobsFlat()) keys.push(blob.name);
+      } catch (e) {
+        if (!isNotFound(e)) throw e;
+      }
+      return keys;
+    },
+
+    location: (key) => container.getBlockBlobClient(key).url,
+  };
+}
+
+const plainCodec: Codec = {
+  encrypted: false,
+  encode: (plain) => plain,
+  decode(stored, location) {
+    if (isEncryptedEnvelope(stored)) {
+      throw invalidStore(`${location} is encrypted, set SESSION_ENCRYPTION_KEY.`, { location });
+    }
+    return stored;
+  },
+};
+
+type EncryptedEnvelope = {
+  encrypted: typeof CIPHER;
+  iv: string;
+  tag: string;
+  data: string;
+};
+
+function parseEnvelope(stored: Buffer): EncryptedEnvelope | null {
+  try {
+    const parsed = JSON.parse(stored.toString("utf8"));
+    return parsed?.encrypted === CIPHER ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function isEncryptedEnvelope(stored: Buffer) {
+  return parseEnvelope(stored) !== null;
+}
+
+/** 64 hex chars are used as the raw key, anything else is a passphrase (scrypt). */
+function encryptionKey(secret: string): Buffer {
+  if (/^[0-9a-f]{64}$/i.test(secret)) return Buffer.from(secret, "hex");
+  return scryptSync(secret, KEY_SALT, 32);
+}
+
+function encryptedCodec(secret: string): Codec {
+  const key = encryptionKey(secret);
+  const warned = new Set<string>();
+
+  return {
+    encrypted: true,
+
+    encode(plain) {
+      const iv = randomBytes(12);
+      const cipher = createCipheriv(CIPHER, key, iv);
+      const data = Buffer.concat([cipher.update(plain), cipher.final()]);
+      const envelope: EncryptedEnvelope = {
+        encrypted: CIPHER,
+        iv: iv.toString("base64"),
+        tag: cipher.getAuthTag().toString("base64"),
+        data: data.toString("base64"),
+      };
+      return Buffer.from(JSON.stringify(envelope), "utf8");
+    },
+
+    decode(stored, location) {
+      const envelope = parseEnvelope(stored);
+      if (!envelope) {
+        // Klartext aus der Zeit vor der Verschlüsselung: lesbar, beim nächsten Speichern verschlüsselt
+        if (!warned.has(location)) {
+          warned.add(location);
+          console.warn(`⚠️ ${location} is not encrypted yet; it will be encrypted on the next save.`);
+        }
+        return stored;
+      }
+      try {
+        const decipher = createDecipheriv(CIPHER, key, Buffer.from(envelope.iv, "base64"));
+        decipher.setAuthTag(Buffer.from(envelope.tag, "base64"));
+        return Buffer.concat([decipher.update(Buffer.from(envelope.data, "base64")), decipher.final()]);
+      } catch {
+        throw invalidStore(`${location} cannot be decrypted with SESSION_ENCRYPTION_KEY.`, { location });
+      }
+    },
+  };
+}
+
+function documentStore(kind: SessionStoreKind, backend: Backend, codec: Codec): SessionStore {
+  const read = async (key: string) => {
+    const stored = await backend.get(key);
+    return stored === null ? null : JSON.parse(codec.decode(stored, backend.location(key)).toString("utf8"));
+  };
+  const write = (key: string, value: unknown) =>
+    backend.put(key, codec.encode(Buffer.from(JSON.stringify(value, null, 2), "utf8")));
+
+  return {
+    kind,
+    encrypted: codec.encrypted,
+
+    async list() {
+      const keys = await backend.keys();
+      return keys
+        .filter((k) => k.endsWith(STATE_SUFFIX) && !k.endsWith(META_SUFFIX))
+        .map((k) => k.slice(0, -STATE_SUFFIX.length));
+    },
+
+    async stat(name) {
+      const updatedAt = await backend.modifiedAt(`${name}${STATE_SUFFIX}`);
+      return updatedAt ? { updatedAt } : null;
+    },
+
+    loadState: (name) => read(`${name}${STATE_SUFFIX}`),
+    saveState: (name, state) => write(`${name}${STATE_SUFFIX}`, state),
+    loadMeta: (name) => read(`${name}${META_SUFFIX}`),
+    saveMeta: (name, meta) => write(`${name}${META_SUFFIX}`, meta),
+    location: (name) => backend.location(`${name}${STATE_SUFFIX}`),
+  };
+}
+
+/** Builds the store for `options`; throws INVALID_SESSION_STORE for incomplete settings. */
+export function createSessionStore(options: SessionStoreOptions): SessionStore {
+  const codec = options.encryptionKey ? encryptedCodec(options.encryptionKey) : plainCodec;
+
+  switch (options.kind) {
+    case "file":
+      return documentStore("file", fileBackend(options.dir, options.defaultStatePath), plainCodec);
+    case "encrypted-file":
+      if (!options.encryptionKey) throw invalidStore("SESSION_STORE=encrypted-file needs SESSION_ENCRYPTION_KEY.");
+      return documentStore("encrypted-file", fileBackend(options.dir, options.defaultStatePath), codec);
+    case "blob": {
+      if (!options.blobConnectionString) {
+        throw invalidStore("SESSION_STORE=blob needs SESSION_BLOB_CONNECTION_STRING (or AzureWebJobsStorage).");
+      }
+      const container = options.blobContainer || DEFAULT_BLOB_CONTAINER;
+      return documentStore("blob", blobBackend(options.blobConnectionString, container), codec);
+    }
+    default:
+      throw invalidStore(`unknown SESSION_STORE "${options.kind}" (file, encrypted-file or blob).`);
+  }
+}
+
+/** Store options from SESSION_STORE, SESSION_PATH, SESSIONS_DIR, SESSION_ENCRYPTION_KEY and SESSION_BLOB_*. */
+export function sessionStoreOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): SessionStoreOptions {
+  const defaultStatePath = env.SESSION_PATH || "session/linkedin-session.json";
+  return {
+    kind: (env.SESSION_STORE || "file") as SessionStoreKind,
+    dir: env.SESSIONS_DIR || path.dirname(defaultStatePath),
+    defaultStatePath,
+    encryptionKey: env.SESSION_ENCRYPTION_KEY || undefined,
+    blobConnectionString: env.SESSION_BLOB_CONNECTION_STRING || env.AzureWebJobsStorage || undefined,
+    blobContainer: env.SESSION_BLOB_CONTAINER || DEFAULT_BLOB_CONTAINER,
+  };
+}
@@ -0,0 +1,65 @@
+import "./testing/env";
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import { before, describe, it } from "node:test";
+import { AuthRequiredError, RateLimitedError } from "./errors";
+import {
+  getSession,
+  listSessions,
+  recordSessionFailure,
+  recordSessionValid,
+  sessionCandidates,
+  sessionFromInput,
+} from "./sessions";
+
+const SESSIONS_DIR = process.env.SESSIONS_DIR as string;
+
+describe("named sessions", () => {
+  before(() => {
+    // zwei weitere Accounts neben der Default-Session (SESSION_PATH = Kopie der Fixture)
+    fs.mkdirSync(SESSIONS_DIR, { recursive: true });
+    for (const name of ["second", "third"]) {
+      fs.copyFileSync(process.env.SESSION_PATH as string, path.join(SESSIONS_DIR, `${name}.json`));
+    }
+  });
+
+  it("lists the default session first, then the named ones", async () => {
+    const sessions = await listSessions();
+    assert.deepEqual(sessions.map((s) => s.name), ["default", "second", "third"]);
+    assert.equal(sessions[0].location, process.env.SESSION_PATH);
+    assert.ok(sessions.every((s) => s.status === "unknown" && s.healthy));
+  });
+
+  it("rotates through healthy sessions, least recently used first", async () => {
+    const picked: string[] = [];
+    for (let i = 0; i < 3; i++) {
+      picked.push((await sessionCandidates("auto"))[0].name);
+      await new Promise((resolve) => setTimeout(resolve, 5)); // lastUsedAt muss sich unterscheiden
+    }
+    assert.deepEqual(picked.sort(), ["default", "second", "third"]);
+  });
+
+  it("skips failing sessions until they validate again", async () => {
+    await recordSessionFailure("second", new AuthRequiredError("LinkedIn login form detected."));
+    const failing = await getSession("second");
+    assert.equal(failing.status, "failing");
+    assert.equal(failing.lastFailure?.code, "AUTH_REQUIRED");
+    assert.ok(!(await sessionCandidates("auto")).some((s) => s.name === "second"));
+
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    assert.equal((await recordSessionValid("second")).status, "healthy");
+  });
+
+  it("does not mark a session failing for errors that are not about the account", async () => {
+    assert.equal(await recordSessionFailure("third", new RateLimitedError("slow down")), false);
+    assert.equal((await getSession("third")).healthy, true);
+  });
+
+  it("rejects unknown and invalid session names", async () => {
+    await assert.rejects(getSession("nobody"), { code: "SESSION_NOT_FOUND", status: 404 });
+    assert.throws(() => sessionFromInput({ session: "../etc" }), { code: "INVALID_SESSION" });
+    assert.equal(sessionFromInput({ session: "auto" }), "auto");
+    assert.equal(sessionFromInput({}), undefined);
+  });
+});
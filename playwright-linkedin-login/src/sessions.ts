@@ -0,0 +1,228 @@
+// FILE: src/sessions.ts
+//
+// Benannte Session-Profile (mehrere LinkedIn-Accounts). Jede Session hat ihren eigenen storageState
+// ("<name>.json") und Metadaten ("<name>.meta.json": Label, angelegt, zuletzt validiert/genutzt, letzter
+// Fehler) im Session-Store (src/session-store.ts: Dateien, verschlüsselte Dateien oder Azure Blob).
+// Die Session "default" ist im Datei-Store weiterhin SESSION_PATH, damit bestehende Setups mit
+// session/linkedin-session.json unverändert laufen.
+//
+// "auto" statt eines Namens rotiert über die gesunden Sessions (die am längsten nicht genutzte zuerst).
+
+import {
+  AppError,
+  InvalidInputError,
+  NoHealthySessionError,
+  SessionMissingError,
+  SessionNotFoundError,
+} from "./errors";
+import { createSessionStore, SessionStore, sessionStoreOptionsFromEnv, StorageState } from "./session-store";
+
+export const DEFAULT_SESSION = "default";
+export const AUTO_SESSION = "auto";
+
+// Session ohne `session`-Parameter (Name oder "auto")
+const SESSION_NAME = process.env.SESSION_NAME || DEFAULT_SESSION;
+
+// Buchstaben, Ziffern, "-" und "_" -> sicher als Dateiname, kollidiert nie mit "<name>.meta.json";
+// "auto" ist reserviert
+const NAME_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9_-]{0,63}$/;
+
+// Fehler, nach denen die Session als "failing" gilt, bis sie wieder validiert wurde
+const UNHEALTHY_CODES = new Set(["AUTH_REQUIRED", "BLOCKED", "CAPTCHA_REQUIRED"]);
+
+export type SessionFailure = {
+  at: string; // ISO timestamp
+  code: string;
+  message: string;
+};
+
+export type SessionMeta = {
+  name: string;
+  label: string; // Account-Bezeichnung, z. B. die E-Mail beim Login
+  createdAt: string;
+  lastValidatedAt?: string; // letzter erfolgreicher Feed-Check
+  lastUsedAt?: string;
+  lastFailure?: SessionFailure;
+};
+
+// unknown = nie validiert, healthy = letzter Check ok, failing = letzter Fehler jünger als der letzte Check
+export type SessionStatus = "unknown" | "healthy" | "failing";
+
+export type SessionInfo = SessionMeta & {
+  location: string; // Datei oder Blob-URL des storageState
+  updatedAt: string; // letzter Schreibzugriff auf den storageState (Login oder Write-back nach einem Run)
+  status: SessionStatus;
+  healthy: boolean;
+};
+
+/** Throws INVALID_SESSION unless `name` is a usable session name ("auto" is reserved). */
+export function assertSessionName(name: string) {
+  if (!NAME_PATTERN.test(name) || name === AUTO_SESSION) {
+    throw new InvalidInputError("INVALID_SESSION", `invalid session name "${name}"`, { field: "session" });
+  }
+}
+
+let store: SessionStore | null = null;
+
+/** The store from SESSION_STORE & co., created on first use. */
+export function sessionStore(): SessionStore {
+  store ??= createSessionStore(sessionStoreOptionsFromEnv());
+  return store;
+}
+
+async function readMeta(name: string): Promise<Partial<SessionMeta>> {
+  try {
+    return ((await sessionStore().loadMeta(name)) ?? {}) as Partial<SessionMeta>;
+  } catch (e) {
+    // kaputte Metadaten sind kein Grund, die Session nicht zu nutzen; falscher Schlüssel schon
+    if (e instanceof AppError) throw e;
+    return {};
+  }
+}
+
+// Schreibzugriffe serialisieren, sonst überschreiben sich parallele Runs gegenseitig die Metadaten
+let writeChain: Promise<unknown> = Promise.resolve();
+
+function serialized<T>(fn: () => Promise<T>): Promise<T> {
+  const next = writeChain.then(fn, fn);
+  writeChain = next.catch(() => {});
+  return next;
+}
+
+function statusOf(meta: SessionMeta): SessionStatus {
+  if (meta.lastFailure && meta.lastFailure.at > (meta.lastValidatedAt ?? "")) return "failing";
+  return meta.lastValidatedAt ? "healthy" : "unknown";
+}
+
+async function loadSession(name: string): Promise<SessionInfo | null> {
+  assertSessionName(name);
+  const stat = await sessionStore().stat(name);
+  if (!stat) return null;
+
+  const stored = await readMeta(name);
+  const meta: SessionMeta = {
+    ...stored,
+    name,
+    label: stored.label ?? name,
+    createdAt: stored.createdAt ?? stat.updatedAt,
+  };
+  const status = statusOf(meta);
+  const location = sessionStore().location(name);
+  return { ...meta, location, updatedAt: stat.updatedAt, status, healthy: status !== "failing" };
+}
+
+function updateMeta(name: string, update: (meta: SessionMeta) => SessionMeta): Promise<SessionInfo> {
+  return serialized(async () => {
+    const current = await loadSession(name);
+    if (!current) throw new SessionNotFoundError(name);
+
+    const { label, createdAt, lastValidatedAt, lastUsedAt, lastFailure } = current;
+    const meta: SessionMeta = { name, label, createdAt, lastValidatedAt, lastUsedAt, lastFailure };
+    await sessionStore().saveMeta(name, update(meta));
+
+    return (await loadSession(name)) as SessionInfo;
+  });
+}
+
+/** All sessions with a storageState, default session first, then by name. */
+export async function listSessions(): Promise<SessionInfo[]> {
+  const names = (await sessionStore().list()).filter((n) => NAME_PATTERN.test(n) && n !== AUTO_SESSION);
+  const sessions = await Promise.all(names.map(loadSession));
+  return sessions
+    .filter((s): s is SessionInfo => s !== null)
+    .sort((a, b) => {
+      const defaultFirst = Number(b.name === DEFAULT_SESSION) - Number(a.name === DEFAULT_SESSION);
+      return defaultFirst || a.name.localeCompare(b.name);
+    });
+}
+
+/** Throws SESSION_MISSING for the default session (no login yet) and SESSION_NOT_FOUND for unknown names. */
+export async function getSession(name: string): Promise<SessionInfo> {
+  const session = await loadSession(name);
+  if (session) return session;
+  if (name === DEFAULT_SESSION) throw new SessionMissingError(sessionStore().location(name));
+  throw new SessionNotFoundError(name);
+}
+
+/** storageState of session `name` for a new browser context. */
+export async function loadSessionState(name: string): Promise<StorageState> {
+  assertSessionName(name);
+  const state = await sessionStore().loadState(name);
+  if (state) return state;
+  await getSession(name); // wirft SESSION_MISSING bzw. SESSION_NOT_FOUND
+  throw new SessionNotFoundError(name);
+}
+
+/**
+ * Saves the storageState of session `name` (login, or refreshed cookies after a run).
+ * Skips the write when nothing changed; returns true if it wrote.
+ */
+export async function saveSessionState(name: string, state: StorageState): Promise<boolean> {
+  assertSessionName(name);
+  const current = await sessionStore().loadState(name).catch(() => null);
+  if (current && JSON.stringify(current) === JSON.stringify(state)) return false;
+  await sessionStore().saveState(name, state);
+  return true;
+}
+
+/**
+ * Candidates for one run, in the order they should be tried: the named session alone,
+ * or for "auto" all healthy sessions, least recently used first. Marks the first
+ * candidate as used right away so parallel "auto" runs spread over the sessions.
+ */
+export async function sessionCandidates(selector: string = SESSION_NAME): Promise<SessionInfo[]> {
+  if (selector !== AUTO_SESSION) return [await getSession(selector)];
+
+  const all = await listSessions();
+  const healthy = all
+    .filter((s) => s.healthy)
+    .sort((a, b) => (a.lastUsedAt ?? "").localeCompare(b.lastUsedAt ?? "") || a.name.localeCompare(b.name));
+  if (!healthy.length) throw new NoHealthySessionError(all.map((s) => s.name));
+
+  // Metadaten sind Zusatzinfo: ein schreibgeschütztes SESSIONS_DIR darf den Run nicht verhindern
+  await markSessionUsed(healthy[0].name).catch(() => {});
+  return healthy;
+}
+
+export function markSessionUsed(name: string): Promise<SessionInfo> {
+  return updateMeta(name, (meta) => ({ ...meta, lastUsedAt: new Date().toISOString() }));
+}
+
+/** Successful feed check: the session counts as healthy again. */
+export function recordSessionValid(name: string): Promise<SessionInfo> {
+  return updateMeta(name, (meta) => ({ ...meta, lastValidatedAt: new Date().toISOString() }));
+}
+
+/**
+ * Records a failed run on the session. Only auth/verification errors make it "failing";
+ * timeouts and the like say nothing about the account. Returns true if it was recorded.
+ */
+export async function recordSessionFailure(name: string, err: AppError): Promise<boolean> {
+  if (!UNHEALTHY_CODES.has(err.code)) return false;
+  const lastFailure: SessionFailure = { at: new Date().toISOString(), code: err.code, message: err.message };
+  await updateMeta(name, (meta) => ({ ...meta, lastFailure }));
+  return true;
+}
+
+/** Writes the metadata of a freshly saved session (login); keeps createdAt of an existing one. */
+export async function registerSession(name: string, label: string): Promise<SessionInfo> {
+  const existing = await readMeta(name);
+  return updateMeta(name, (meta) => ({
+    name,
+    label,
+    createdAt: existing.createdAt ?? new Date().toISOString(),
+    lastValidatedAt: new Date().toISOString(),
+    lastUsedAt: meta.lastUsedAt,
+  }));
+}
+
+/** Reads `input.session` (session name or "auto"); undefined = SESSION_NAME. */
+export function sessionFromInput(input: Record<string, unknown> | undefined | null): string | undefined {
+  const raw = input?.session;
+  if (raw === undefined || raw === null || raw === "") return undefined;
+  if (typeof raw !== "string") {
+    throw new InvalidInputError("INVALID_SESSION", "session must be a string", { field: "session" });
+  }
+  if (raw !== AUTO_SESSION) assertSessionName(raw);
+  return raw;
+}
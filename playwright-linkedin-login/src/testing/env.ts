@@ -0,0 +1,40 @@
+// FILE: src/testing/env.ts
+//
+// Test-Umgebung. Als ERSTES in jeder Testdatei importieren: die Module lesen SESSION_PATH, SESSIONS_DIR,
+// OUTPUT_DIR, PACING_* usw. beim Laden aus process.env. LINKEDIN_BASE_URL setzen die Tests selbst,
+// sobald der Fixture-Server läuft.
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+process.env.OUTPUT_DIR = fs.mkdtempSync(path.join(os.tmpdir(), "linkedin-jobs-test-"));
+// Kopie der Fixture-Session: Runs schreiben erneuerte Cookies zurück, Metadaten landen daneben
+process.env.SESSIONS_DIR = path.join(process.env.OUTPUT_DIR, "sessions");
+process.env.SESSION_PATH = path.join(process.env.SESSIONS_DIR, "linkedin-session.json");
+fs.mkdirSync(process.env.SESSIONS_DIR, { recursive: true });
+fs.copyFileSync(path.resolve(__dirname, "../../fixtures/linkedin/session.json"), process.env.SESSION_PATH);
+delete process.env.SESSION_STORE;
+delete process.env.SESSION_ENCRYPTION_KEY;
+process.env.HEADLESS = "true";
+// Pacing: keine Pausen zwischen Seiten, kein Rate-Limit, bei Block sofort aufgeben
+process.env.PACING_PAGE_DELAY_MS = "0";
+process.env.PACING_MAX_PER_MINUTE = "10000";
+process.env.PACING_MAX_PER_HOUR = "10000";
+process.env.PACING_BLOCK_PAUSE_MS = "0";
+// Navigations-Timeout der Suchseiten kurz halten (Szenario "timeout")
+process.env.NAV_TIMEOUT_SEARCH_MS = "5000";
+// Webhook-Retries ohne lange Pausen; Webhooks konfigurieren die Tests selbst
+process.env.WEBHOOK_RETRY_BASE_MS = "10";
+delete process.env.WEBHOOKS_PATH;
+delete process.env.WEBHOOK_LOG_PATH;
+// Schedules in UTC, ohne Ruhezeiten; Schedules konfigurieren die Tests selbst
+process.env.SCHEDULE_TIMEZONE = "UTC";
+delete process.env.SCHEDULES_PATH;
+delete process.env.SCHEDULE_LOG_PATH;
+delete process.env.SCHEDULE_QUIET_HOURS;
+delete process.env.SEARCHES_PATH;
+delete process.env.SCORING_PATH;
+delete process.env.JOB_STORE_PATH;
+delete process.env.SESSION_NAME;
+delete process.env.SELECTOR_PROFILE_PATH;
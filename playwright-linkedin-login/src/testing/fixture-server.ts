@@ -0,0 +1,145 @@
+// FILE: src/testing/fixture-server.ts
+//
+// Lokaler Stand-in für LinkedIn: liefert aufgezeichnete Seiten aus fixtures/linkedin/ (Feed, Login,
+// PIN-Abfrage, Checkpoint, Captcha, Drosselung, Suchergebnisse mit Cookie-Banner + virtualisierter Liste,
+// leere Suche, Job-Detailseiten).
+// Mit LINKEDIN_BASE_URL=<baseUrl> laufen Fetcher, Server und Azure Functions ohne Netzwerk dagegen.
+//
+//   npm run fixtures   -> http://localhost:4010 (Port über FIXTURE_PORT)
+
+import express from "express";
+import fs from "fs";
+import path from "path";
+import { AddressInfo } from "net";
+import { RESULTS_PER_PAGE } from "../search-profile";
+
+export const FIXTURE_DIR = path.resolve(__dirname, "../../fixtures/linkedin");
+
+// default      = Login ok, 2 Ergebnisseiten, danach "keine Ergebnisse"
+// empty        = schon Seite 1 ohne Ergebnisse
+// blocked      = Seite 1 ok, ab Seite 2 Checkpoint (Verifizierung mitten im Run)
+// checkpoint   = Feed leitet auf /checkpoint/challenge/ um, Suche zeigt Checkpoint
+// captcha      = Suche zeigt ein Captcha
+// rate_limited = Seite 1 ok, ab Seite 2 Status 999 ("Too many requests")
+// timeout      = Seite 1 ok, ab Seite 2 keine Antwort (Navigations-Timeout mitten im Run)
+// logged_out   = Feed und Suche leiten auf /login um
+// verification = Login verlangt eine PIN (FIXTURE_PIN), danach Feed
+export type FixtureScenario =
+  | "default"
+  | "empty"
+  | "blocked"
+  | "checkpoint"
+  | "captcha"
+  | "rate_limited"
+  | "timeout"
+  | "logged_out"
+  | "verification";
+
+// einzige PIN, die die Fixture-Verifizierung akzeptiert
+export const FIXTURE_PIN = "123456";
+
+export type FixtureServer = {
+  baseUrl: string;
+  // jederzeit umschaltbar, gilt ab dem nächsten Request
+  scenario: FixtureScenario;
+  // aufgerufene Pfade inkl. Query, in Reihenfolge
+  requests: string[];
+  close(): Promise<void>;
+};
+
+function sendFixture(res: express.Response, file: string, status = 200) {
+  res.status(status).type("html").send(fs.readFileSync(path.join(FIXTURE_DIR, file), "utf8"));
+}
+
+function searchFixture(scenario: FixtureScenario, start: number): { file: string; status?: number } {
+  if (scenario === "checkpoint") return { file: "checkpoint.html" };
+  if (scenario === "captcha") return { file: "captcha.html" };
+  if (scenario === "empty") return { file: "no-results.html" };
+  if (scenario === "blocked" && start > 0) return { file: "checkpoint.html" };
+  if (scenario === "rate_limited" && start > 0) return { file: "rate-limited.html", status: 999 };
+
+  const pageNo = Math.floor(start / RESULTS_PER_PAGE) + 1;
+  const file = `search-page-${pageNo}.html`;
+  return { file: fs.existsSync(path.join(FIXTURE_DIR, file)) ? file : "no-results.html" };
+}
+
+/** Starts the fixture server (port 0 = free port) and resolves once it is listening. */
+export async function startFixtureServer(
+  options: { port?: number; scenario?: FixtureScenario } = {}
+): Promise<FixtureServer> {
+  const app = express();
+
+  const fixtures: FixtureServer = {
+    baseUrl: "",
+    scenario: options.scenario ?? "default",
+    requests: [],
+    close: async () => {},
+  };
+
+  app.use((req, _res, next) => {
+    fixtures.requests.push(req.originalUrl);
+    next();
+  });
+
+  app.get("/feed/", (_req, res) => {
+    if (fixtures.scenario === "logged_out") return res.redirect("/login");
+    if (fixtures.scenario === "checkpoint") return res.redirect("/checkpoint/challenge/");
+    return sendFixture(res, "feed.html");
+  });
+
+  app.get("/login", (_req, res) => sendFixture(res, "login.html"));
+  app.get("/checkpoint/challenge/", (_req, res) => sendFixture(res, "checkpoint.html"));
+
+  // Login-Formular: Zugangsdaten werden nicht geprüft, nur das Szenario entscheidet
+  app.post("/checkpoint/lg/login-submit", (_req, res) => {
+    if (fixtures.scenario === "verification") return res.redirect(303, "/checkpoint/challenge/verify");
+    return res.redirect(303, "/feed/");
+  });
+  app.get("/checkpoint/challenge/verify", (_req, res) => sendFixture(res, "verify-pin.html"));
+  app.post("/checkpoint/challenge/verify-submit", express.urlencoded({ extended: false }), (req, res) => {
+    if (req.body?.pin === FIXTURE_PIN) return res.redirect(303, "/feed/");
+    return res.redirect(303, "/checkpoint/challenge/verify?error=1");
+  });
+
+  app.get("/jobs/search-results/", (req, res) => {
+    if (fixtures.scenario === "logged_out") return res.redirect("/login");
+    const start = Number(req.query.start || 0);
+    // Antwort bleibt offen, bis der Browser aufgibt oder der Server schließt
+    if (fixtures.scenario === "timeout" && start > 0) return;
+    const { file, status } = searchFixture(fixtures.scenario, Number.isFinite(start) ? start : 0);
+    return sendFixture(res, file, status);
+  });
+
+  app.get("/jobs/view/:slug/", (req, res) => {
+    const id = req.params.slug.match(/(\d+)$/)?.[1] ?? "";
+    const file = `job-${id}.html`;
+    if (!id || !fs.existsSync(path.join(FIXTURE_DIR, file))) return res.status(404).type("text").send("Not found");
+    return sendFixture(res, file);
+  });
+
+  app.use((_req, res) => {
+    res.status(404).type("text").send("Not found");
+  });
+
+  const server = await new Promise<ReturnType<typeof app.listen>>((resolve) => {
+    const s = app.listen(options.port ?? 0, "127.0.0.1", () => resolve(s));
+  });
+
+  fixtures.baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  fixtures.close = () =>
+    new Promise<void>((resolve) => {
+      server.close(() => resolve());
+      server.closeAllConnections();
+    });
+  return fixtures;
+}
+
+if (require.main === module) {
+  startFixtureServer({
+    port: Number(process.env.FIXTURE_PORT || 4010),
+    scenario: (process.env.FIXTURE_SCENARIO as FixtureScenario) || "default",
+  }).then((fixtures) => {
+    console.log(`🧪 LinkedIn fixture server (${fixtures.scenario}): ${fixtures.baseUrl}`);
+    console.log(`   LINKEDIN_BASE_URL=${fixtures.baseUrl} SESSION_PATH=${path.join(FIXTURE_DIR, "session.json")}`);
+  });
+}
@@ -0,0 +1,93 @@
+// FILE: src/testing/webhook-receiver.ts
+//
+// Lokaler Empfänger für ausgehende Webhooks (src/webhooks.ts): nimmt jeden POST an, merkt sich Body + Header
+// und prüft die Signatur, wenn ein Secret gesetzt ist. `failFirst` beantwortet die ersten N Requests mit 503,
+// um Retries zu testen.
+//
+//   npm run webhooks:receiver   -> http://localhost:4020 (Port über WEBHOOK_RECEIVER_PORT,
+//                                  Secret über WEBHOOK_RECEIVER_SECRET)
+
+import express from "express";
+import { AddressInfo } from "net";
+import { SIGNATURE_HEADER, TIMESTAMP_HEADER, verifyWebhookSignature } from "../webhooks";
+
+export type ReceivedWebhook = {
+  path: string;
+  event: string;
+  deliveryId: string;
+  // null = kein Secret konfiguriert, nicht geprüft
+  signatureValid: boolean | null;
+  body: any;
+};
+
+export type WebhookReceiver = {
+  url: string;
+  // erfolgreich angenommene Webhooks, in Reihenfolge
+  received: ReceivedWebhook[];
+  // alle Requests inkl. der mit 503 beantworteten
+  requestCount: number;
+  // jederzeit änderbar, gilt ab dem nächsten Request
+  failFirst: number;
+  close(): Promise<void>;
+};
+
+export type WebhookReceiverOptions = {
+  port?: number;
+  secret?: string;
+  failFirst?: number;
+  onReceive?: (hook: ReceivedWebhook) => void;
+};
+
+export async function startWebhookReceiver(options: WebhookReceiverOptions = {}): Promise<WebhookReceiver> {
+  const app = express();
+  app.use(express.text({ type: "*/*", limit: "5mb" }));
+
+  const receiver: WebhookReceiver = {
+    url: "",
+    received: [],
+    requestCount: 0,
+    failFirst: options.failFirst ?? 0,
+    close: async () => {},
+  };
+
+  app.post(/.*/, (req, res) => {
+    receiver.requestCount++;
+    if (receiver.requestCount <= receiver.failFirst) return res.status(503).send("try again");
+
+    const raw = typeof req.body === "string" ? req.body : "";
+    const signature = req.get(SIGNATURE_HEADER) ?? "";
+    const timestamp = req.get(TIMESTAMP_HEADER) ?? "";
+    const hook: ReceivedWebhook = {
+      path: req.path,
+      event: req.get("X-Webhook-Event") ?? "",
+      deliveryId: req.get("X-Webhook-Delivery") ?? "",
+      signatureValid: options.secret ? verifyWebhookSignature(options.secret, timestamp, raw, signature) : null,
+      body: JSON.parse(raw || "null"),
+    };
+    receiver.received.push(hook);
+    options.onReceive?.(hook);
+    return res.status(204).end();
+  });
+
+  const server = await new Promise<ReturnType<typeof app.listen>>((resolve) => {
+    const s = app.listen(options.port ?? 0, "127.0.0.1", () => resolve(s));
+  });
+
+  receiver.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  receiver.close = () => new Promise<void>((resolve) => server.close(() => resolve()));
+  return receiver;
+}
+
+if (require.main === module) {
+  startWebhookReceiver({
+    port: Number(process.env.WEBHOOK_RECEIVER_PORT || 4020),
+    secret: process.env.WEBHOOK_RECEIVER_SECRET,
+    onReceive: (hook) => {
+      const signature =
+        hook.signatureValid === null ? "unsigned" : hook.signatureValid ? "signature ok" : "BAD SIGNATURE";
+      console.log(`📨 ${hook.event} ${hook.path} (${signature}): ${JSON.stringify(hook.body).slice(0, 200)}`);
+    },
+  }).then((receiver) => {
+    console.log(`🔔 Webhook receiver: ${receiver.url}/<any path>`);
+  });
+}
@@ -2,9 +2,13 @@ declare module "@azure/functions" {
   export interface HttpRequest {
     method: string;
     url: string;
+    query: URLSearchParams;
+    headers: Headers;
+    json(): Promise<unknown>;
   }
 
   export interface InvocationContext {
+    invocationId: string;
     log(...args: unknown[]): void;
   }
 
@@ -15,6 +19,11 @@ declare module "@azure/functions" {
     jsonBody?: unknown;
   }
 
+  export interface Timer {
+    isPastDue: boolean;
+    scheduleStatus?: { last: string; next: string; lastUpdated: string };
+  }
+
   export const app: {
     http(
       name: string,
@@ -24,5 +33,13 @@ declare module "@azure/functions" {
         handler: (request: HttpRequest, context: InvocationContext) => Promise<HttpResponseInit> | HttpResponseInit;
       }
     ): void;
+    timer(
+      name: string,
+      config: {
+        schedule: string;
+        runOnStartup?: boolean;
+        handler: (timer: Timer, context: InvocationContext) => Promise<void> | void;
+      }
+    ): void;
   };
 }
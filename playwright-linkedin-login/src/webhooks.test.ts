@@ -0,0 +1,162 @@
+import "./testing/env";
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import { after, before, describe, it } from "node:test";
+import { AppError } from "./errors";
+import { ApiJob } from "./jobs-ai-hr";
+import { recordJobs } from "./job-store";
+import {
+  createRunNotifier,
+  deliverWebhook,
+  listWebhookDeliveries,
+  loadWebhookConfigFile,
+  WebhookConfig,
+} from "./webhooks";
+import { startWebhookReceiver, WebhookReceiver } from "./testing/webhook-receiver";
+
+const SECRET = "receiver-secret";
+process.env.TEST_WEBHOOK_SECRET = SECRET;
+
+function job(jobId: string, overrides: Partial<ApiJob> = {}): ApiJob {
+  return {
+    jobId,
+    jobTitle: `AI Recruiter ${jobId}`,
+    description: "",
+    link: `https://www.linkedin.com/jobs/view/${jobId}/`,
+    contact: "",
+    contacts: [],
+    company: "Acme GmbH",
+    postingDate: "2026-10-01",
+    postingDateSource: "exact",
+    reposted: false,
+    location: "Berlin",
+    workplaceType: "hybrid",
+    employmentType: "full-time",
+    seniorityLevel: "",
+    applicantCount: null,
+    easyApply: false,
+    salary: null,
+    matches: [],
+    score: 0,
+    scoreBreakdown: [],
+    resultPage: 1,
+    ...overrides,
+  };
+}
+
+describe("webhooks against a local receiver", () => {
+  let receiver: WebhookReceiver;
+
+  const hook = (overrides: Partial<WebhookConfig> = {}): WebhookConfig => ({
+    name: "test",
+    url: `${receiver.url}/hooks/test`,
+    template: "json",
+    events: ["run.completed"],
+    secretEnv: "TEST_WEBHOOK_SECRET",
+    onlyNew: true,
+    profiles: [],
+    ...overrides,
+  });
+
+  before(async () => {
+    receiver = await startWebhookReceiver({ secret: SECRET });
+  });
+
+  after(async () => {
+    await receiver?.close();
+  });
+
+  it("sends only the new jobs of a run, signed, and logs the delivery", async () => {
+    receiver.received.length = 0;
+    const notifier = createRunNotifier("ai-hr", [hook(), hook({ name: "other-profile", profiles: ["sales"] })]);
+    const deliveries = await notifier.finish({
+      completion: "complete",
+      reason: "done",
+      session: "default",
+      jobs: [job("1", { status: "new" }), job("2", { status: "seen" })],
+    });
+
+    assert.deepEqual(deliveries.map((d) => [d.webhook, d.state, d.jobCount]), [["test", "delivered", 1]]);
+    const [received] = receiver.received;
+    assert.equal(received.path, "/hooks/test");
+    assert.equal(received.event, "run.completed");
+    assert.equal(received.signatureValid, true);
+    assert.equal(received.body.profile, "ai-hr");
+    assert.deepEqual(received.body.jobs.map((j: ApiJob) => j.jobId), ["1"]);
+
+    const [logged] = await listWebhookDeliveries(1);
+    assert.equal(logged.id, received.deliveryId);
+    assert.equal(logged.url, receiver.url); // ohne Pfad
+  });
+
+  it("retries 5xx answers with backoff and gives up after the last attempt", async () => {
+    receiver.received.length = 0;
+    receiver.requestCount = 0;
+    receiver.failFirst = 2;
+    const retried = await deliverWebhook(hook(), "run.completed", { profile: "ai-hr", jobs: [job("3")] });
+    assert.equal(retried.state, "delivered");
+    assert.deepEqual(retried.attempts.map((a) => a.status), [503, 503, 204]);
+
+    receiver.requestCount = 0;
+    receiver.failFirst = 100;
+    const failed = await deliverWebhook(hook(), "run.completed", { profile: "ai-hr", jobs: [job("3")] });
+    assert.equal(failed.state, "failed");
+    assert.equal(failed.attempts.length, 4);
+    receiver.failFirst = 0;
+
+    const unreachable = await deliverWebhook(hook({ url: "http://127.0.0.1:9/" }), "run.completed", {
+      profile: "ai-hr",
+      jobs: [],
+    });
+    assert.equal(unreachable.state, "failed");
+    assert.ok(unreachable.attempts.every((a) => a.status === undefined && a.error));
+  });
+
+  it("fires job.matched per new match and renders Teams and Slack cards", async () => {
+    await recordJobs([job("10")], "ai-hr"); // schon aus einem früheren Run bekannt
+    receiver.received.length = 0;
+
+    const notifier = createRunNotifier("ai-hr", [
+      hook({ name: "teams", template: "teams", events: ["job.matched"] }),
+      hook({ name: "slack", template: "slack", events: ["run.completed"], onlyNew: false }),
+    ]);
+    notifier.onJobMatched(job("10"));
+    notifier.onJobMatched(job("11", { jobTitle: "Talent <Lead> | AI" }));
+    const deliveries = await notifier.finish({ completion: "max_results", reason: "limit", jobs: [job("11")] });
+
+    assert.deepEqual(deliveries.map((d) => `${d.webhook}:${d.event}`), ["teams:job.matched", "slack:run.completed"]);
+    const teams = receiver.received.find((r) => r.event === "job.matched")!.body;
+    assert.equal(teams["@type"], "MessageCard");
+    assert.equal(teams.sections.length, 1);
+    assert.match(teams.sections[0].activityTitle, /Talent <Lead> \| AI/);
+
+    const slack = receiver.received.find((r) => r.event === "run.completed")!.body;
+    assert.equal(slack.blocks[0].type, "header");
+    assert.match(slack.blocks[1].text.text, /^\*<https:\/\/www\.linkedin\.com\/jobs\/view\/11\/\|AI Recruiter 11>\*/);
+  });
+
+  it("rejects webhook files with missing secrets or unknown templates", () => {
+    const file = path.join(process.env.OUTPUT_DIR as string, "webhooks.json");
+    const write = (hooks: unknown) => fs.writeFileSync(file, JSON.stringify(hooks));
+    const isConfigError = (e: unknown) => e instanceof AppError && e.code === "INVALID_WEBHOOK_CONFIG";
+
+    write([{ name: "a", url: "https://example.com/hook", secretEnv: "UNSET_WEBHOOK_SECRET" }]);
+    assert.throws(() => loadWebhookConfigFile(file), isConfigError);
+    write([{ name: "a", url: "https://example.com/hook", template: "discord" }]);
+    assert.throws(() => loadWebhookConfigFile(file), isConfigError);
+
+    write({ webhooks: [{ name: "a", url: "https://example.com/hook" }] });
+    assert.deepEqual(loadWebhookConfigFile(file), [
+      {
+        name: "a",
+        url: "https://example.com/hook",
+        template: "json",
+        events: ["run.completed"],
+        secretEnv: undefined,
+        onlyNew: true,
+        profiles: [],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,392 @@
+// FILE: src/webhooks.ts
+//
+// Ausgehende Webhooks für neu gefundene Jobs. Konfiguration aus WEBHOOKS_PATH (JSON-Datei), pro Webhook:
+//   event "run.completed" = einmal am Ende des Runs mit allen (neuen) Treffern
+//   event "job.matched"   = sofort pro Treffer, noch während der Run läuft
+//   template "json" | "teams" | "slack" = Aufbau des Bodys
+// Jeder Request ist signiert (X-Webhook-Signature = HMAC-SHA256 über "<timestamp>.<body>" mit dem Secret aus
+// der Umgebungsvariablen `secretEnv`), wird bei Netzwerkfehlern, 429 und 5xx mit Backoff wiederholt und landet
+// im Delivery-Log (WEBHOOK_LOG_PATH, NDJSON). Webhooks dürfen einen Run nie scheitern lassen.
+
+import fs from "fs";
+import path from "path";
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import { ApiJob, FetchCompletion, FetchResult } from "./jobs-ai-hr";
+import { loadJobStore } from "./job-store";
+import { formatSalary } from "./job-metadata";
+import { ConfigurationError, toAppError } from "./errors";
+import { sleep } from "./pacing";
+
+const WEBHOOK_LOG_PATH =
+  process.env.WEBHOOK_LOG_PATH || path.join(process.env.OUTPUT_DIR || "output", "webhook-deliveries.ndjson");
+const MAX_ATTEMPTS = Math.max(1, Number(process.env.WEBHOOK_MAX_ATTEMPTS || 4));
+// Wartezeit vor dem 2. Versuch, danach jeweils verdoppelt
+const RETRY_BASE_MS = Number(process.env.WEBHOOK_RETRY_BASE_MS || 1000);
+const TIMEOUT_MS = Number(process.env.WEBHOOK_TIMEOUT_MS || 10_000);
+// Teams/Slack-Karten bleiben lesbar; der JSON-Body enthält immer alle Jobs
+const MAX_CARD_JOBS = 10;
+
+export const SIGNATURE_HEADER = "X-Webhook-Signature";
+export const TIMESTAMP_HEADER = "X-Webhook-Timestamp";
+
+export type WebhookEvent = "run.completed" | "job.matched";
+export type WebhookTemplate = "json" | "teams" | "slack";
+
+const EVENTS: WebhookEvent[] = ["run.completed", "job.matched"];
+const TEMPLATES: WebhookTemplate[] = ["json", "teams", "slack"];
+
+export type WebhookConfig = {
+  name: string;
+  url: string;
+  template: WebhookTemplate;
+  events: WebhookEvent[];
+  // Name der Umgebungsvariablen mit dem HMAC-Secret (das Secret selbst gehört nicht in die Datei)
+  secretEnv?: string;
+  // nur Jobs, die in keinem früheren Run gesehen wurden (Default true)
+  onlyNew: boolean;
+  // nur Runs dieser Suchprofile; leer = alle
+  profiles: string[];
+};
+
+export type RunSummary = {
+  profile: string;
+  session?: string;
+  // fehlen bei "job.matched" (Run läuft noch)
+  completion?: FetchCompletion;
+  reason?: string;
+  jobs: ApiJob[];
+};
+
+export type DeliveryAttempt = {
+  at: string; // ISO timestamp
+  status?: number; // HTTP-Status der Antwort, fehlt bei Netzwerkfehler/Timeout
+  error?: string;
+  durationMs: number;
+};
+
+export type WebhookDelivery = {
+  id: string;
+  webhook: string;
+  event: WebhookEvent;
+  url: string; // ohne Pfad: Teams-/Slack-URLs enthalten das Token
+  state: "delivered" | "failed";
+  profile: string;
+  jobCount: number;
+  attempts: DeliveryAttempt[];
+  createdAt: string;
+  finishedAt: string;
+};
+
+function invalidConfig(file: string, message: string) {
+  return new ConfigurationError("INVALID_WEBHOOK_CONFIG", `${file}: ${message}`, { path: file });
+}
+
+function isWebhookEvent(v: unknown): v is WebhookEvent {
+  return EVENTS.includes(v as WebhookEvent);
+}
+
+/**
+ * Reads webhook definitions from a JSON file: an array (or `{ "webhooks": [...] }`) of
+ * `{ name, url | urlEnv, template?, events?, secretEnv?, onlyNew?, profiles? }`.
+ */
+export function loadWebhookConfigFile(file: string): WebhookConfig[] {
+  let raw: any;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (e: any) {
+    throw invalidConfig(file, e?.message ?? String(e));
+  }
+
+  const list = Array.isArray(raw) ? raw : raw?.webhooks;
+  if (!Array.isArray(list)) throw invalidConfig(file, "expected an array of webhooks.");
+
+  return list.map((hook: any, i): WebhookConfig => {
+    const name = typeof hook?.name === "string" && hook.name.trim() ? hook.name.trim() : `webhook-${i + 1}`;
+    const url = typeof hook?.urlEnv === "string" ? process.env[hook.urlEnv] : hook?.url;
+    if (typeof url !== "string" || !/^https?:\/\//.test(url)) {
+      throw invalidConfig(file, `webhook "${name}" needs an http(s) "url" or "urlEnv".`);
+    }
+
+    const template = hook.template ?? "json";
+    if (!TEMPLATES.includes(template)) {
+      throw invalidConfig(file, `webhook "${name}": template must be one of ${TEMPLATES.join(", ")}.`);
+    }
+    const events = hook.events ?? ["run.completed"];
+    if (!Array.isArray(events) || !events.length || !events.every(isWebhookEvent)) {
+      throw invalidConfig(file, `webhook "${name}": events must be a list of ${EVENTS.join(", ")}.`);
+    }
+    if (hook.secretEnv !== undefined && !process.env[hook.secretEnv]) {
+      throw invalidConfig(file, `webhook "${name}": environment variable ${hook.secretEnv} is not set.`);
+    }
+
+    return {
+      name,
+      url,
+      template,
+      events,
+      secretEnv: hook.secretEnv,
+      onlyNew: hook.onlyNew !== false,
+      profiles: Array.isArray(hook.profiles) ? hook.profiles.map(String) : [],
+    };
+  });
+}
+
+let configured: WebhookConfig[] | null = null;
+
+/** Webhooks from WEBHOOKS_PATH (none if unset), read on first use. */
+export function listWebhooks(): WebhookConfig[] {
+  configured ??= process.env.WEBHOOKS_PATH ? loadWebhookConfigFile(process.env.WEBHOOKS_PATH) : [];
+  return configured;
+}
+
+/** `sha256=<hex>` over `<timestamp>.<body>`. */
+export function signWebhookBody(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+/** For receivers: checks the X-Webhook-Signature header against the raw body. */
+export function verifyWebhookSignature(secret: string, timestamp: string, body: string, signature: string): boolean {
+  const expected = Buffer.from(signWebhookBody(secret, timestamp, body));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+function redactUrl(url: string): string {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * Templates
+ */
+function jobLine(job: ApiJob): string {
+  return [job.company, job.location, job.workplaceType, formatSalary(job.salary)].filter(Boolean).join(" · ");
+}
+
+function headline(event: WebhookEvent, summary: RunSummary): string {
+  if (event === "job.matched") return `New LinkedIn match for ${summary.profile}`;
+  return `${summary.jobs.length} LinkedIn job(s) for ${summary.profile}`;
+}
+
+// Slack-mrkdwn: &, <, > sind Steuerzeichen; "|" würde den Link-Text abschneiden
+function slackText(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/\|/g, "/");
+}
+
+function runLine(event: WebhookEvent, summary: RunSummary): string {
+  if (event === "job.matched") return "Found while the run is still going";
+  return `Run ${summary.completion}: ${summary.reason}`;
+}
+
+function renderPayload(hook: WebhookConfig, event: WebhookEvent, summary: RunSummary, deliveryId: string): unknown {
+  const shown = summary.jobs.slice(0, MAX_CARD_JOBS);
+  const more = summary.jobs.length - shown.length;
+
+  switch (hook.template) {
+    case "teams":
+      // Office 365 Connector MessageCard
+      return {
+        "@type": "MessageCard",
+        "@context": "https://schema.org/extensions",
+        summary: headline(event, summary),
+        themeColor: "0A66C2",
+        title: headline(event, summary),
+        text: `${runLine(event, summary)}${more > 0 ? ` · ${more} more not shown` : ""}`,
+        sections: shown.map((job) => ({
+          activityTitle: `[${job.jobTitle}](${job.link})`,
+          activitySubtitle: jobLine(job),
+          facts: [
+            { name: "Posted", value: job.postingDate || "unknown" },
+            { name: "Applicants", value: job.applicantCount === null ? "unknown" : String(job.applicantCount) },
+          ],
+        })),
+      };
+    case "slack":
+      return {
+        text: headline(event, summary),
+        blocks: [
+          { type: "header", text: { type: "plain_text", text: headline(event, summary) } },
+          ...shown.map((job) => ({
+            type: "section",
+            text: { type: "mrkdwn", text: `*<${job.link}|${slackText(job.jobTitle)}>*\n${slackText(jobLine(job))}` },
+          })),
+          ...(more > 0 ? [{ type: "context", elements: [{ type: "mrkdwn", text: `${more} more not shown` }] }] : []),
+        ],
+      };
+    default:
+      return {
+        event,
+        deliveryId,
+        sentAt: new Date().toISOString(),
+        profile: summary.profile,
+        session: summary.session,
+        completion: summary.completion,
+        reason: summary.reason,
+        count: summary.jobs.length,
+        jobs: summary.jobs,
+      };
+  }
+}
+
+/**
+ * Delivery
+ */
+// Log-Zeilen nicht verschränken, wenn mehrere Webhooks gleichzeitig fertig werden
+let logChain: Promise<unknown> = Promise.resolve();
+
+function appendDeliveryLog(delivery: WebhookDelivery) {
+  logChain = logChain
+    .then(async () => {
+      await fs.promises.mkdir(path.dirname(WEBHOOK_LOG_PATH), { recursive: true });
+      await fs.promises.appendFile(WEBHOOK_LOG_PATH, JSON.stringify(delivery) + "\n", "utf8");
+    })
+    .catch((e) => console.warn(`⚠️ Could not write webhook delivery log: ${toAppError(e).message}`));
+  return logChain;
+}
+
+function shouldRetry(status: number | undefined) {
+  return status === undefined || status === 429 || status >= 500;
+}
+
+/**
+ * Sends one event to one webhook with retries (network errors, 429, 5xx; exponential backoff)
+ * and appends the outcome to the delivery log. Never throws.
+ */
+export async function deliverWebhook(
+  hook: WebhookConfig,
+  event: WebhookEvent,
+  summary: RunSummary
+): Promise<WebhookDelivery> {
+  const id = randomUUID();
+  const createdAt = new Date().toISOString();
+  const body = JSON.stringify(renderPayload(hook, event, summary, id));
+  const secret = hook.secretEnv ? process.env[hook.secretEnv] : undefined;
+  const attempts: DeliveryAttempt[] = [];
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    if (attempt > 1) await sleep(RETRY_BASE_MS * 2 ** (attempt - 2));
+
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      "User-Agent": "playwright-linkedin-login-webhooks",
+      "X-Webhook-Event": event,
+      "X-Webhook-Delivery": id,
+      [TIMESTAMP_HEADER]: timestamp,
+    };
+    if (secret) headers[SIGNATURE_HEADER] = signWebhookBody(secret, timestamp, body);
+
+    const startedAt = Date.now();
+    const at = new Date(startedAt).toISOString();
+    try {
+      const res = await fetch(hook.url, { method: "POST", headers, body, signal: AbortSignal.timeout(TIMEOUT_MS) });
+      attempts.push({ at, status: res.status, durationMs: Date.now() - startedAt });
+      if (res.ok || !shouldRetry(res.status)) break;
+    } catch (e) {
+      attempts.push({ at, error: toAppError(e).message, durationMs: Date.now() - startedAt });
+    }
+  }
+
+  const last = attempts[attempts.length - 1];
+  const delivery: WebhookDelivery = {
+    id,
+    webhook: hook.name,
+    event,
+    url: redactUrl(hook.url),
+    state: last.status !== undefined && last.status >= 200 && last.status < 300 ? "delivered" : "failed",
+    profile: summary.profile,
+    jobCount: summary.jobs.length,
+    attempts,
+    createdAt,
+    finishedAt: new Date().toISOString(),
+  };
+  if (delivery.state === "failed") {
+    const outcome = last.status ? `HTTP ${last.status}` : last.error;
+    console.warn(`⚠️ Webhook ${hook.name} (${event}) failed after ${attempts.length} attempt(s): ${outcome}`);
+  }
+  await appendDeliveryLog(delivery);
+  return delivery;
+}
+
+/** Most recent deliveries from the delivery log, newest first. */
+export async function listWebhookDeliveries(limit = 50): Promise<WebhookDelivery[]> {
+  await logChain;
+  const raw = await fs.promises.readFile(WEBHOOK_LOG_PATH, "utf8").catch((e: any) => {
+    if (e?.code === "ENOENT") return "";
+    throw e;
+  });
+
+  const deliveries: WebhookDelivery[] = [];
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      deliveries.push(JSON.parse(line));
+    } catch {
+      // halb geschriebene Zeile überspringen
+    }
+  }
+  return deliveries.reverse().slice(0, limit);
+}
+
+export type RunResult = Pick<FetchResult, "jobs" | "completion" | "reason"> & { session?: string };
+
+export type RunNotifier = {
+  /** Pass as `onJobMatched` to the fetcher: fires "job.matched" webhooks right away. */
+  onJobMatched(job: ApiJob): void;
+  /**
+   * Fires "run.completed" webhooks (jobs with `status` from the job store) once the
+   * "job.matched" deliveries of this run are done. Resolves with all deliveries of the run.
+   */
+  finish(result: RunResult): Promise<WebhookDelivery[]>;
+};
+
+function configuredWebhooks(): WebhookConfig[] {
+  try {
+    return listWebhooks();
+  } catch (e) {
+    console.warn(`⚠️ Webhooks disabled: ${toAppError(e).message}`);
+    return [];
+  }
+}
+
+/** Webhook notifications for one run of `profile`; does nothing if no webhook is configured. */
+export function createRunNotifier(profile: string, hooks: WebhookConfig[] = configuredWebhooks()): RunNotifier {
+  const active = hooks.filter((h) => !h.profiles.length || h.profiles.includes(profile));
+  const matchDeliveries: Promise<WebhookDelivery[]>[] = [];
+  let knownJobIds: Promise<Set<string>> | null = null;
+
+  const onMatch = active.filter((h) => h.events.includes("job.matched"));
+  const onCompleted = active.filter((h) => h.events.includes("run.completed"));
+
+  return {
+    onJobMatched(job) {
+      if (!onMatch.length) return;
+      // "neu" heißt während des Runs: nicht im Job-Store von vor diesem Run
+      knownJobIds ??= loadJobStore()
+        .then((store) => new Set(store.keys()))
+        .catch(() => new Set<string>());
+      const delivered = knownJobIds.then(async (known) => {
+        const isNew = !known.has(job.jobId);
+        const summary: RunSummary = { profile, jobs: [{ ...job, status: isNew ? "new" : "seen" }] };
+        const targets = onMatch.filter((h) => isNew || !h.onlyNew);
+        return Promise.all(targets.map((h) => deliverWebhook(h, "job.matched", summary)));
+      });
+      matchDeliveries.push(delivered);
+    },
+
+    async finish(result) {
+      const matched = (await Promise.all(matchDeliveries)).flat();
+      const completed = await Promise.all(
+        onCompleted.map((hook) => {
+          const jobs = hook.onlyNew ? result.jobs.filter((j) => j.status === "new") : result.jobs;
+          if (!jobs.length) return null;
+          return deliverWebhook(hook, "run.completed", { ...result, profile, jobs });
+        })
+      );
+      return [...matched, ...completed.filter((d): d is WebhookDelivery => d !== null)];
+    },
+  };
+}